@@ -4,8 +4,12 @@ import { AuthGuard, MainLayout } from "@/components/layout"
 import { Toaster } from "@/components/ui/sonner"
 import { TooltipProvider } from "@/components/ui/tooltip"
 import Auth from "./pages/Auth"
+import DevMailbox from "./pages/DevMailbox"
 import Home from "./pages/Home"
 import NotFound from "./pages/NotFound"
+import Settings from "./pages/Settings"
+import TaskDetail from "./pages/TaskDetail"
+import Trash from "./pages/Trash"
 
 const queryClient = new QueryClient()
 
@@ -18,6 +22,9 @@ const App = () => (
           {/* Public auth route */}
           <Route path="/auth" element={<Auth />} />
 
+          {/* Email caught by EMAIL_TRANSPORT=mailbox; development builds only */}
+          {import.meta.env.DEV && <Route path="/dev/mailbox" element={<DevMailbox />} />}
+
           {/* Protected routes */}
           <Route
             path="/"
@@ -28,6 +35,10 @@ const App = () => (
             }
           >
             <Route index element={<Home />} />
+            <Route path="projects/:projectId" element={<Home />} />
+            <Route path="tasks/:taskId" element={<TaskDetail />} />
+            <Route path="trash" element={<Trash />} />
+            <Route path="settings" element={<Settings />} />
           </Route>
 
           {/* 404 */}
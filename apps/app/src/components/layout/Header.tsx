@@ -1,4 +1,4 @@
-import { LogOut } from "lucide-react"
+import { LogOut, Settings } from "lucide-react"
 import { Link } from "react-router-dom"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Button } from "@/components/ui/button"
@@ -10,6 +10,8 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
+import { NotificationsMenu } from "@/features/notifications"
+import { TaskSearch } from "@/features/search"
 import { useAuth } from "@/hooks/useAuth"
 
 export function Header() {
@@ -22,14 +24,17 @@ export function Header() {
 
   return (
     <header className="border-b">
-      <div className="flex h-16 items-center px-4">
+      <div className="flex h-16 items-center gap-2 px-4">
         {/* Logo */}
         <Link to="/" className="flex items-center gap-2 font-bold text-lg">
           <span>Your App Name</span>
         </Link>
 
-        {/* Spacer */}
-        <div className="flex-1" />
+        {/* Search */}
+        <div className="flex flex-1 justify-center px-4">{user && <TaskSearch />}</div>
+
+        {/* Notifications */}
+        {user && <NotificationsMenu />}
 
         {/* User Menu */}
         {user && (
@@ -53,6 +58,12 @@ export function Header() {
                 </div>
               </DropdownMenuLabel>
               <DropdownMenuSeparator />
+              <DropdownMenuItem asChild className="cursor-pointer">
+                <Link to="/settings">
+                  <Settings className="mr-2 h-4 w-4" />
+                  <span>Settings</span>
+                </Link>
+              </DropdownMenuItem>
               <DropdownMenuItem
                 onClick={signOut}
                 className="cursor-pointer text-destructive focus:text-destructive"
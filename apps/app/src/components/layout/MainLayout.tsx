@@ -1,15 +1,23 @@
 import { Outlet } from "react-router-dom"
+import { LabelSidebarSection } from "@/features/labels"
+import { ProjectSidebar } from "@/features/projects"
 import { Header } from "./Header"
 
 export function MainLayout() {
   return (
     <div className="min-h-screen flex flex-col bg-background">
       <Header />
-      <main className="flex-1 overflow-auto">
-        <div className="container mx-auto px-4 py-6 lg:px-8 lg:py-8 animate-fade-in">
-          <Outlet />
-        </div>
-      </main>
+      <div className="flex flex-1">
+        <aside className="hidden w-60 shrink-0 space-y-4 border-r p-4 md:block">
+          <ProjectSidebar />
+          <LabelSidebarSection />
+        </aside>
+        <main className="flex-1 overflow-auto">
+          <div className="container mx-auto px-4 py-6 lg:px-8 lg:py-8 animate-fade-in">
+            <Outlet />
+          </div>
+        </main>
+      </div>
     </div>
   )
 }
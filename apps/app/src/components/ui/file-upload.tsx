@@ -0,0 +1,159 @@
+import type { Id } from "convex/_generated/dataModel"
+import { RotateCcw, Upload, X } from "lucide-react"
+import { useRef, useState } from "react"
+import type { UploadPurpose } from "@/hooks/useStorage"
+import { type UploadItem, useUploadQueue } from "@/hooks/useUploadQueue"
+import { formatBytes } from "@/lib/format"
+import { cn } from "@/lib/utils"
+import { Button } from "./button"
+import { Progress } from "./progress"
+
+interface FileUploadProps {
+  purpose: UploadPurpose
+  /** Called once for each file that finishes uploading */
+  onUploaded?: (storageId: Id<"_storage">, file: File) => void | Promise<void>
+  /** Value for the file input's `accept` attribute, e.g. "image/*" */
+  accept?: string
+  multiple?: boolean
+  maxSize?: number
+  concurrency?: number
+  disabled?: boolean
+  label?: string
+  className?: string
+}
+
+function UploadRow({
+  item,
+  onCancel,
+  onRetry,
+  onRemove,
+}: {
+  item: UploadItem
+  onCancel: () => void
+  onRetry: () => void
+  onRemove: () => void
+}) {
+  const active = item.status === "queued" || item.status === "uploading"
+
+  return (
+    <li className="space-y-1 text-sm">
+      <div className="flex items-center gap-2">
+        <span className="truncate">{item.file.name}</span>
+        <span className="shrink-0 text-xs text-muted-foreground">
+          {item.status === "uploading"
+            ? `${Math.round(item.progress * 100)}%`
+            : item.status === "queued"
+              ? "Waiting..."
+              : item.status === "cancelled"
+                ? "Cancelled"
+                : formatBytes(item.file.size)}
+        </span>
+        <div className="flex-1" />
+        {(item.status === "error" || item.status === "cancelled") && item.retryable && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            aria-label={`Retry ${item.file.name}`}
+            onClick={onRetry}
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          aria-label={active ? `Cancel ${item.file.name}` : `Dismiss ${item.file.name}`}
+          onClick={active ? onCancel : onRemove}
+        >
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+      {active && <Progress value={item.progress * 100} className="h-1" />}
+      {item.error && <p className="text-xs text-destructive">{item.error}</p>}
+    </li>
+  )
+}
+
+/**
+ * Drop zone and file picker that uploads files through a queue, showing
+ * each file's progress with cancel and retry buttons. Finished uploads
+ * are handed to `onUploaded` and cleared from the list.
+ */
+export function FileUpload({
+  purpose,
+  onUploaded,
+  accept,
+  multiple = true,
+  maxSize,
+  concurrency,
+  disabled = false,
+  label = "Drop files here or click to browse",
+  className,
+}: FileUploadProps) {
+  const { items, add, cancel, retry, remove } = useUploadQueue({
+    purpose,
+    concurrency,
+    maxSize,
+    onUploaded,
+  })
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isDragging, setIsDragging] = useState(false)
+
+  const addFiles = (files: FileList | null) => {
+    if (!files || disabled) return
+    add(multiple ? Array.from(files) : Array.from(files).slice(0, 1))
+  }
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault()
+          setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault()
+          setIsDragging(false)
+          addFiles(e.dataTransfer.files)
+        }}
+        className={cn(
+          "flex w-full flex-col items-center gap-1 rounded-lg border-2 border-dashed p-6 text-sm text-muted-foreground transition-colors hover:bg-muted/50 disabled:cursor-not-allowed disabled:opacity-50",
+          isDragging && "border-primary bg-muted/50",
+        )}
+      >
+        <Upload className="h-5 w-5" />
+        {label}
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={accept}
+        multiple={multiple}
+        className="hidden"
+        onChange={(e) => {
+          addFiles(e.target.files)
+          e.target.value = ""
+        }}
+      />
+      {items.length > 0 && (
+        <ul className="space-y-2">
+          {items.map((item) => (
+            <UploadRow
+              key={item.id}
+              item={item}
+              onCancel={() => cancel(item.id)}
+              onRetry={() => retry(item.id)}
+              onRemove={() => remove(item.id)}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
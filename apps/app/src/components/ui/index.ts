@@ -38,6 +38,7 @@ export {
   DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "./dropdown-menu"
+export { FileUpload } from "./file-upload"
 export { Input, type InputProps } from "./input"
 export { Label } from "./label"
 export { Progress } from "./progress"
@@ -0,0 +1,124 @@
+import { api } from "convex/_generated/api"
+import type { Id } from "convex/_generated/dataModel"
+import { useMutation, useQuery } from "convex/react"
+import type { FunctionReturnType } from "convex/server"
+import { Paperclip, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { FileUpload } from "@/components/ui/file-upload"
+import { UPLOAD_MAX_SIZE } from "@/features/storage"
+import { useImageUrl } from "@/hooks/useStorage"
+import { formatBytes } from "@/lib/format"
+import { ATTACHMENT_FILENAME_MAX_LENGTH } from "./constants"
+import { ShareLinksPopover } from "./ShareLinksPopover"
+
+type Attachment = FunctionReturnType<typeof api.attachments.list>[number]
+
+/** Size of image attachment previews, in CSS pixels */
+const PREVIEW_SIZE = 32
+
+/**
+ * Preview of an image attachment, loaded from its smallest thumbnail.
+ */
+function ImagePreview({ attachment }: { attachment: Attachment }) {
+  const url = useImageUrl(attachment.storageId, PREVIEW_SIZE)
+
+  return url ? (
+    <img
+      src={url}
+      alt=""
+      className="h-8 w-8 shrink-0 rounded object-cover"
+      width={PREVIEW_SIZE}
+      height={PREVIEW_SIZE}
+    />
+  ) : (
+    <div className="h-8 w-8 shrink-0 rounded bg-muted" />
+  )
+}
+
+/**
+ * A single attachment with a download link and a remove button.
+ */
+function AttachmentItem({ attachment }: { attachment: Attachment }) {
+  const detach = useMutation(api.attachments.detach)
+
+  return (
+    <li className="group flex items-center gap-2 rounded-lg border px-3 py-2 text-sm">
+      {attachment.contentType.startsWith("image/") ? (
+        <ImagePreview attachment={attachment} />
+      ) : (
+        <Paperclip className="h-4 w-4 shrink-0 text-muted-foreground" />
+      )}
+      {attachment.url ? (
+        <a
+          href={attachment.url}
+          download={attachment.filename}
+          target="_blank"
+          rel="noreferrer"
+          className="truncate hover:underline"
+        >
+          {attachment.filename}
+        </a>
+      ) : (
+        <span className="truncate">{attachment.filename}</span>
+      )}
+      <span className="shrink-0 text-xs text-muted-foreground">{formatBytes(attachment.size)}</span>
+      <div className="flex-1" />
+      <ShareLinksPopover storageId={attachment.storageId} filename={attachment.filename} />
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 opacity-0 group-hover:opacity-100"
+        aria-label={`Remove ${attachment.filename}`}
+        onClick={() =>
+          detach({ id: attachment._id }).catch((error) =>
+            toast.error(error instanceof Error ? error.message : "Could not remove attachment"),
+          )
+        }
+      >
+        <Trash2 className="h-3.5 w-3.5" />
+      </Button>
+    </li>
+  )
+}
+
+export type AttachmentAreaProps = {
+  taskId: Id<"tasks">
+}
+
+/**
+ * AttachmentArea - A task's files, with a drop zone for adding more
+ *
+ * Files can be dropped onto the zone or picked with the file dialog.
+ */
+export function AttachmentArea({ taskId }: AttachmentAreaProps) {
+  const attachments = useQuery(api.attachments.list, { taskId })
+  const attach = useMutation(api.attachments.attach)
+
+  return (
+    <div className="space-y-3">
+      {attachments === undefined ? (
+        <p className="text-sm text-muted-foreground">Loading attachments...</p>
+      ) : (
+        attachments.length > 0 && (
+          <ul className="space-y-2">
+            {attachments.map((attachment) => (
+              <AttachmentItem key={attachment._id} attachment={attachment} />
+            ))}
+          </ul>
+        )
+      )}
+      <FileUpload
+        purpose="attachment"
+        maxSize={UPLOAD_MAX_SIZE.attachment}
+        onUploaded={async (storageId, file) => {
+          await attach({
+            taskId,
+            storageId,
+            filename: file.name.slice(0, ATTACHMENT_FILENAME_MAX_LENGTH),
+          })
+        }}
+      />
+    </div>
+  )
+}
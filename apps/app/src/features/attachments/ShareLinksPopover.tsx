@@ -0,0 +1,170 @@
+import { api } from "convex/_generated/api"
+import type { Id } from "convex/_generated/dataModel"
+import { useMutation, useQuery } from "convex/react"
+import { Copy, Link2, Trash2 } from "lucide-react"
+import { useState } from "react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { formatDateTime } from "@/lib/datetime"
+import { SHARE_LINK_EXPIRY_DAYS } from "./constants"
+
+async function copyToClipboard(url: string) {
+  await navigator.clipboard.writeText(url)
+  toast.success("Link copied")
+}
+
+/**
+ * The share links of a file, fetched only while the popover is open.
+ */
+function ShareLinkList({ storageId }: { storageId: Id<"_storage"> }) {
+  const links = useQuery(api.shareLinks.list, { storageId })
+  const revoke = useMutation(api.shareLinks.revoke)
+
+  if (links === undefined) {
+    return <p className="text-sm text-muted-foreground">Loading links...</p>
+  }
+  if (links.length === 0) {
+    return <p className="text-sm text-muted-foreground">No links yet.</p>
+  }
+
+  return (
+    <ul className="space-y-2">
+      {links.map((link) => {
+        const expired =
+          link.expiresAt <= Date.now() ||
+          (link.maxDownloads !== undefined && link.downloadCount >= link.maxDownloads)
+        return (
+          <li key={link._id} className="flex items-center gap-2 text-sm">
+            <div className="min-w-0 flex-1">
+              <p className={expired ? "text-muted-foreground line-through" : undefined}>
+                Expires {formatDateTime(link.expiresAt)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {link.downloadCount}
+                {link.maxDownloads !== undefined && ` of ${link.maxDownloads}`} download
+                {link.downloadCount === 1 && link.maxDownloads === undefined ? "" : "s"}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              aria-label="Copy link"
+              disabled={expired}
+              onClick={() => copyToClipboard(link.url)}
+            >
+              <Copy className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              aria-label="Revoke link"
+              onClick={() => revoke({ id: link._id })}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export type ShareLinksPopoverProps = {
+  storageId: Id<"_storage">
+  filename: string
+}
+
+/**
+ * ShareLinksPopover - Create, copy and revoke public download links for a
+ * file, for sharing it with people who don't have an account
+ */
+export function ShareLinksPopover({ storageId, filename }: ShareLinksPopoverProps) {
+  const createLink = useMutation(api.shareLinks.create)
+  const [open, setOpen] = useState(false)
+  const [expiresInDays, setExpiresInDays] = useState(String(SHARE_LINK_EXPIRY_DAYS[1]))
+  const [maxDownloads, setMaxDownloads] = useState("")
+  const [isCreating, setIsCreating] = useState(false)
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsCreating(true)
+    try {
+      const link = await createLink({
+        storageId,
+        expiresInDays: Number(expiresInDays),
+        maxDownloads: maxDownloads ? Number(maxDownloads) : undefined,
+      })
+      setMaxDownloads("")
+      await copyToClipboard(link.url)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not create link")
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+          aria-label={`Share ${filename}`}
+        >
+          <Link2 className="h-3.5 w-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4" align="end">
+        <form onSubmit={handleCreate} className="space-y-3">
+          <p className="text-sm font-medium">Share a download link</p>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor={`share-${storageId}-expiry`}>Expires after</Label>
+              <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                <SelectTrigger id={`share-${storageId}-expiry`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHARE_LINK_EXPIRY_DAYS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      {days === 1 ? "1 day" : `${days} days`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`share-${storageId}-limit`}>Download limit</Label>
+              <Input
+                id={`share-${storageId}-limit`}
+                type="number"
+                min={1}
+                step={1}
+                placeholder="None"
+                value={maxDownloads}
+                onChange={(e) => setMaxDownloads(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button type="submit" size="sm" className="w-full" disabled={isCreating}>
+            {isCreating ? "Creating..." : "Create and copy link"}
+          </Button>
+        </form>
+        {open && <ShareLinkList storageId={storageId} />}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,8 @@
+/** Mirrors MAX_FILENAME_LENGTH in convex/attachments.ts */
+export const ATTACHMENT_FILENAME_MAX_LENGTH = 255
+
+/**
+ * Expiry choices offered for share links, in days. The longest mirrors
+ * MAX_SHARE_LINK_DAYS in convex/lib/shareLinks.ts
+ */
+export const SHARE_LINK_EXPIRY_DAYS = [1, 7, 30]
@@ -0,0 +1,3 @@
+export { AttachmentArea, type AttachmentAreaProps } from "./AttachmentArea"
+export { ATTACHMENT_FILENAME_MAX_LENGTH, SHARE_LINK_EXPIRY_DAYS } from "./constants"
+export { ShareLinksPopover, type ShareLinksPopoverProps } from "./ShareLinksPopover"
@@ -0,0 +1,159 @@
+import { api } from "convex/_generated/api"
+import type { Id } from "convex/_generated/dataModel"
+import { useMutation, useQuery } from "convex/react"
+import type { FunctionReturnType } from "convex/server"
+import { Pencil, Trash2 } from "lucide-react"
+import { useState } from "react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { formatDateTime } from "@/lib/datetime"
+import { COMMENT_MAX_LENGTH } from "./constants"
+
+type Comment = FunctionReturnType<typeof api.comments.list>[number]
+
+/**
+ * Textarea with a submit button; Ctrl/Cmd+Enter submits too.
+ */
+function CommentForm({
+  initialBody = "",
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initialBody?: string
+  submitLabel: string
+  onSubmit: (body: string) => Promise<void>
+  onCancel?: () => void
+}) {
+  const [body, setBody] = useState(initialBody)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault()
+    if (!body.trim()) return
+
+    setIsSaving(true)
+    try {
+      await onSubmit(body)
+      setBody("")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not save comment")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) handleSubmit()
+          if (e.key === "Escape") onCancel?.()
+        }}
+        maxLength={COMMENT_MAX_LENGTH}
+        placeholder="Write a comment..."
+        autoFocus={onCancel !== undefined}
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" size="sm" disabled={isSaving || !body.trim()}>
+          {isSaving ? "Saving..." : submitLabel}
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+/**
+ * A single comment; its author can edit or delete it.
+ */
+function CommentItem({ comment }: { comment: Comment }) {
+  const editComment = useMutation(api.comments.edit)
+  const removeComment = useMutation(api.comments.remove)
+  const [editing, setEditing] = useState(false)
+
+  return (
+    <div className="group space-y-1 rounded-lg border p-3">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="font-medium">{comment.authorName}</span>
+        <span className="text-xs text-muted-foreground">
+          {formatDateTime(comment.createdAt)}
+          {comment.editedAt !== undefined && " (edited)"}
+        </span>
+        <div className="flex-1" />
+        {comment.canEdit && !editing && (
+          <div className="flex opacity-0 group-hover:opacity-100">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              aria-label="Edit comment"
+              onClick={() => setEditing(true)}
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              aria-label="Delete comment"
+              onClick={() => removeComment({ id: comment._id })}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        )}
+      </div>
+      {editing ? (
+        <CommentForm
+          initialBody={comment.body}
+          submitLabel="Save"
+          onSubmit={async (body) => {
+            await editComment({ id: comment._id, body })
+            setEditing(false)
+          }}
+          onCancel={() => setEditing(false)}
+        />
+      ) : (
+        <p className="whitespace-pre-wrap break-words text-sm">{comment.body}</p>
+      )}
+    </div>
+  )
+}
+
+export type CommentThreadProps = {
+  taskId: Id<"tasks">
+}
+
+/**
+ * CommentThread - Live-updating discussion on a task
+ */
+export function CommentThread({ taskId }: CommentThreadProps) {
+  const comments = useQuery(api.comments.list, { taskId })
+  const addComment = useMutation(api.comments.add)
+
+  return (
+    <div className="space-y-3">
+      {comments === undefined ? (
+        <p className="text-sm text-muted-foreground">Loading comments...</p>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No comments yet.</p>
+      ) : (
+        comments.map((comment) => <CommentItem key={comment._id} comment={comment} />)
+      )}
+      <CommentForm
+        submitLabel="Comment"
+        onSubmit={async (body) => {
+          await addComment({ taskId, body })
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,2 @@
+/** Mirrors MAX_COMMENT_LENGTH in convex/comments.ts */
+export const COMMENT_MAX_LENGTH = 5000
@@ -0,0 +1,2 @@
+export { CommentThread, type CommentThreadProps } from "./CommentThread"
+export { COMMENT_MAX_LENGTH } from "./constants"
@@ -0,0 +1,24 @@
+import type { Doc } from "convex/_generated/dataModel"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+
+export type LabelBadgeProps = {
+  label: Pick<Doc<"labels">, "name" | "color">
+  className?: string
+}
+
+/**
+ * LabelBadge - A label chip tinted with the label's colour
+ */
+export function LabelBadge({ label, className }: LabelBadgeProps) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn("shrink-0 gap-1.5", className)}
+      style={{ borderColor: label.color, backgroundColor: `${label.color}1a` }}
+    >
+      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: label.color }} />
+      {label.name}
+    </Badge>
+  )
+}
@@ -0,0 +1,95 @@
+import { api } from "convex/_generated/api"
+import type { Id } from "convex/_generated/dataModel"
+import { useQuery } from "convex/react"
+import { Check, Tag } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { cn } from "@/lib/utils"
+
+export type LabelMatch = "any" | "all"
+
+export type LabelFilterProps = {
+  value: Id<"labels">[]
+  onValueChange: (value: Id<"labels">[]) => void
+  match: LabelMatch
+  onMatchChange: (match: LabelMatch) => void
+}
+
+/**
+ * LabelFilter - Choose labels to filter the task list by, matching tasks
+ * with any or all of them
+ */
+export function LabelFilter({ value, onValueChange, match, onMatchChange }: LabelFilterProps) {
+  const labels = useQuery(api.labels.list)
+  const selected = new Set(value)
+
+  const toggle = (labelId: Id<"labels">) =>
+    onValueChange(
+      selected.has(labelId) ? value.filter((id) => id !== labelId) : [...value, labelId],
+    )
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Tag className="h-4 w-4" />
+          Labels
+          {value.length > 0 && (
+            <Badge variant="secondary" className="px-1.5">
+              {value.length}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-60 p-0" align="end">
+        <div className="p-2">
+          <Tabs value={match} onValueChange={(next) => onMatchChange(next as LabelMatch)}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="any">Any</TabsTrigger>
+              <TabsTrigger value="all">All</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+        <Command>
+          <CommandInput placeholder="Find a label..." />
+          <CommandList>
+            <CommandEmpty>{labels === undefined ? "Loading..." : "No labels found."}</CommandEmpty>
+            <CommandGroup>
+              {labels?.map((label) => (
+                <CommandItem key={label._id} value={label.name} onSelect={() => toggle(label._id)}>
+                  <Check className={cn("mr-2 h-4 w-4", !selected.has(label._id) && "invisible")} />
+                  <span
+                    className="mr-2 h-2.5 w-2.5 rounded-full"
+                    style={{ backgroundColor: label.color }}
+                  />
+                  {label.name}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+            {value.length > 0 && (
+              <>
+                <CommandSeparator />
+                <CommandGroup>
+                  <CommandItem onSelect={() => onValueChange([])} className="justify-center">
+                    Clear filter
+                  </CommandItem>
+                </CommandGroup>
+              </>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
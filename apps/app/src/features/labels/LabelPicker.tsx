@@ -0,0 +1,94 @@
+import { api } from "convex/_generated/api"
+import type { Doc, Id } from "convex/_generated/dataModel"
+import { useMutation, useQuery } from "convex/react"
+import { Check, Plus, Tag } from "lucide-react"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { cn } from "@/lib/utils"
+import { LABEL_NAME_MAX_LENGTH } from "./constants"
+
+export type LabelPickerProps = {
+  taskId: Id<"tasks">
+  /** Labels currently attached to the task */
+  labels: Doc<"labels">[]
+}
+
+/**
+ * LabelPicker - Popover for attaching and detaching a task's labels
+ *
+ * Typing a name that doesn't exist yet offers to create the label and
+ * attach it in one step.
+ */
+export function LabelPicker({ taskId, labels }: LabelPickerProps) {
+  const allLabels = useQuery(api.labels.list)
+  const createLabel = useMutation(api.labels.create)
+  const attach = useMutation(api.labels.attach)
+  const detach = useMutation(api.labels.detach)
+  const [search, setSearch] = useState("")
+
+  const attached = new Set(labels.map((label) => label._id))
+  const name = search.trim()
+  const canCreate =
+    name.length > 0 && !allLabels?.some((label) => label.name.toLowerCase() === name.toLowerCase())
+
+  const toggle = (labelId: Id<"labels">) =>
+    attached.has(labelId) ? detach({ taskId, labelId }) : attach({ taskId, labelId })
+
+  const handleCreate = async () => {
+    const labelId = await createLabel({ name })
+    await attach({ taskId, labelId })
+    setSearch("")
+  }
+
+  return (
+    <Popover onOpenChange={(open) => !open && setSearch("")}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Edit labels">
+          <Tag className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-60 p-0" align="end">
+        <Command>
+          <CommandInput
+            placeholder="Find or create a label..."
+            value={search}
+            onValueChange={setSearch}
+            maxLength={LABEL_NAME_MAX_LENGTH}
+          />
+          <CommandList>
+            <CommandEmpty>
+              {allLabels === undefined ? "Loading..." : "No labels found."}
+            </CommandEmpty>
+            <CommandGroup>
+              {allLabels?.map((label) => (
+                <CommandItem key={label._id} value={label.name} onSelect={() => toggle(label._id)}>
+                  <Check className={cn("mr-2 h-4 w-4", !attached.has(label._id) && "invisible")} />
+                  <span
+                    className="mr-2 h-2.5 w-2.5 rounded-full"
+                    style={{ backgroundColor: label.color }}
+                  />
+                  {label.name}
+                </CommandItem>
+              ))}
+              {canCreate && (
+                <CommandItem value={`create ${name}`} onSelect={handleCreate}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create "{name}"
+                </CommandItem>
+              )}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
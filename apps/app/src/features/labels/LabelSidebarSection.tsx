@@ -0,0 +1,104 @@
+import { api } from "convex/_generated/api"
+import type { Doc } from "convex/_generated/dataModel"
+import { useMutation, useQuery } from "convex/react"
+import { Plus, Trash2 } from "lucide-react"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { EditableText } from "@/components/ui/editable-text"
+import { Input } from "@/components/ui/input"
+import { DEFAULT_LABEL_COLOR, LABEL_NAME_MAX_LENGTH } from "./constants"
+
+/**
+ * A label with inline rename, a colour swatch to recolour it and a delete
+ * button.
+ */
+function LabelRow({ label }: { label: Doc<"labels"> }) {
+  const updateLabel = useMutation(api.labels.update)
+  const removeLabel = useMutation(api.labels.remove)
+
+  return (
+    <div className="group flex items-center gap-2 px-2">
+      <input
+        type="color"
+        aria-label={`Colour of ${label.name}`}
+        value={label.color}
+        onChange={(e) => updateLabel({ id: label._id, color: e.target.value })}
+        className="h-4 w-4 shrink-0 cursor-pointer rounded-full border-0 bg-transparent p-0"
+      />
+      <EditableText
+        value={label.name}
+        onSave={async (name) => {
+          await updateLabel({ id: label._id, name })
+        }}
+        maxLength={LABEL_NAME_MAX_LENGTH}
+        showEditIcon={false}
+        className="flex-1 truncate text-sm"
+      />
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 opacity-0 group-hover:opacity-100"
+        aria-label={`Delete ${label.name}`}
+        onClick={() => removeLabel({ id: label._id })}
+      >
+        <Trash2 className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * LabelSidebarSection - Lists the user's labels for renaming, recolouring
+ * and deleting. Deleting a label removes it from every task.
+ */
+export function LabelSidebarSection() {
+  const labels = useQuery(api.labels.list)
+  const createLabel = useMutation(api.labels.create)
+  const [creating, setCreating] = useState(false)
+  const [name, setName] = useState("")
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    await createLabel({ name, color: DEFAULT_LABEL_COLOR })
+    setName("")
+    setCreating(false)
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between px-2">
+        <span className="text-xs font-semibold uppercase text-muted-foreground">Labels</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          aria-label="New label"
+          onClick={() => setCreating(true)}
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      {labels?.map((label) => (
+        <LabelRow key={label._id} label={label} />
+      ))}
+      {creating && (
+        <form onSubmit={handleSubmit} className="px-2">
+          <Input
+            autoFocus
+            placeholder="Label name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Escape" && setCreating(false)}
+            maxLength={LABEL_NAME_MAX_LENGTH}
+            className="h-8"
+          />
+        </form>
+      )}
+      {labels !== undefined && labels.length === 0 && !creating && (
+        <p className="px-2 text-sm text-muted-foreground">No labels yet.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,5 @@
+/** Mirrors MAX_LABEL_NAME_LENGTH in convex/labels.ts */
+export const LABEL_NAME_MAX_LENGTH = 40
+
+/** Colour preselected for new labels */
+export const DEFAULT_LABEL_COLOR = "#64748b"
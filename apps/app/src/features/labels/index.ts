@@ -0,0 +1,5 @@
+export { DEFAULT_LABEL_COLOR, LABEL_NAME_MAX_LENGTH } from "./constants"
+export { LabelBadge, type LabelBadgeProps } from "./LabelBadge"
+export { LabelFilter, type LabelFilterProps, type LabelMatch } from "./LabelFilter"
+export { LabelPicker, type LabelPickerProps } from "./LabelPicker"
+export { LabelSidebarSection } from "./LabelSidebarSection"
@@ -0,0 +1,83 @@
+import { api } from "convex/_generated/api"
+import { useMutation, useQuery } from "convex/react"
+import { Bell } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { formatDateTime } from "@/lib/datetime"
+import { cn } from "@/lib/utils"
+
+/**
+ * NotificationsMenu - Bell icon with an unread count and a dropdown
+ * listing recent in-app notifications (e.g. task reminders).
+ */
+export function NotificationsMenu() {
+  const notifications = useQuery(api.notifications.list)
+  const unreadCount = useQuery(api.notifications.unreadCount) ?? 0
+  const markRead = useMutation(api.notifications.markRead)
+  const markAllRead = useMutation(api.notifications.markAllRead)
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold text-destructive-foreground">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => markAllRead()}
+            >
+              Mark all read
+            </Button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications === undefined ? (
+          <p className="px-2 py-4 text-center text-sm text-muted-foreground">Loading...</p>
+        ) : notifications.length === 0 ? (
+          <p className="px-2 py-4 text-center text-sm text-muted-foreground">
+            No notifications yet.
+          </p>
+        ) : (
+          notifications.map((notification) => (
+            <DropdownMenuItem
+              key={notification._id}
+              className="flex cursor-pointer flex-col items-start gap-0.5"
+              onClick={() => {
+                if (!notification.read) markRead({ id: notification._id })
+              }}
+            >
+              <span className={cn("text-sm", !notification.read && "font-semibold")}>
+                {notification.title}
+              </span>
+              {notification.body && (
+                <span className="text-xs text-muted-foreground">{notification.body}</span>
+              )}
+              <span className="text-xs text-muted-foreground">
+                {formatDateTime(notification.createdAt)}
+              </span>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1 @@
+export { NotificationsMenu } from "./NotificationsMenu"
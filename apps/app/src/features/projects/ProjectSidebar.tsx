@@ -0,0 +1,183 @@
+import { api } from "convex/_generated/api"
+import type { Doc } from "convex/_generated/dataModel"
+import { useMutation, useQuery } from "convex/react"
+import { Archive, ArchiveRestore, Inbox, MoreHorizontal, Plus, Trash, Trash2 } from "lucide-react"
+import { useState } from "react"
+import { NavLink, useNavigate, useParams } from "react-router-dom"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import { DEFAULT_PROJECT_COLOR, PROJECT_NAME_MAX_LENGTH } from "./constants"
+
+const linkClassName = ({ isActive }: { isActive: boolean }) =>
+  cn(
+    "flex flex-1 items-center gap-2 truncate rounded-md px-2 py-1.5 text-sm hover:bg-accent",
+    isActive && "bg-accent font-medium",
+  )
+
+/**
+ * Inline form for creating a project with a name and colour.
+ */
+function NewProjectForm({ onDone }: { onDone: () => void }) {
+  const createProject = useMutation(api.projects.create)
+  const navigate = useNavigate()
+  const [name, setName] = useState("")
+  const [color, setColor] = useState(DEFAULT_PROJECT_COLOR)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    const projectId = await createProject({ name, color })
+    setName("")
+    onDone()
+    navigate(`/projects/${projectId}`)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-2 px-2">
+      <input
+        type="color"
+        aria-label="Project colour"
+        value={color}
+        onChange={(e) => setColor(e.target.value)}
+        className="h-6 w-6 shrink-0 cursor-pointer rounded border-0 bg-transparent p-0"
+      />
+      <Input
+        autoFocus
+        placeholder="Project name"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => e.key === "Escape" && onDone()}
+        maxLength={PROJECT_NAME_MAX_LENGTH}
+        className="h-8"
+      />
+    </form>
+  )
+}
+
+/**
+ * A project link with a menu to archive, unarchive or delete the project.
+ */
+function ProjectRow({ project }: { project: Doc<"projects"> }) {
+  const updateProject = useMutation(api.projects.update)
+  const removeProject = useMutation(api.projects.remove)
+  const { projectId } = useParams()
+  const navigate = useNavigate()
+
+  const handleDelete = async () => {
+    await removeProject({ id: project._id })
+    if (projectId === project._id) {
+      navigate("/")
+    }
+  }
+
+  return (
+    <div className="group flex items-center">
+      <NavLink to={`/projects/${project._id}`} className={linkClassName}>
+        <span
+          className="h-2.5 w-2.5 shrink-0 rounded-full"
+          style={{ backgroundColor: project.color }}
+        />
+        <span className="truncate">{project.name}</span>
+      </NavLink>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+            aria-label={`Options for ${project.name}`}
+          >
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem
+            onClick={() => updateProject({ id: project._id, archived: !project.archived })}
+          >
+            {project.archived ? (
+              <ArchiveRestore className="mr-2 h-4 w-4" />
+            ) : (
+              <Archive className="mr-2 h-4 w-4" />
+            )}
+            {project.archived ? "Unarchive" : "Archive"}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={handleDelete}
+            className="text-destructive focus:text-destructive"
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  )
+}
+
+/**
+ * ProjectSidebar - Navigation between all tasks and individual projects
+ *
+ * Deleting a project keeps its tasks; they move back to the main list.
+ */
+export function ProjectSidebar() {
+  const projects = useQuery(api.projects.list, { includeArchived: true })
+  const [creating, setCreating] = useState(false)
+
+  const active = projects?.filter((project) => !project.archived) ?? []
+  const archived = projects?.filter((project) => project.archived) ?? []
+
+  return (
+    <nav className="space-y-4" aria-label="Projects">
+      <NavLink to="/" end className={linkClassName}>
+        <Inbox className="h-4 w-4" />
+        All tasks
+      </NavLink>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between px-2">
+          <span className="text-xs font-semibold uppercase text-muted-foreground">Projects</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            aria-label="New project"
+            onClick={() => setCreating(true)}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+        {active.map((project) => (
+          <ProjectRow key={project._id} project={project} />
+        ))}
+        {creating && <NewProjectForm onDone={() => setCreating(false)} />}
+        {projects !== undefined && active.length === 0 && !creating && (
+          <p className="px-2 text-sm text-muted-foreground">No projects yet.</p>
+        )}
+      </div>
+
+      {archived.length > 0 && (
+        <div className="space-y-1">
+          <span className="px-2 text-xs font-semibold uppercase text-muted-foreground">
+            Archived
+          </span>
+          {archived.map((project) => (
+            <ProjectRow key={project._id} project={project} />
+          ))}
+        </div>
+      )}
+
+      <NavLink to="/trash" className={linkClassName}>
+        <Trash className="h-4 w-4" />
+        Trash
+      </NavLink>
+    </nav>
+  )
+}
@@ -0,0 +1,5 @@
+/** Mirrors MAX_PROJECT_NAME_LENGTH in convex/projects.ts */
+export const PROJECT_NAME_MAX_LENGTH = 80
+
+/** Colour preselected for new projects */
+export const DEFAULT_PROJECT_COLOR = "#3b82f6"
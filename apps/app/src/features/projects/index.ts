@@ -0,0 +1,2 @@
+export { DEFAULT_PROJECT_COLOR, PROJECT_NAME_MAX_LENGTH } from "./constants"
+export { ProjectSidebar } from "./ProjectSidebar"
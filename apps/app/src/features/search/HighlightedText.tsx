@@ -0,0 +1,28 @@
+import { splitHighlights } from "@/lib/highlight"
+
+export type HighlightedTextProps = {
+  text: string
+  query: string
+}
+
+/**
+ * HighlightedText - Renders text with the query's terms marked
+ */
+export function HighlightedText({ text, query }: HighlightedTextProps) {
+  return (
+    <>
+      {splitHighlights(text, query).map((part) =>
+        part.match ? (
+          <mark
+            key={part.start}
+            className="rounded-sm bg-yellow-200 text-foreground dark:bg-yellow-500/40"
+          >
+            {part.text}
+          </mark>
+        ) : (
+          <span key={part.start}>{part.text}</span>
+        ),
+      )}
+    </>
+  )
+}
@@ -0,0 +1,110 @@
+import { api } from "convex/_generated/api"
+import type { Id } from "convex/_generated/dataModel"
+import { useQuery } from "convex/react"
+import { CheckCircle2, Circle } from "lucide-react"
+import { useRef, useState } from "react"
+import { useNavigate } from "react-router-dom"
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command"
+import { Popover, PopoverAnchor, PopoverContent } from "@/components/ui/popover"
+import { useDebouncedValue } from "@/hooks/useDebouncedValue"
+import { excerptAround } from "@/lib/highlight"
+import { HighlightedText } from "./HighlightedText"
+
+/** Wait this long after the last keystroke before searching */
+const SEARCH_DEBOUNCE_MS = 150
+
+/**
+ * TaskSearch - Search box for the header
+ *
+ * Shows matching tasks from `tasks.search` as you type, with the search
+ * terms highlighted. Picking a result opens the task's page.
+ */
+export function TaskSearch() {
+  const navigate = useNavigate()
+  const anchorRef = useRef<HTMLDivElement>(null)
+  const [text, setText] = useState("")
+  const [open, setOpen] = useState(false)
+  const query = useDebouncedValue(text.trim(), SEARCH_DEBOUNCE_MS)
+  const results = useQuery(api.tasks.search, query ? { query } : "skip")
+
+  const handleSelect = (taskId: Id<"tasks">) => {
+    setOpen(false)
+    setText("")
+    navigate(`/tasks/${taskId}`)
+  }
+
+  return (
+    <Command shouldFilter={false} className="w-full max-w-sm overflow-visible bg-transparent">
+      <Popover open={open && text.trim() !== ""} onOpenChange={setOpen}>
+        <PopoverAnchor asChild>
+          <div ref={anchorRef} className="rounded-md border">
+            <CommandInput
+              placeholder="Search tasks..."
+              value={text}
+              onValueChange={(value) => {
+                setText(value)
+                setOpen(true)
+              }}
+              onFocus={() => setOpen(true)}
+              onKeyDown={(e) => e.key === "Escape" && setOpen(false)}
+              className="h-9"
+            />
+          </div>
+        </PopoverAnchor>
+        <PopoverContent
+          align="start"
+          className="w-[var(--radix-popover-trigger-width)] p-0"
+          onOpenAutoFocus={(e) => e.preventDefault()}
+          onInteractOutside={(e) => {
+            // Clicking back into the search box shouldn't close the results
+            if (anchorRef.current?.contains(e.target as Node)) e.preventDefault()
+          }}
+        >
+          <CommandList>
+            <CommandEmpty>
+              {results === undefined || query !== text.trim() ? "Searching..." : "No tasks found."}
+            </CommandEmpty>
+            {results && results.length > 0 && (
+              <CommandGroup heading="Tasks">
+                {results.map((task) => (
+                  <CommandItem
+                    key={task._id}
+                    value={task._id}
+                    onSelect={() => handleSelect(task._id)}
+                    className="items-start gap-2"
+                  >
+                    {task.completed ? (
+                      <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                    ) : (
+                      <Circle className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm">
+                        <HighlightedText text={task.title} query={query} />
+                      </p>
+                      {task.description && (
+                        <p className="line-clamp-2 text-xs text-muted-foreground">
+                          <HighlightedText
+                            text={excerptAround(task.description, query)}
+                            query={query}
+                          />
+                        </p>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </PopoverContent>
+      </Popover>
+    </Command>
+  )
+}
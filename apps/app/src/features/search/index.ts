@@ -0,0 +1,2 @@
+export { HighlightedText, type HighlightedTextProps } from "./HighlightedText"
+export { TaskSearch } from "./TaskSearch"
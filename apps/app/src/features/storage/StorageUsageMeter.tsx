@@ -0,0 +1,36 @@
+import { api } from "convex/_generated/api"
+import { useQuery } from "convex/react"
+import { Progress } from "@/components/ui/progress"
+import { formatBytes } from "@/lib/format"
+import { cn } from "@/lib/utils"
+
+/**
+ * StorageUsageMeter - How much of their storage quota the user has filled
+ */
+export function StorageUsageMeter() {
+  const usage = useQuery(api.storage.usage)
+
+  if (usage === undefined) {
+    return <p className="text-sm text-muted-foreground">Loading storage usage...</p>
+  }
+
+  const percent = Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100)
+
+  return (
+    <div className="space-y-2">
+      <Progress
+        value={percent}
+        aria-label="Storage used"
+        className={cn(percent >= 90 && "[&>div]:bg-destructive")}
+      />
+      <div className="flex justify-between text-sm text-muted-foreground">
+        <span>
+          {formatBytes(usage.usedBytes)} of {formatBytes(usage.quotaBytes)} used
+        </span>
+        <span>
+          {usage.fileCount} file{usage.fileCount === 1 ? "" : "s"}
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,5 @@
+/** Mirrors the maxSize of UPLOAD_RULES in convex/lib/uploads.ts */
+export const UPLOAD_MAX_SIZE = {
+  attachment: 25 * 1024 * 1024,
+  image: 5 * 1024 * 1024,
+}
@@ -0,0 +1,2 @@
+export { UPLOAD_MAX_SIZE } from "./constants"
+export { StorageUsageMeter } from "./StorageUsageMeter"
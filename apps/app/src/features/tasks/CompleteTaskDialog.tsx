@@ -0,0 +1,85 @@
+import { api } from "convex/_generated/api"
+import type { Id } from "convex/_generated/dataModel"
+import { useMutation } from "convex/react"
+import { toast } from "sonner"
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Button } from "@/components/ui/button"
+
+type SubtaskNode = { completed: boolean; subtasks: SubtaskNode[] }
+
+/** Count the subtasks below a node that aren't completed, at any depth */
+export function countOpenSubtasks(node: SubtaskNode): number {
+  return node.subtasks.reduce(
+    (total, child) => total + (child.completed ? 0 : 1) + countOpenSubtasks(child),
+    0,
+  )
+}
+
+/** A task being completed while it still has open subtasks */
+export type CompletingTask = {
+  id: Id<"tasks">
+  title: string
+  openSubtaskCount: number
+}
+
+export type CompleteTaskDialogProps = {
+  /** The task to complete; the dialog is open while this is set */
+  task: CompletingTask | null
+  onClose: () => void
+}
+
+/**
+ * CompleteTaskDialog - Asks whether completing a task should also complete
+ * its open subtasks, or only the task itself
+ */
+export function CompleteTaskDialog({ task, onClose }: CompleteTaskDialogProps) {
+  const toggleTask = useMutation(api.tasks.toggle)
+
+  const complete = async (includeSubtasks: boolean) => {
+    if (!task) return
+    onClose()
+    try {
+      await toggleTask({ id: task.id, includeSubtasks })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not complete task")
+    }
+  }
+
+  const count = task?.openSubtaskCount ?? 0
+
+  return (
+    <AlertDialog
+      open={task !== null}
+      onOpenChange={(open) => {
+        if (!open) onClose()
+      }}
+    >
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Complete Subtasks?</AlertDialogTitle>
+          <AlertDialogDescription>
+            <span className="font-medium text-foreground">&ldquo;{task?.title}&rdquo;</span> has{" "}
+            {count} open {count === 1 ? "subtask" : "subtasks"}. Complete{" "}
+            {count === 1 ? "it" : "them"} as well?
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={() => complete(false)}>
+            Only this task
+          </Button>
+          <Button onClick={() => complete(true)}>Complete all</Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -23,7 +23,37 @@ export type DeleteTaskDialogProps = {
    * Callback to request opening the dialog.
    * Returns the send function to trigger OPEN event.
    */
-  onOpenRequest?: (openDialog: (itemId: Id<"tasks">, itemTitle: string) => void) => void
+  onOpenRequest?: (
+    openDialog: (itemId: Id<"tasks">, itemTitle: string, subtaskCount?: number) => void,
+  ) => void
+}
+
+/**
+ * Confirmation text for deleting a task, mentioning subtasks that will be
+ * moved to the trash with it.
+ */
+export function DeleteTaskDescription({
+  itemTitle,
+  subtaskCount,
+}: {
+  itemTitle: string | null
+  subtaskCount: number
+}) {
+  return (
+    <AlertDialogDescription>
+      Move <span className="font-medium text-foreground">&ldquo;{itemTitle}&rdquo;</span>
+      {subtaskCount > 0 && (
+        <>
+          {" "}
+          and its{" "}
+          <span className="font-medium text-foreground">
+            {subtaskCount} {subtaskCount === 1 ? "subtask" : "subtasks"}
+          </span>
+        </>
+      )}{" "}
+      to the trash? You can restore it from the trash until it is permanently deleted.
+    </AlertDialogDescription>
+  )
 }
 
 /**
@@ -70,8 +100,8 @@ export function DeleteTaskDialog({ onOpenRequest }: DeleteTaskDialogProps) {
   )
 
   // Expose the open function to parent components
-  const openDialog = (itemId: Id<"tasks">, itemTitle: string) => {
-    send({ type: "OPEN", itemId, itemTitle })
+  const openDialog = (itemId: Id<"tasks">, itemTitle: string, subtaskCount?: number) => {
+    send({ type: "OPEN", itemId, itemTitle, subtaskCount })
   }
 
   // Call the onOpenRequest callback with our openDialog function
@@ -86,6 +116,7 @@ export function DeleteTaskDialog({ onOpenRequest }: DeleteTaskDialogProps) {
   const hasError = snapshot.matches({ open: "error" })
   const error = snapshot.context.error
   const itemTitle = snapshot.context.itemTitle
+  const subtaskCount = snapshot.context.subtaskCount
 
   return (
     <AlertDialog
@@ -99,11 +130,7 @@ export function DeleteTaskDialog({ onOpenRequest }: DeleteTaskDialogProps) {
       <AlertDialogContent>
         <AlertDialogHeader>
           <AlertDialogTitle>Delete Task</AlertDialogTitle>
-          <AlertDialogDescription>
-            Are you sure you want to delete{" "}
-            <span className="font-medium text-foreground">&ldquo;{itemTitle}&rdquo;</span>? This
-            action cannot be undone.
-          </AlertDialogDescription>
+          <DeleteTaskDescription itemTitle={itemTitle} subtaskCount={subtaskCount} />
         </AlertDialogHeader>
 
         {hasError && error && (
@@ -148,8 +175,8 @@ export function useDeleteTaskDialog() {
   return {
     snapshot,
     send,
-    openDialog: (itemId: Id<"tasks">, itemTitle: string) => {
-      send({ type: "OPEN", itemId, itemTitle })
+    openDialog: (itemId: Id<"tasks">, itemTitle: string, subtaskCount?: number) => {
+      send({ type: "OPEN", itemId, itemTitle, subtaskCount })
     },
     closeDialog: () => {
       send({ type: "CLOSE" })
@@ -162,6 +189,7 @@ export function useDeleteTaskDialog() {
     hasError: snapshot.matches({ open: "error" }),
     error: snapshot.context.error,
     itemTitle: snapshot.context.itemTitle,
+    subtaskCount: snapshot.context.subtaskCount,
   }
 }
 
@@ -170,8 +198,16 @@ export function useDeleteTaskDialog() {
  * This is a more self-contained version that exposes an imperative API.
  */
 export function DeleteTaskDialogWithHook() {
-  const { isOpen, isDeleting, hasError, error, itemTitle, closeDialog, confirmDelete } =
-    useDeleteTaskDialog()
+  const {
+    isOpen,
+    isDeleting,
+    hasError,
+    error,
+    itemTitle,
+    subtaskCount,
+    closeDialog,
+    confirmDelete,
+  } = useDeleteTaskDialog()
 
   return (
     <AlertDialog
@@ -185,11 +221,7 @@ export function DeleteTaskDialogWithHook() {
       <AlertDialogContent>
         <AlertDialogHeader>
           <AlertDialogTitle>Delete Task</AlertDialogTitle>
-          <AlertDialogDescription>
-            Are you sure you want to delete{" "}
-            <span className="font-medium text-foreground">&ldquo;{itemTitle}&rdquo;</span>? This
-            action cannot be undone.
-          </AlertDialogDescription>
+          <DeleteTaskDescription itemTitle={itemTitle} subtaskCount={subtaskCount} />
         </AlertDialogHeader>
 
         {hasError && error && (
@@ -0,0 +1,99 @@
+import {
+  closestCenter,
+  DndContext,
+  type DragEndEvent,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core"
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable"
+import { CSS } from "@dnd-kit/utilities"
+import { api } from "convex/_generated/api"
+import type { Id } from "convex/_generated/dataModel"
+import { useMutation } from "convex/react"
+import { useState } from "react"
+import { TaskItem, type TaskListItem } from "./TaskItem"
+
+export type SortableTaskListProps = {
+  tasks: TaskListItem[]
+  onDelete: (taskId: Id<"tasks">, taskTitle: string, subtaskCount?: number) => void
+}
+
+function SortableTaskItem({
+  task,
+  onDelete,
+}: Omit<SortableTaskListProps, "tasks"> & { task: TaskListItem }) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: task._id,
+  })
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={isDragging ? "relative z-10 opacity-80" : undefined}
+    >
+      <TaskItem task={task} onDelete={onDelete} dragHandleProps={{ ...attributes, ...listeners }} />
+    </div>
+  )
+}
+
+/**
+ * SortableTaskList - Task list with drag-and-drop reordering
+ *
+ * Tasks can be dragged by their handle with a pointer, or picked up with
+ * Space/Enter and moved with the arrow keys. The new position is sent to
+ * `tasks.move` as the task's new neighbour; the server computes the order key.
+ */
+export function SortableTaskList({ tasks, onDelete }: SortableTaskListProps) {
+  const moveTask = useMutation(api.tasks.move)
+
+  // Local order shown until the server sends the reordered list back
+  const [pending, setPending] = useState<{ base: TaskListItem[]; order: TaskListItem[] } | null>(
+    null,
+  )
+  const orderedTasks = pending?.base === tasks ? pending.order : tasks
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates }),
+  )
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return
+
+    const oldIndex = orderedTasks.findIndex((task) => task._id === active.id)
+    const newIndex = orderedTasks.findIndex((task) => task._id === over.id)
+    const reordered = arrayMove(orderedTasks, oldIndex, newIndex)
+    setPending({ base: tasks, order: reordered })
+
+    const id = active.id as Id<"tasks">
+    const move =
+      newIndex > 0
+        ? moveTask({ id, afterId: reordered[newIndex - 1]._id })
+        : moveTask({ id, beforeId: reordered[1]._id })
+    move.catch(() => setPending(null))
+  }
+
+  return (
+    <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+      <SortableContext
+        items={orderedTasks.map((task) => task._id)}
+        strategy={verticalListSortingStrategy}
+      >
+        <div className="space-y-2">
+          {orderedTasks.map((task) => (
+            <SortableTaskItem key={task._id} task={task} onDelete={onDelete} />
+          ))}
+        </div>
+      </SortableContext>
+    </DndContext>
+  )
+}
@@ -0,0 +1,153 @@
+import { api } from "convex/_generated/api"
+import type { Id } from "convex/_generated/dataModel"
+import { useMutation, useQuery } from "convex/react"
+import type { FunctionReturnType } from "convex/server"
+import { ChevronRight, Plus, Trash2 } from "lucide-react"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { EditableText } from "@/components/ui/editable-text"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import { CompleteTaskDialog, type CompletingTask, countOpenSubtasks } from "./CompleteTaskDialog"
+import { TASK_TITLE_MAX_LENGTH } from "./constants"
+
+type TaskTreeNode = FunctionReturnType<typeof api.tasks.tree>
+
+type OnDelete = (taskId: Id<"tasks">, taskTitle: string, subtaskCount?: number) => void
+
+/** Count every subtask below a node, at any depth */
+function countSubtasks(node: TaskTreeNode): number {
+  return node.subtasks.reduce((total, child) => total + 1 + countSubtasks(child), 0)
+}
+
+/**
+ * Inline form for adding a subtask below a parent task.
+ */
+function AddSubtaskForm({ parentId, onDone }: { parentId: Id<"tasks">; onDone?: () => void }) {
+  const createTask = useMutation(api.tasks.create)
+  const [title, setTitle] = useState("")
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!title.trim()) return
+
+    await createTask({ title, parentId })
+    setTitle("")
+    onDone?.()
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex gap-2">
+      <Input
+        type="text"
+        placeholder="Add a subtask..."
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        maxLength={TASK_TITLE_MAX_LENGTH}
+        className="h-8"
+      />
+      <Button type="submit" size="sm" variant="outline">
+        Add
+      </Button>
+    </form>
+  )
+}
+
+/**
+ * A subtask row. Rows with their own subtasks collapse to hide them.
+ */
+function SubtaskRow({ node, onDelete }: { node: TaskTreeNode; onDelete: OnDelete }) {
+  const toggleTask = useMutation(api.tasks.toggle)
+  const updateTask = useMutation(api.tasks.update)
+  const [open, setOpen] = useState(true)
+  const [adding, setAdding] = useState(false)
+  const [completing, setCompleting] = useState<CompletingTask | null>(null)
+  const hasSubtasks = node.subtasks.length > 0
+
+  const handleToggle = () => {
+    const openSubtaskCount = countOpenSubtasks(node)
+    if (!node.completed && openSubtaskCount > 0) {
+      setCompleting({ id: node._id, title: node.title, openSubtaskCount })
+    } else {
+      toggleTask({ id: node._id })
+    }
+  }
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <div className="flex items-center gap-2 py-1">
+        {hasSubtasks ? (
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-6 w-6" aria-label="Toggle subtasks">
+              <ChevronRight className={cn("h-4 w-4 transition-transform", open && "rotate-90")} />
+            </Button>
+          </CollapsibleTrigger>
+        ) : (
+          <span className="w-6" />
+        )}
+        <Checkbox checked={node.completed} onCheckedChange={handleToggle} />
+        <EditableText
+          value={node.title}
+          onSave={async (title) => {
+            await updateTask({ id: node._id, title })
+          }}
+          maxLength={TASK_TITLE_MAX_LENGTH}
+          variant="block"
+          className={cn("flex-1 text-sm", node.completed && "line-through text-muted-foreground")}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          aria-label="Add subtask"
+          onClick={() => {
+            setAdding(true)
+            setOpen(true)
+          }}
+        >
+          <Plus className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => onDelete(node._id, node.title, countSubtasks(node))}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+      <CollapsibleContent className="ml-3 space-y-1 border-l pl-3">
+        {node.subtasks.map((child) => (
+          <SubtaskRow key={child._id} node={child} onDelete={onDelete} />
+        ))}
+        {adding && <AddSubtaskForm parentId={node._id} onDone={() => setAdding(false)} />}
+      </CollapsibleContent>
+      <CompleteTaskDialog task={completing} onClose={() => setCompleting(null)} />
+    </Collapsible>
+  )
+}
+
+export type SubtaskListProps = {
+  parentId: Id<"tasks">
+  onDelete: OnDelete
+}
+
+/**
+ * SubtaskList - Nested subtasks of a task, loaded with `tasks.tree`
+ */
+export function SubtaskList({ parentId, onDelete }: SubtaskListProps) {
+  const tree = useQuery(api.tasks.tree, { id: parentId })
+
+  return (
+    <div className="space-y-1">
+      {tree === undefined ? (
+        <p className="text-sm text-muted-foreground">Loading subtasks...</p>
+      ) : (
+        tree.subtasks.map((node) => <SubtaskRow key={node._id} node={node} onDelete={onDelete} />)
+      )}
+      <AddSubtaskForm parentId={parentId} />
+    </div>
+  )
+}
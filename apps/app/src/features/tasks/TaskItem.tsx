@@ -0,0 +1,192 @@
+import { api } from "convex/_generated/api"
+import type { Id } from "convex/_generated/dataModel"
+import { useConvex, useMutation } from "convex/react"
+import type { FunctionReturnType } from "convex/server"
+import {
+  Bell,
+  ChevronDown,
+  GripVertical,
+  ListTree,
+  MessageSquare,
+  Repeat,
+  Trash2,
+} from "lucide-react"
+import { type HTMLAttributes, useEffect, useState } from "react"
+import { Link } from "react-router-dom"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { EditableText } from "@/components/ui/editable-text"
+import { Textarea } from "@/components/ui/textarea"
+import { LabelBadge, LabelPicker } from "@/features/labels"
+import { formatDateTime } from "@/lib/datetime"
+import { formatCount } from "@/lib/format"
+import { cn } from "@/lib/utils"
+import { CompleteTaskDialog, type CompletingTask, countOpenSubtasks } from "./CompleteTaskDialog"
+import { TASK_COUNT_MAX, TASK_DESCRIPTION_MAX_LENGTH, TASK_TITLE_MAX_LENGTH } from "./constants"
+import { SubtaskList } from "./SubtaskList"
+import { TaskProjectSelect } from "./TaskProjectSelect"
+import { TaskRecurrenceFields } from "./TaskRecurrenceFields"
+import { TaskScheduleFields } from "./TaskScheduleFields"
+
+/** A top-level task as returned by `tasks.list` */
+export type TaskListItem = FunctionReturnType<typeof api.tasks.list>["page"][number]
+
+export type TaskItemProps = {
+  task: TaskListItem
+  onDelete: (taskId: Id<"tasks">, taskTitle: string, subtaskCount?: number) => void
+  /** Props for the drag handle, supplied by SortableTaskList */
+  dragHandleProps?: HTMLAttributes<HTMLButtonElement>
+  /** Start with the details area open */
+  defaultExpanded?: boolean
+  /** Link to the task's own page from the details area */
+  showPageLink?: boolean
+}
+
+/**
+ * TaskItem - A single row in the task list
+ *
+ * The title is edited inline with EditableText and labels are shown as chips
+ * next to it. The description, due date, reminder, repeat rule, project and
+ * subtasks live in a collapsible area below the row. The description is
+ * saved when the textarea loses focus. Completing a task with open subtasks
+ * asks whether to complete them too, and completing a repeating task
+ * creates its next occurrence.
+ */
+export function TaskItem({
+  task,
+  onDelete,
+  dragHandleProps,
+  defaultExpanded = false,
+  showPageLink = true,
+}: TaskItemProps) {
+  const toggleTask = useMutation(api.tasks.toggle)
+  const updateTask = useMutation(api.tasks.update)
+  const convex = useConvex()
+
+  const [expanded, setExpanded] = useState(defaultExpanded)
+  const [completing, setCompleting] = useState<CompletingTask | null>(null)
+  const [description, setDescription] = useState(task.description ?? "")
+
+  // Keep the draft in sync with server updates from other tabs
+  useEffect(() => {
+    setDescription(task.description ?? "")
+  }, [task.description])
+
+  const saveDescription = async () => {
+    if (description.trim() === (task.description ?? "")) return
+    try {
+      await updateTask({ id: task._id, description })
+    } catch (error) {
+      setDescription(task.description ?? "") // Reset on error
+      toast.error(error instanceof Error ? error.message : "Could not save description")
+    }
+  }
+
+  const handleToggle = async () => {
+    if (!task.completed && task.subtaskCount > 0) {
+      try {
+        const tree = await convex.query(api.tasks.tree, { id: task._id })
+        const openSubtaskCount = countOpenSubtasks(tree)
+        if (openSubtaskCount > 0) {
+          setCompleting({ id: task._id, title: task.title, openSubtaskCount })
+          return
+        }
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Could not complete task")
+        return
+      }
+    }
+    await toggleTask({ id: task._id })
+  }
+
+  // Rows only count direct subtasks; the delete warning needs them all
+  const handleDelete = async () => {
+    const subtaskCount =
+      task.subtaskCount > 0
+        ? await convex
+            .query(api.tasks.subtaskCount, { id: task._id })
+            .catch(() => task.subtaskCount)
+        : 0
+    onDelete(task._id, task.title, subtaskCount)
+  }
+
+  return (
+    <Collapsible open={expanded} onOpenChange={setExpanded} className="rounded-lg border">
+      <div className="flex items-center gap-2 p-3">
+        {dragHandleProps && (
+          <button
+            type="button"
+            aria-label="Reorder task"
+            className="cursor-grab touch-none text-muted-foreground hover:text-foreground active:cursor-grabbing"
+            {...dragHandleProps}
+          >
+            <GripVertical className="h-4 w-4" />
+          </button>
+        )}
+        <Checkbox checked={task.completed} onCheckedChange={handleToggle} />
+        <EditableText
+          value={task.title}
+          onSave={async (title) => {
+            await updateTask({ id: task._id, title })
+          }}
+          maxLength={TASK_TITLE_MAX_LENGTH}
+          variant="block"
+          className={cn("flex-1", task.completed && "line-through text-muted-foreground")}
+        />
+        {task.labels.map((label) => (
+          <LabelBadge key={label._id} label={label} className="hidden sm:inline-flex" />
+        ))}
+        {task.dueAt !== undefined && (
+          <Badge
+            variant={!task.completed && task.dueAt < Date.now() ? "destructive" : "secondary"}
+            className="shrink-0"
+          >
+            {task.recurrence && <Repeat className="mr-1 h-3 w-3" />}
+            {task.remindAt !== undefined && <Bell className="mr-1 h-3 w-3" />}
+            {formatDateTime(task.dueAt)}
+          </Badge>
+        )}
+        {task.subtaskCount > 0 && (
+          <Badge variant="outline" className="shrink-0">
+            <ListTree className="mr-1 h-3 w-3" />
+            {formatCount(task.subtaskCount, TASK_COUNT_MAX)}
+          </Badge>
+        )}
+        <LabelPicker taskId={task._id} labels={task.labels} />
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="icon" aria-label="Toggle details">
+            <ChevronDown className={cn("h-4 w-4 transition-transform", expanded && "rotate-180")} />
+          </Button>
+        </CollapsibleTrigger>
+        <Button variant="ghost" size="icon" onClick={handleDelete}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      <CollapsibleContent className="space-y-3 px-3 pb-3">
+        <Textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          onBlur={saveDescription}
+          maxLength={TASK_DESCRIPTION_MAX_LENGTH}
+          placeholder="Add a description..."
+        />
+        <TaskScheduleFields task={task} />
+        <TaskRecurrenceFields task={task} />
+        {task.parentId === undefined && <TaskProjectSelect task={task} />}
+        <SubtaskList parentId={task._id} onDelete={onDelete} />
+        {showPageLink && (
+          <Button asChild variant="link" size="sm" className="h-auto px-0">
+            <Link to={`/tasks/${task._id}`}>
+              <MessageSquare className="mr-2 h-4 w-4" />
+              Open task and comments
+            </Link>
+          </Button>
+        )}
+      </CollapsibleContent>
+      <CompleteTaskDialog task={completing} onClose={() => setCompleting(null)} />
+    </Collapsible>
+  )
+}
@@ -0,0 +1,60 @@
+import { api } from "convex/_generated/api"
+import type { Doc } from "convex/_generated/dataModel"
+import { useMutation, useQuery } from "convex/react"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+
+/** Select value standing in for "no project", since Radix Select disallows "" */
+const NO_PROJECT = "none"
+
+export type TaskProjectSelectProps = {
+  task: Doc<"tasks">
+}
+
+/**
+ * TaskProjectSelect - Moves a top-level task (and its subtasks) to a project
+ */
+export function TaskProjectSelect({ task }: TaskProjectSelectProps) {
+  const projects = useQuery(api.projects.list, {})
+  const updateTask = useMutation(api.tasks.update)
+  const selectId = `task-${task._id}-project`
+
+  return (
+    <div className="space-y-1.5">
+      <Label htmlFor={selectId}>Project</Label>
+      <Select
+        value={task.projectId ?? NO_PROJECT}
+        onValueChange={(value) =>
+          updateTask({
+            id: task._id,
+            projectId: value === NO_PROJECT ? null : (value as Doc<"projects">["_id"]),
+          })
+        }
+      >
+        <SelectTrigger id={selectId}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_PROJECT}>No project</SelectItem>
+          {projects?.map((project) => (
+            <SelectItem key={project._id} value={project._id}>
+              <span className="flex items-center gap-2">
+                <span
+                  className="h-2.5 w-2.5 rounded-full"
+                  style={{ backgroundColor: project.color }}
+                />
+                {project.name}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+import { api } from "convex/_generated/api"
+import type { Doc } from "convex/_generated/dataModel"
+import { useMutation } from "convex/react"
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { getLocalTimezone, getRecurrencePresets } from "./recurrencePresets"
+
+/** Select values that aren't rules, since Radix Select disallows "" */
+const NO_REPEAT = "none"
+const CUSTOM = "custom"
+
+type Scope = "occurrence" | "future"
+
+export type TaskRecurrenceFieldsProps = {
+  task: Doc<"tasks"> & {
+    recurrence: { rule: string; timezone: string; overridden: boolean } | null
+  }
+}
+
+/**
+ * TaskRecurrenceFields - Repeat rule for a task
+ *
+ * Offers common rules based on the due date, or a custom RRULE. Changes to
+ * a repeating task apply either to all future occurrences or only to when
+ * the next occurrence is due.
+ */
+export function TaskRecurrenceFields({ task }: TaskRecurrenceFieldsProps) {
+  const setRecurrence = useMutation(api.tasks.setRecurrence)
+  const [scope, setScope] = useState<Scope>("future")
+  const [custom, setCustom] = useState(false)
+  const [customRule, setCustomRule] = useState(task.recurrence?.rule ?? "")
+  const repeatId = `task-${task._id}-repeat`
+  const scopeId = `task-${task._id}-repeat-scope`
+
+  useEffect(() => {
+    setCustomRule(task.recurrence?.rule ?? "")
+  }, [task.recurrence?.rule])
+
+  if (task.dueAt === undefined) {
+    return <p className="text-sm text-muted-foreground">Set a due date to make this task repeat.</p>
+  }
+
+  const presets = getRecurrencePresets(task.dueAt)
+  const currentRule = task.recurrence?.rule
+  const value =
+    custom || (currentRule && !presets.some((preset) => preset.rule === currentRule))
+      ? CUSTOM
+      : (currentRule ?? NO_REPEAT)
+
+  const save = async (rule: string | null) => {
+    try {
+      await setRecurrence({
+        id: task._id,
+        rule,
+        timezone: getLocalTimezone(),
+        scope: task.seriesId ? scope : "future",
+      })
+      setCustom(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not save the repeat rule")
+    }
+  }
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      <div className="space-y-1.5">
+        <Label htmlFor={repeatId}>Repeat</Label>
+        <Select
+          value={value}
+          onValueChange={(next) => {
+            if (next === CUSTOM) {
+              setCustom(true)
+            } else {
+              save(next === NO_REPEAT ? null : next)
+            }
+          }}
+        >
+          <SelectTrigger id={repeatId}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_REPEAT}>Does not repeat</SelectItem>
+            {presets.map((preset) => (
+              <SelectItem key={preset.rule} value={preset.rule}>
+                {preset.label}
+              </SelectItem>
+            ))}
+            <SelectItem value={CUSTOM}>Custom rule...</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {task.seriesId && (
+        <div className="space-y-1.5">
+          <Label htmlFor={scopeId}>Apply changes to</Label>
+          <Select value={scope} onValueChange={(next) => setScope(next as Scope)}>
+            <SelectTrigger id={scopeId}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="future">This and future occurrences</SelectItem>
+              <SelectItem value="occurrence">This occurrence only</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      {value === CUSTOM && (
+        <form
+          className="space-y-1.5 sm:col-span-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (customRule.trim()) save(customRule)
+          }}
+        >
+          <Input
+            aria-label="Custom repeat rule"
+            placeholder="FREQ=WEEKLY;BYDAY=MO,WE"
+            value={customRule}
+            onChange={(e) => setCustomRule(e.target.value)}
+            onBlur={() => customRule.trim() && customRule !== currentRule && save(customRule)}
+            className="font-mono text-sm"
+          />
+          <p className="text-xs text-muted-foreground">An RFC 5545 RRULE. Press Enter to save.</p>
+        </form>
+      )}
+      {task.recurrence && (
+        <p className="text-xs text-muted-foreground sm:col-span-2">
+          {task.recurrence.overridden
+            ? "The next occurrence follows a one-off rule; later ones follow the series. "
+            : ""}
+          Repeats in {task.recurrence.timezone} time.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+import { api } from "convex/_generated/api"
+import type { Doc } from "convex/_generated/dataModel"
+import { useMutation } from "convex/react"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { fromDateTimeLocalValue, toDateTimeLocalValue } from "@/lib/datetime"
+import { getLocalTimezone } from "./recurrencePresets"
+
+export type TaskScheduleFieldsProps = {
+  task: Doc<"tasks">
+}
+
+/**
+ * TaskScheduleFields - Due date and reminder inputs for a task
+ *
+ * Each change is saved immediately; the server reschedules the reminder job.
+ */
+export function TaskScheduleFields({ task }: TaskScheduleFieldsProps) {
+  const updateTask = useMutation(api.tasks.update)
+  const dueId = `task-${task._id}-due`
+  const remindId = `task-${task._id}-remind`
+  const emailId = `task-${task._id}-remind-email`
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      <div className="space-y-1.5">
+        <Label htmlFor={dueId}>Due</Label>
+        <Input
+          id={dueId}
+          type="datetime-local"
+          value={toDateTimeLocalValue(task.dueAt)}
+          onChange={(e) =>
+            updateTask({
+              id: task._id,
+              dueAt: fromDateTimeLocalValue(e.target.value),
+              dueTimezone: getLocalTimezone(),
+            })
+          }
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor={remindId}>Remind me</Label>
+        <Input
+          id={remindId}
+          type="datetime-local"
+          value={toDateTimeLocalValue(task.remindAt)}
+          onChange={(e) =>
+            updateTask({ id: task._id, remindAt: fromDateTimeLocalValue(e.target.value) })
+          }
+        />
+      </div>
+      <div className="flex items-center gap-2 sm:col-span-2">
+        <Checkbox
+          id={emailId}
+          checked={task.remindByEmail ?? false}
+          disabled={task.remindAt === undefined}
+          onCheckedChange={(checked) =>
+            updateTask({ id: task._id, remindByEmail: checked === true })
+          }
+        />
+        <Label htmlFor={emailId}>Also send the reminder by email</Label>
+      </div>
+    </div>
+  )
+}
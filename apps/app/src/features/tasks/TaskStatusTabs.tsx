@@ -0,0 +1,46 @@
+import { api } from "convex/_generated/api"
+import type { Id } from "convex/_generated/dataModel"
+import { useQuery } from "convex/react"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { formatCount } from "@/lib/format"
+import { TASK_COUNT_MAX } from "./constants"
+
+export type TaskStatus = "all" | "active" | "completed"
+
+const STATUS_TABS: { value: TaskStatus; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "active", label: "Active" },
+  { value: "completed", label: "Completed" },
+]
+
+export type TaskStatusTabsProps = {
+  value: TaskStatus
+  onValueChange: (value: TaskStatus) => void
+  /** Only count tasks in this project */
+  projectId?: Id<"projects">
+}
+
+/**
+ * TaskStatusTabs - Filter bar for the task list
+ *
+ * Each tab shows a live count from `tasks.counts`.
+ */
+export function TaskStatusTabs({ value, onValueChange, projectId }: TaskStatusTabsProps) {
+  const counts = useQuery(api.tasks.counts, { projectId })
+
+  return (
+    <Tabs value={value} onValueChange={(next) => onValueChange(next as TaskStatus)}>
+      <TabsList>
+        {STATUS_TABS.map((tab) => (
+          <TabsTrigger key={tab.value} value={tab.value} className="gap-2">
+            {tab.label}
+            <Badge variant="secondary" className="px-1.5">
+              {counts ? formatCount(counts[tab.value], TASK_COUNT_MAX) : "–"}
+            </Badge>
+          </TabsTrigger>
+        ))}
+      </TabsList>
+    </Tabs>
+  )
+}
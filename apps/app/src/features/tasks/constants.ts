@@ -0,0 +1,8 @@
+/** Mirrors MAX_TITLE_LENGTH in convex/tasks.ts */
+export const TASK_TITLE_MAX_LENGTH = 200
+
+/** Mirrors MAX_DESCRIPTION_LENGTH in convex/tasks.ts */
+export const TASK_DESCRIPTION_MAX_LENGTH = 2000
+
+/** Mirrors MAX_TASK_COUNT in convex/tasks.ts */
+export const TASK_COUNT_MAX = 100
@@ -1,5 +1,29 @@
 export {
+  CompleteTaskDialog,
+  type CompleteTaskDialogProps,
+  type CompletingTask,
+  countOpenSubtasks,
+} from "./CompleteTaskDialog"
+export { TASK_DESCRIPTION_MAX_LENGTH, TASK_TITLE_MAX_LENGTH } from "./constants"
+export {
+  DeleteTaskDescription,
   DeleteTaskDialog,
   DeleteTaskDialogWithHook,
   useDeleteTaskDialog,
 } from "./DeleteTaskDialog"
+export {
+  getLocalTimezone,
+  getRecurrencePresets,
+  type RecurrencePreset,
+} from "./recurrencePresets"
+export { SortableTaskList, type SortableTaskListProps } from "./SortableTaskList"
+export { SubtaskList, type SubtaskListProps } from "./SubtaskList"
+export {
+  TaskItem,
+  type TaskItemProps,
+  type TaskListItem,
+} from "./TaskItem"
+export { TaskProjectSelect, type TaskProjectSelectProps } from "./TaskProjectSelect"
+export { TaskRecurrenceFields, type TaskRecurrenceFieldsProps } from "./TaskRecurrenceFields"
+export { TaskScheduleFields, type TaskScheduleFieldsProps } from "./TaskScheduleFields"
+export { type TaskStatus, TaskStatusTabs, type TaskStatusTabsProps } from "./TaskStatusTabs"
@@ -0,0 +1,33 @@
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"]
+const ORDINALS = ["first", "second", "third", "fourth"]
+
+export type RecurrencePreset = { rule: string; label: string }
+
+/**
+ * Common recurrence rules (RFC 5545 RRULEs) for a task due at `dueAt`,
+ * labelled in terms of that date, e.g. "Monthly on the first Monday".
+ */
+export function getRecurrencePresets(dueAt: number): RecurrencePreset[] {
+  const due = new Date(dueAt)
+  const weekday = WEEKDAY_CODES[due.getDay()]
+  const weekdayName = due.toLocaleDateString(undefined, { weekday: "long" })
+  const week = Math.ceil(due.getDate() / 7)
+  const [position, ordinal] = week > 4 ? [-1, "last"] : [week, ORDINALS[week - 1]]
+
+  return [
+    { rule: "FREQ=DAILY", label: "Daily" },
+    { rule: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR", label: "Every weekday (Monday to Friday)" },
+    { rule: `FREQ=WEEKLY;BYDAY=${weekday}`, label: `Weekly on ${weekdayName}` },
+    {
+      rule: `FREQ=MONTHLY;BYDAY=${position}${weekday}`,
+      label: `Monthly on the ${ordinal} ${weekdayName}`,
+    },
+    { rule: `FREQ=MONTHLY;BYMONTHDAY=${due.getDate()}`, label: `Monthly on day ${due.getDate()}` },
+    { rule: "FREQ=YEARLY", label: "Yearly" },
+  ]
+}
+
+/** The browser's IANA timezone, e.g. "Europe/Berlin" */
+export function getLocalTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
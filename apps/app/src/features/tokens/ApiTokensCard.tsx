@@ -0,0 +1,257 @@
+import { api } from "convex/_generated/api"
+import type { Doc } from "convex/_generated/dataModel"
+import { useAction, useMutation, useQuery } from "convex/react"
+import type { FunctionReturnType } from "convex/server"
+import { Copy, KeyRound, Trash2 } from "lucide-react"
+import { useId, useState } from "react"
+import { toast } from "sonner"
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { formatDateTime } from "@/lib/datetime"
+import { API_TOKEN_EXPIRY_DAYS, API_TOKEN_NAME_MAX_LENGTH, API_TOKEN_SCOPES } from "./constants"
+
+type ApiToken = FunctionReturnType<typeof api.apiTokens.list>[number]
+type ApiTokenScope = Doc<"apiTokens">["scopes"][number]
+
+/** Select value standing in for "never expires", since Radix Select disallows "" */
+const NEVER = "never"
+
+/**
+ * Form for creating a token, then showing it once so it can be copied.
+ */
+function CreateTokenForm() {
+  const createToken = useAction(api.apiTokens.create)
+  const formId = useId()
+  const [name, setName] = useState("")
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["tasks:read"])
+  const [expiry, setExpiry] = useState(String(API_TOKEN_EXPIRY_DAYS[0]))
+  const [isCreating, setIsCreating] = useState(false)
+  const [created, setCreated] = useState<string | null>(null)
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) =>
+    setScopes((current) =>
+      checked ? [...current, scope] : current.filter((value) => value !== scope),
+    )
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsCreating(true)
+    try {
+      const { token } = await createToken({
+        name,
+        scopes,
+        expiresInDays: expiry === NEVER ? undefined : Number(expiry),
+      })
+      setCreated(token)
+      setName("")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not create token")
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  if (created) {
+    return (
+      <div className="space-y-2 rounded-lg border p-3">
+        <p className="text-sm font-medium">Copy your new token now. It won't be shown again.</p>
+        <div className="flex gap-2">
+          <Input
+            readOnly
+            value={created}
+            className="font-mono"
+            onFocus={(e) => e.target.select()}
+          />
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label="Copy token"
+            onClick={async () => {
+              await navigator.clipboard.writeText(created)
+              toast.success("Token copied")
+            }}
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => setCreated(null)}>
+          Done
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-lg border p-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor={`${formId}-name`}>Name</Label>
+          <Input
+            id={`${formId}-name`}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={API_TOKEN_NAME_MAX_LENGTH}
+            placeholder="e.g. Backup script"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${formId}-expiry`}>Expires after</Label>
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger id={`${formId}-expiry`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {API_TOKEN_EXPIRY_DAYS.map((days) => (
+                <SelectItem key={String(days)} value={days === null ? NEVER : String(days)}>
+                  {days === null ? "Never" : `${days} days`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-2">
+        {API_TOKEN_SCOPES.map((scope) => (
+          <div key={scope.value} className="flex items-center gap-2">
+            <Checkbox
+              id={`${formId}-${scope.value}`}
+              checked={scopes.includes(scope.value)}
+              onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+            />
+            <Label htmlFor={`${formId}-${scope.value}`}>{scope.label}</Label>
+          </div>
+        ))}
+      </div>
+      <Button type="submit" size="sm" disabled={isCreating || !name.trim() || scopes.length === 0}>
+        {isCreating ? "Creating..." : "Create token"}
+      </Button>
+    </form>
+  )
+}
+
+/**
+ * ApiTokensCard - Personal API tokens for scripting against the HTTP API
+ */
+export function ApiTokensCard() {
+  const tokens = useQuery(api.apiTokens.list)
+  const revokeToken = useMutation(api.apiTokens.revoke)
+  const [revoking, setRevoking] = useState<ApiToken | null>(null)
+  const [isRevoking, setIsRevoking] = useState(false)
+
+  const handleRevoke = async () => {
+    if (!revoking) return
+    setIsRevoking(true)
+    try {
+      await revokeToken({ id: revoking._id })
+      setRevoking(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not revoke token")
+    } finally {
+      setIsRevoking(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>API tokens</CardTitle>
+        <CardDescription>
+          Send a token as <code>Authorization: Bearer &lt;token&gt;</code> to use the API from
+          scripts.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {tokens === undefined ? (
+          <p className="text-sm text-muted-foreground">Loading tokens...</p>
+        ) : (
+          tokens.map((token) => {
+            const expired = token.expiresAt !== undefined && token.expiresAt <= Date.now()
+            return (
+              <div key={token._id} className="flex items-center gap-2 rounded-lg border p-3">
+                <KeyRound className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm">
+                    {token.name}{" "}
+                    <span className="font-mono text-xs text-muted-foreground">
+                      {token.displayPrefix}…
+                    </span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {token.lastUsedAt === undefined
+                      ? "Never used"
+                      : `Last used ${formatDateTime(token.lastUsedAt)}`}
+                    {" · "}
+                    {token.expiresAt === undefined
+                      ? "Never expires"
+                      : `${expired ? "Expired" : "Expires"} ${formatDateTime(token.expiresAt)}`}
+                  </p>
+                </div>
+                {token.scopes.map((scope) => (
+                  <Badge key={scope} variant="outline" className="shrink-0">
+                    {scope}
+                  </Badge>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Revoke ${token.name}`}
+                  onClick={() => setRevoking(token)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )
+          })
+        )}
+        <CreateTokenForm />
+      </CardContent>
+
+      <AlertDialog
+        open={revoking !== null}
+        onOpenChange={(open) => {
+          if (!open && !isRevoking) {
+            setRevoking(null)
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke Token</AlertDialogTitle>
+            <AlertDialogDescription>
+              Revoke{" "}
+              <span className="font-medium text-foreground">&ldquo;{revoking?.name}&rdquo;</span>?
+              Scripts using it will stop working immediately.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <Button variant="outline" onClick={() => setRevoking(null)} disabled={isRevoking}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRevoke} disabled={isRevoking}>
+              {isRevoking ? "Revoking..." : "Revoke"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
@@ -0,0 +1,14 @@
+/** Mirrors MAX_API_TOKEN_NAME_LENGTH in convex/lib/apiTokens.ts */
+export const API_TOKEN_NAME_MAX_LENGTH = 80
+
+/** Mirrors apiTokenScopeValidator in convex/lib/apiTokens.ts */
+export const API_TOKEN_SCOPES = [
+  { value: "tasks:read", label: "Read tasks" },
+  { value: "tasks:write", label: "Create, edit and delete tasks" },
+] as const
+
+/**
+ * Expiry choices for new tokens, in days; null never expires. The longest
+ * mirrors MAX_API_TOKEN_DAYS in convex/lib/apiTokens.ts
+ */
+export const API_TOKEN_EXPIRY_DAYS = [30, 90, 365, null] as const
@@ -0,0 +1,2 @@
+export { ApiTokensCard } from "./ApiTokensCard"
+export { API_TOKEN_EXPIRY_DAYS, API_TOKEN_NAME_MAX_LENGTH, API_TOKEN_SCOPES } from "./constants"
@@ -0,0 +1,285 @@
+import { api } from "convex/_generated/api"
+import type { Doc, Id } from "convex/_generated/dataModel"
+import { useMutation, useQuery } from "convex/react"
+import type { FunctionReturnType } from "convex/server"
+import { ChevronRight, Trash2, Webhook } from "lucide-react"
+import { useId, useState } from "react"
+import { toast } from "sonner"
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { formatDateTime } from "@/lib/datetime"
+import { cn } from "@/lib/utils"
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_SECRET_MAX_LENGTH,
+  WEBHOOK_SECRET_MIN_LENGTH,
+  WEBHOOK_URL_MAX_LENGTH,
+} from "./constants"
+
+type WebhookEntry = FunctionReturnType<typeof api.webhooks.list>[number]
+type WebhookEvent = Doc<"webhooks">["events"][number]
+type DeliveryStatus = Doc<"webhookDeliveries">["status"]
+
+const STATUS_BADGES: Record<
+  DeliveryStatus,
+  { label: string; variant: "success" | "warning" | "destructive" }
+> = {
+  succeeded: { label: "Delivered", variant: "success" },
+  pending: { label: "Pending", variant: "warning" },
+  failed: { label: "Failed", variant: "destructive" },
+}
+
+/** A random secret of 32 hex characters for new webhooks */
+function generateSecret() {
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+/**
+ * Form for registering a webhook.
+ */
+function CreateWebhookForm() {
+  const createWebhook = useMutation(api.webhooks.create)
+  const formId = useId()
+  const [url, setUrl] = useState("")
+  const [secret, setSecret] = useState(generateSecret)
+  const [events, setEvents] = useState<WebhookEvent[]>(WEBHOOK_EVENTS.map((event) => event.value))
+  const [isCreating, setIsCreating] = useState(false)
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) =>
+    setEvents((current) =>
+      checked ? [...current, event] : current.filter((value) => value !== event),
+    )
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsCreating(true)
+    try {
+      await createWebhook({ url, secret, events })
+      setUrl("")
+      setSecret(generateSecret())
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not add webhook")
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-lg border p-3">
+      <div className="space-y-1">
+        <Label htmlFor={`${formId}-url`}>Payload URL</Label>
+        <Input
+          id={`${formId}-url`}
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          maxLength={WEBHOOK_URL_MAX_LENGTH}
+          placeholder="https://example.com/webhooks/tasks"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${formId}-secret`}>Secret</Label>
+        <Input
+          id={`${formId}-secret`}
+          value={secret}
+          onChange={(e) => setSecret(e.target.value)}
+          minLength={WEBHOOK_SECRET_MIN_LENGTH}
+          maxLength={WEBHOOK_SECRET_MAX_LENGTH}
+          className="font-mono"
+        />
+        <p className="text-xs text-muted-foreground">
+          Payloads are signed with this secret. Copy it now; it won't be shown again.
+        </p>
+      </div>
+      <div className="space-y-2">
+        {WEBHOOK_EVENTS.map((event) => (
+          <div key={event.value} className="flex items-center gap-2">
+            <Checkbox
+              id={`${formId}-${event.value}`}
+              checked={events.includes(event.value)}
+              onCheckedChange={(checked) => toggleEvent(event.value, checked === true)}
+            />
+            <Label htmlFor={`${formId}-${event.value}`}>{event.label}</Label>
+          </div>
+        ))}
+      </div>
+      <Button
+        type="submit"
+        size="sm"
+        disabled={
+          isCreating ||
+          !url.trim() ||
+          secret.length < WEBHOOK_SECRET_MIN_LENGTH ||
+          events.length === 0
+        }
+      >
+        {isCreating ? "Adding..." : "Add webhook"}
+      </Button>
+    </form>
+  )
+}
+
+/**
+ * A webhook's most recent deliveries, loaded when shown.
+ */
+function DeliveryLog({ webhookId }: { webhookId: Id<"webhooks"> }) {
+  const deliveries = useQuery(api.webhooks.deliveries, { webhookId })
+
+  if (deliveries === undefined) {
+    return <p className="text-xs text-muted-foreground">Loading deliveries...</p>
+  }
+  if (deliveries.length === 0) {
+    return <p className="text-xs text-muted-foreground">Nothing has been sent yet.</p>
+  }
+
+  return (
+    <ul className="space-y-1">
+      {deliveries.map((delivery) => {
+        const badge = STATUS_BADGES[delivery.status]
+        return (
+          <li key={delivery._id} className="flex items-center gap-2 text-xs">
+            <Badge variant={badge.variant} className="shrink-0">
+              {badge.label}
+            </Badge>
+            <span className="font-mono">{delivery.event}</span>
+            <span className="min-w-0 flex-1 truncate text-muted-foreground">
+              {delivery.error ?? (delivery.responseStatus && `HTTP ${delivery.responseStatus}`)}
+            </span>
+            <span className="shrink-0 text-muted-foreground">
+              {delivery.attempts > 1 && `${delivery.attempts} attempts · `}
+              {formatDateTime(delivery.createdAt)}
+            </span>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+/**
+ * A registered webhook with its events and an expandable delivery log.
+ */
+function WebhookItem({
+  webhook,
+  onDelete,
+}: {
+  webhook: WebhookEntry
+  onDelete: (webhook: WebhookEntry) => void
+}) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-lg border p-3">
+      <div className="flex items-center gap-2">
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-6 w-6" aria-label="Toggle deliveries">
+            <ChevronRight className={cn("h-4 w-4 transition-transform", open && "rotate-90")} />
+          </Button>
+        </CollapsibleTrigger>
+        <Webhook className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <div className="min-w-0 flex-1">
+          <p className="truncate font-mono text-sm">{webhook.url}</p>
+          <p className="truncate text-xs text-muted-foreground">{webhook.events.join(", ")}</p>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label={`Delete webhook ${webhook.url}`}
+          onClick={() => onDelete(webhook)}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      <CollapsibleContent className="mt-3 border-t pt-3">
+        <DeliveryLog webhookId={webhook._id} />
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
+
+/**
+ * WebhooksCard - Endpoints that receive task events, with their delivery logs
+ */
+export function WebhooksCard() {
+  const webhooks = useQuery(api.webhooks.list)
+  const removeWebhook = useMutation(api.webhooks.remove)
+  const [deleting, setDeleting] = useState<WebhookEntry | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const handleDelete = async () => {
+    if (!deleting) return
+    setIsDeleting(true)
+    try {
+      await removeWebhook({ id: deleting._id })
+      setDeleting(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not delete webhook")
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Webhooks</CardTitle>
+        <CardDescription>
+          Get a signed <code>POST</code> request whenever your tasks change. Failed deliveries are
+          retried for about 15 minutes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {webhooks === undefined ? (
+          <p className="text-sm text-muted-foreground">Loading webhooks...</p>
+        ) : (
+          webhooks.map((webhook) => (
+            <WebhookItem key={webhook._id} webhook={webhook} onDelete={setDeleting} />
+          ))
+        )}
+        <CreateWebhookForm />
+      </CardContent>
+
+      <AlertDialog
+        open={deleting !== null}
+        onOpenChange={(open) => {
+          if (!open && !isDeleting) {
+            setDeleting(null)
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Webhook</AlertDialogTitle>
+            <AlertDialogDescription>
+              Stop sending events to{" "}
+              <span className="font-medium text-foreground">{deleting?.url}</span>? Its delivery log
+              will be deleted too.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <Button variant="outline" onClick={() => setDeleting(null)} disabled={isDeleting}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+              {isDeleting ? "Deleting..." : "Delete"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
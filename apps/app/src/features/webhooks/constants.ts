@@ -0,0 +1,16 @@
+/** Mirrors webhookEventValidator in convex/lib/webhooks.ts */
+export const WEBHOOK_EVENTS = [
+  { value: "task.created", label: "Task created" },
+  { value: "task.updated", label: "Task updated" },
+  { value: "task.toggled", label: "Task completed or reopened" },
+  { value: "task.removed", label: "Task moved to the trash" },
+] as const
+
+/** Mirrors MIN_WEBHOOK_SECRET_LENGTH in convex/lib/webhooks.ts */
+export const WEBHOOK_SECRET_MIN_LENGTH = 16
+
+/** Mirrors MAX_WEBHOOK_SECRET_LENGTH in convex/lib/webhooks.ts */
+export const WEBHOOK_SECRET_MAX_LENGTH = 256
+
+/** Mirrors MAX_WEBHOOK_URL_LENGTH in convex/lib/webhooks.ts */
+export const WEBHOOK_URL_MAX_LENGTH = 2048
@@ -0,0 +1,7 @@
+export {
+  WEBHOOK_EVENTS,
+  WEBHOOK_SECRET_MAX_LENGTH,
+  WEBHOOK_SECRET_MIN_LENGTH,
+  WEBHOOK_URL_MAX_LENGTH,
+} from "./constants"
+export { WebhooksCard } from "./WebhooksCard"
@@ -12,8 +12,12 @@ export {
   useQuery,
 } from "convex/react"
 export {
+  type UploadPurpose,
   uploadFile,
   useDeleteFile,
   useFileUrl,
+  useFinalizeUpload,
   useGenerateUploadUrl,
+  useImageUrl,
 } from "../useStorage"
+export { useUploadQueue } from "../useUploadQueue"
@@ -0,0 +1,17 @@
+import { useEffect, useState } from "react"
+
+/**
+ * Hook that returns `value` once it has stopped changing for `delay` ms
+ * @param value - The value to debounce
+ * @param delay - Quiet period in milliseconds
+ */
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value)
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay)
+    return () => clearTimeout(timeout)
+  }, [value, delay])
+
+  return debounced
+}
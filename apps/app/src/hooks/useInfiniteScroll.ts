@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useRef } from "react"
+
+/**
+ * Hook to trigger a callback when a sentinel element scrolls into view.
+ * Attach the returned ref to an element rendered after the last list item.
+ * @param onLoadMore - Called whenever the sentinel becomes visible
+ * @param enabled - Set to false while a page is loading or when there is nothing left to load
+ * @returns ref callback for the sentinel element
+ */
+export function useInfiniteScroll(onLoadMore: () => void, enabled: boolean) {
+  const observerRef = useRef<IntersectionObserver | null>(null)
+  const onLoadMoreRef = useRef(onLoadMore)
+
+  // Keep the latest callback without re-creating the observer
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore
+  }, [onLoadMore])
+
+  useEffect(() => {
+    if (!enabled) {
+      observerRef.current?.disconnect()
+    }
+  }, [enabled])
+
+  return useCallback(
+    (node: Element | null) => {
+      observerRef.current?.disconnect()
+      if (!node || !enabled) return
+
+      observerRef.current = new IntersectionObserver(
+        (entries) => {
+          if (entries.some((entry) => entry.isIntersecting)) {
+            onLoadMoreRef.current()
+          }
+        },
+        { rootMargin: "200px" },
+      )
+      observerRef.current.observe(node)
+    },
+    [enabled],
+  )
+}
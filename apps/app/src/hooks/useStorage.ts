@@ -1,6 +1,17 @@
 import { api } from "convex/_generated/api"
 import type { Id } from "convex/_generated/dataModel"
-import { useMutation, useQuery } from "convex/react"
+import { useAction, useMutation, useQuery } from "convex/react"
+import type { FunctionArgs } from "convex/server"
+import { ConvexError } from "convex/values"
+
+/** Arguments of `finalizeUpload`. */
+type FinalizeUploadArgs = FunctionArgs<typeof api.storage.finalizeUpload>
+
+/** What an upload is for; decides its size limit and allowed types. */
+export type UploadPurpose = FinalizeUploadArgs["purpose"]
+
+/** A signed upload URL and the ID `finalizeUpload` needs to claim its upload. */
+export type UploadTarget = { uploadUrl: string; uploadId: FinalizeUploadArgs["uploadId"] }
 
 /**
  * Hook to generate an upload URL for file storage.
@@ -9,6 +20,14 @@ export function useGenerateUploadUrl() {
   return useMutation(api.storage.generateUploadUrl)
 }
 
+/**
+ * Hook to register a finished upload as belonging to the current user.
+ * Uploads that break the upload rules are deleted and rejected.
+ */
+export function useFinalizeUpload() {
+  return useAction(api.storage.finalizeUpload)
+}
+
 /**
  * Hook to get a file URL from storage.
  */
@@ -17,6 +36,20 @@ export function useFileUrl(storageId: Id<"_storage"> | undefined) {
   return url ?? null
 }
 
+/**
+ * Hook to get the URL of an image scaled to fit `width` CSS pixels.
+ * Returns the smallest generated thumbnail that is sharp on this screen,
+ * or the original while thumbnails are pending or when none is big enough.
+ */
+export function useImageUrl(storageId: Id<"_storage"> | undefined, width: number) {
+  const pixelWidth = Math.ceil(width * (window.devicePixelRatio || 1))
+  const url = useQuery(
+    api.thumbnails.getImageUrl,
+    storageId ? { storageId, width: pixelWidth } : "skip",
+  )
+  return url ?? null
+}
+
 /**
  * Hook to delete a file from storage.
  */
@@ -24,29 +57,83 @@ export function useDeleteFile() {
   return useMutation(api.storage.deleteFile)
 }
 
+/**
+ * Get a user-facing message for a failed upload. Rejected uploads carry
+ * `{ code, message }` data (see convex/lib/uploads.ts).
+ */
+export function getUploadErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ConvexError && typeof error.data?.message === "string") {
+    return error.data.message
+  }
+  return error instanceof Error ? error.message : fallback
+}
+
+/** Progress and cancellation hooks for `uploadFile`. */
+export type UploadFileOptions = {
+  /** Called as the file is sent, with the fraction sent so far (0 to 1) */
+  onProgress?: (fraction: number) => void
+  /** Aborts the upload; `uploadFile` then rejects with an AbortError */
+  signal?: AbortSignal
+}
+
+/**
+ * POST a file to a signed upload URL with XHR, which unlike `fetch`
+ * reports upload progress. Resolves with the new storage ID.
+ */
+function postFile(
+  uploadUrl: string,
+  file: File,
+  { onProgress, signal }: UploadFileOptions,
+): Promise<Id<"_storage">> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Upload cancelled", "AbortError"))
+      return
+    }
+
+    const xhr = new XMLHttpRequest()
+    xhr.open("POST", uploadUrl)
+    xhr.setRequestHeader("Content-Type", file.type)
+    xhr.responseType = "json"
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total)
+    }
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300 && xhr.response?.storageId) {
+        resolve(xhr.response.storageId)
+      } else {
+        reject(new Error("Failed to upload file"))
+      }
+    }
+    xhr.onerror = () => reject(new Error("Failed to upload file"))
+    xhr.onabort = () => reject(new DOMException("Upload cancelled", "AbortError"))
+
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true })
+    xhr.send(file)
+  })
+}
+
 /**
  * Helper function to upload a file to Convex storage.
+ * The upload is registered with `finalizeUpload` once it succeeds, so
+ * only the uploader can read or delete it. Throws a ConvexError if the
+ * file breaks the rules for its purpose or the user's quota.
  */
 export async function uploadFile(
-  generateUploadUrl: () => Promise<string>,
+  generateUploadUrl: () => Promise<UploadTarget>,
+  finalizeUpload: (args: FinalizeUploadArgs) => Promise<unknown>,
   file: File,
+  purpose: UploadPurpose,
+  options: UploadFileOptions = {},
 ): Promise<Id<"_storage">> {
   // Get a signed upload URL
-  const uploadUrl = await generateUploadUrl()
+  const { uploadUrl, uploadId } = await generateUploadUrl()
 
   // Upload the file
-  const response = await fetch(uploadUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": file.type,
-    },
-    body: file,
-  })
-
-  if (!response.ok) {
-    throw new Error("Failed to upload file")
-  }
+  const storageId = await postFile(uploadUrl, file, options)
 
-  const { storageId } = await response.json()
+  // Take ownership of the uploaded file
+  await finalizeUpload({ uploadId, storageId, purpose })
   return storageId
 }
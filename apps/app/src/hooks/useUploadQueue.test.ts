@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest"
+import { nextUploads, type UploadItem, uploadQueueReducer } from "./useUploadQueue"
+
+const file = (name: string) => new File(["x"], name)
+
+function queue(...names: string[]): UploadItem[] {
+  return uploadQueueReducer([], {
+    type: "add",
+    items: names.map((name) => ({ id: name, file: file(name) })),
+  })
+}
+
+describe("uploadQueueReducer", () => {
+  it("adds files as queued, or as failed when they arrive with an error", () => {
+    const items = uploadQueueReducer([], {
+      type: "add",
+      items: [
+        { id: "a", file: file("a") },
+        { id: "b", file: file("b"), error: "Too large" },
+      ],
+    })
+    expect(items.map((item) => [item.status, item.retryable])).toEqual([
+      ["queued", true],
+      ["error", false],
+    ])
+  })
+
+  it("moves an upload through progress and drops it once done", () => {
+    let items = queue("a")
+    items = uploadQueueReducer(items, { type: "start", id: "a" })
+    items = uploadQueueReducer(items, { type: "progress", id: "a", progress: 0.5 })
+    expect(items[0]).toMatchObject({ status: "uploading", progress: 0.5 })
+
+    items = uploadQueueReducer(items, { type: "succeed", id: "a" })
+    expect(items).toEqual([])
+  })
+
+  it("ignores results for cancelled uploads", () => {
+    let items = queue("a")
+    items = uploadQueueReducer(items, { type: "start", id: "a" })
+    items = uploadQueueReducer(items, { type: "cancel", id: "a" })
+    items = uploadQueueReducer(items, { type: "fail", id: "a", error: "Aborted" })
+    expect(items[0]).toMatchObject({ status: "cancelled", error: undefined })
+  })
+
+  it("requeues failed and cancelled uploads on retry", () => {
+    let items = queue("a", "b")
+    items = uploadQueueReducer(items, { type: "start", id: "a" })
+    items = uploadQueueReducer(items, { type: "fail", id: "a", error: "Network" })
+    items = uploadQueueReducer(items, { type: "cancel", id: "b" })
+    items = uploadQueueReducer(items, { type: "retry", id: "a" })
+    items = uploadQueueReducer(items, { type: "retry", id: "b" })
+    expect(items.map((item) => [item.status, item.error])).toEqual([
+      ["queued", undefined],
+      ["queued", undefined],
+    ])
+  })
+
+  it("doesn't retry files rejected before uploading", () => {
+    let items = uploadQueueReducer([], {
+      type: "add",
+      items: [{ id: "a", file: file("a"), error: "Too large" }],
+    })
+    items = uploadQueueReducer(items, { type: "retry", id: "a" })
+    expect(items[0]).toMatchObject({ status: "error", error: "Too large" })
+  })
+
+  it("clears everything but active uploads", () => {
+    let items = queue("a", "b", "c")
+    items = uploadQueueReducer(items, { type: "start", id: "a" })
+    items = uploadQueueReducer(items, { type: "cancel", id: "b" })
+    items = uploadQueueReducer(items, { type: "clearFinished" })
+    expect(items.map((item) => item.id)).toEqual(["a", "c"])
+  })
+})
+
+describe("nextUploads", () => {
+  it("starts the oldest queued files up to the concurrency cap", () => {
+    let items = queue("a", "b", "c", "d")
+    expect(nextUploads(items, 2).map((item) => item.id)).toEqual(["a", "b"])
+
+    items = uploadQueueReducer(items, { type: "start", id: "a" })
+    items = uploadQueueReducer(items, { type: "start", id: "b" })
+    expect(nextUploads(items, 2)).toEqual([])
+
+    items = uploadQueueReducer(items, { type: "fail", id: "a", error: "Network" })
+    expect(nextUploads(items, 2).map((item) => item.id)).toEqual(["c"])
+  })
+})
@@ -0,0 +1,244 @@
+import type { Id } from "convex/_generated/dataModel"
+import { useCallback, useEffect, useReducer, useRef } from "react"
+import {
+  getUploadErrorMessage,
+  type UploadPurpose,
+  uploadFile,
+  useFinalizeUpload,
+  useGenerateUploadUrl,
+} from "./useStorage"
+
+export type UploadStatus = "queued" | "uploading" | "error" | "cancelled"
+
+export type UploadItem = {
+  id: string
+  file: File
+  status: UploadStatus
+  /** Fraction of the file sent so far, from 0 to 1 */
+  progress: number
+  error?: string
+  /** False for files rejected before uploading, which would fail again */
+  retryable: boolean
+}
+
+export type UploadQueueAction =
+  | { type: "add"; items: { id: string; file: File; error?: string }[] }
+  | { type: "start"; id: string }
+  | { type: "progress"; id: string; progress: number }
+  | { type: "succeed"; id: string }
+  | { type: "fail"; id: string; error: string }
+  | { type: "cancel"; id: string }
+  | { type: "retry"; id: string }
+  | { type: "remove"; id: string }
+  | { type: "clearFinished" }
+
+function update(items: UploadItem[], id: string, change: (item: UploadItem) => UploadItem) {
+  return items.map((item) => (item.id === id ? change(item) : item))
+}
+
+/**
+ * Reducer for the upload queue. Items that arrive with an error (e.g. too
+ * large) are added as failed so the user sees why they were skipped, and
+ * can't be retried. Finished uploads are dropped, along with their files.
+ */
+export function uploadQueueReducer(items: UploadItem[], action: UploadQueueAction): UploadItem[] {
+  switch (action.type) {
+    case "add":
+      return [
+        ...items,
+        ...action.items.map(({ id, file, error }) => ({
+          id,
+          file,
+          status: error ? ("error" as const) : ("queued" as const),
+          progress: 0,
+          error,
+          retryable: !error,
+        })),
+      ]
+    case "start":
+      return update(items, action.id, (item) =>
+        item.status === "queued" ? { ...item, status: "uploading", progress: 0 } : item,
+      )
+    case "progress":
+      return update(items, action.id, (item) =>
+        item.status === "uploading" ? { ...item, progress: action.progress } : item,
+      )
+    case "succeed":
+      return items.filter((item) => item.id !== action.id || item.status !== "uploading")
+    case "fail":
+      return update(items, action.id, (item) =>
+        item.status === "uploading" ? { ...item, status: "error", error: action.error } : item,
+      )
+    case "cancel":
+      return update(items, action.id, (item) =>
+        item.status === "queued" || item.status === "uploading"
+          ? { ...item, status: "cancelled" }
+          : item,
+      )
+    case "retry":
+      return update(items, action.id, (item) =>
+        (item.status === "error" || item.status === "cancelled") && item.retryable
+          ? { ...item, status: "queued", progress: 0, error: undefined }
+          : item,
+      )
+    case "remove":
+      return items.filter((item) => item.id !== action.id)
+    case "clearFinished":
+      return items.filter((item) => item.status === "queued" || item.status === "uploading")
+  }
+}
+
+/**
+ * Pick the queued items to start next, oldest first, without exceeding
+ * `concurrency` uploads at once.
+ */
+export function nextUploads(items: UploadItem[], concurrency: number): UploadItem[] {
+  const running = items.filter((item) => item.status === "uploading").length
+  const slots = Math.max(0, concurrency - running)
+  return items.filter((item) => item.status === "queued").slice(0, slots)
+}
+
+export type UseUploadQueueOptions = {
+  /** What the files are for; decides the server's size and type checks */
+  purpose: UploadPurpose
+  /** Maximum number of files uploading at once */
+  concurrency?: number
+  /** Reject files larger than this before uploading them, in bytes */
+  maxSize?: number
+  /**
+   * Called once for each file that finishes uploading. If it throws, the
+   * file is listed again with the error but can't be retried: the upload
+   * itself went through
+   */
+  onUploaded?: (storageId: Id<"_storage">, file: File) => void | Promise<void>
+}
+
+/**
+ * Hook to upload files through a queue with per-file progress,
+ * cancellation and retry. At most `concurrency` files upload at once.
+ * @returns the queued items and actions to add, cancel, retry and remove them
+ */
+export function useUploadQueue({
+  purpose,
+  concurrency = 3,
+  maxSize,
+  onUploaded,
+}: UseUploadQueueOptions) {
+  const [items, dispatch] = useReducer(uploadQueueReducer, [])
+  const generateUploadUrl = useGenerateUploadUrl()
+  const finalizeUpload = useFinalizeUpload()
+  const controllers = useRef(new Map<string, AbortController>())
+  const onUploadedRef = useRef(onUploaded)
+
+  // Keep the latest callback without restarting uploads
+  useEffect(() => {
+    onUploadedRef.current = onUploaded
+  }, [onUploaded])
+
+  // Hand a finished upload to `onUploaded`; it has already left the queue,
+  // so a failure here is listed as a new item rather than a retryable one
+  const reportUploaded = useCallback(async (storageId: Id<"_storage">, file: File) => {
+    try {
+      await onUploadedRef.current?.(storageId, file)
+    } catch (error) {
+      dispatch({
+        type: "add",
+        items: [
+          {
+            id: crypto.randomUUID(),
+            file,
+            error: getUploadErrorMessage(error, "Uploaded, but could not be saved"),
+          },
+        ],
+      })
+    }
+  }, [])
+
+  // Start queued uploads whenever a slot frees up
+  useEffect(() => {
+    for (const item of nextUploads(items, concurrency)) {
+      // Effects can run twice for the same items; only start each once
+      if (controllers.current.has(item.id)) continue
+      const controller = new AbortController()
+      controllers.current.set(item.id, controller)
+      dispatch({ type: "start", id: item.id })
+
+      uploadFile(() => generateUploadUrl(), finalizeUpload, item.file, purpose, {
+        signal: controller.signal,
+        onProgress: (progress) => dispatch({ type: "progress", id: item.id, progress }),
+      })
+        .then(
+          (storageId) => {
+            if (controller.signal.aborted) return
+            dispatch({ type: "succeed", id: item.id })
+            void reportUploaded(storageId, item.file)
+          },
+          (error) => {
+            if (controller.signal.aborted) return
+            dispatch({
+              type: "fail",
+              id: item.id,
+              error: getUploadErrorMessage(error, "Upload failed"),
+            })
+          },
+        )
+        .finally(() => {
+          if (controllers.current.get(item.id) === controller) {
+            controllers.current.delete(item.id)
+          }
+        })
+    }
+  }, [items, concurrency, purpose, generateUploadUrl, finalizeUpload, reportUploaded])
+
+  // Abort anything still uploading on unmount
+  useEffect(() => {
+    const running = controllers.current
+    return () => {
+      for (const controller of running.values()) controller.abort()
+    }
+  }, [])
+
+  const add = useCallback(
+    (files: Iterable<File>) => {
+      dispatch({
+        type: "add",
+        items: Array.from(files, (file) => ({
+          id: crypto.randomUUID(),
+          file,
+          error:
+            maxSize !== undefined && file.size > maxSize
+              ? `${file.name} is too large to upload`
+              : undefined,
+        })),
+      })
+    },
+    [maxSize],
+  )
+
+  const abort = useCallback((id: string) => {
+    controllers.current.get(id)?.abort()
+    controllers.current.delete(id)
+  }, [])
+
+  const cancel = useCallback(
+    (id: string) => {
+      abort(id)
+      dispatch({ type: "cancel", id })
+    },
+    [abort],
+  )
+
+  const retry = useCallback((id: string) => dispatch({ type: "retry", id }), [])
+
+  const remove = useCallback(
+    (id: string) => {
+      abort(id)
+      dispatch({ type: "remove", id })
+    },
+    [abort],
+  )
+
+  const clearFinished = useCallback(() => dispatch({ type: "clearFinished" }), [])
+
+  return { items, add, cancel, retry, remove, clearFinished }
+}
@@ -0,0 +1,32 @@
+/**
+ * Convert a timestamp to the value format of an `<input type="datetime-local">`
+ * (local time, minute precision). Returns "" for undefined.
+ */
+export function toDateTimeLocalValue(timestamp: number | undefined): string {
+  if (timestamp === undefined) return ""
+  const date = new Date(timestamp)
+  const offsetMs = date.getTimezoneOffset() * 60_000
+  return new Date(timestamp - offsetMs).toISOString().slice(0, 16)
+}
+
+/**
+ * Parse the value of an `<input type="datetime-local">` into a timestamp.
+ * Returns null for an empty or invalid value.
+ */
+export function fromDateTimeLocalValue(value: string): number | null {
+  if (!value) return null
+  const timestamp = new Date(value).getTime()
+  return Number.isNaN(timestamp) ? null : timestamp
+}
+
+/**
+ * Format a timestamp for display, e.g. "Mar 4, 2:30 PM".
+ */
+export function formatDateTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  })
+}
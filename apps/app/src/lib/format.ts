@@ -0,0 +1,22 @@
+/**
+ * Format a count that stops at `max`, e.g. "99+" for a max of 100.
+ */
+export function formatCount(count: number, max: number): string {
+  return count >= max ? `${max - 1}+` : String(count)
+}
+
+const BYTE_UNITS = ["B", "KB", "MB", "GB"]
+
+/**
+ * Format a byte count for display, e.g. "1.4 MB".
+ */
+export function formatBytes(bytes: number): string {
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024
+    unit++
+  }
+  const digits = unit === 0 || value >= 10 ? 0 : 1
+  return `${value.toFixed(digits)} ${BYTE_UNITS[unit]}`
+}
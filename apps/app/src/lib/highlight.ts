@@ -0,0 +1,58 @@
+/** A run of text, starting at `start`, that either matches a search term or doesn't */
+export type HighlightPart = { text: string; start: number; match: boolean }
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Build a case-insensitive pattern matching the start of any word that
+ * begins with one of the query's terms, like Convex full-text search does.
+ */
+function termsPattern(query: string): RegExp | null {
+  const terms = query
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(escapeRegExp)
+    .sort((a, b) => b.length - a.length)
+  if (terms.length === 0) return null
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.join("|")})`, "giu")
+}
+
+/**
+ * Split text into matching and non-matching parts for highlighting
+ * @param text - The text to display
+ * @param query - The search query whose terms should be highlighted
+ */
+export function splitHighlights(text: string, query: string): HighlightPart[] {
+  const pattern = termsPattern(query)
+  if (!pattern) return [{ text, start: 0, match: false }]
+
+  const parts: HighlightPart[] = []
+  let last = 0
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0
+    if (start > last) parts.push({ text: text.slice(last, start), start: last, match: false })
+    parts.push({ text: match[0], start, match: true })
+    last = start + match[0].length
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), start: last, match: false })
+  return parts
+}
+
+/**
+ * Cut a long text down to a window around its first match
+ * @param text - The text to shorten
+ * @param query - The search query
+ * @param radius - Characters to keep on either side of the match
+ */
+export function excerptAround(text: string, query: string, radius = 40): string {
+  const pattern = termsPattern(query)
+  const index = pattern ? text.search(pattern) : -1
+  if (index === -1) {
+    return text.length > radius * 2 ? `${text.slice(0, radius * 2)}…` : text
+  }
+  const start = Math.max(0, index - radius)
+  const end = Math.min(text.length, index + radius)
+  return `${start > 0 ? "…" : ""}${text.slice(start, end)}${end < text.length ? "…" : ""}`
+}
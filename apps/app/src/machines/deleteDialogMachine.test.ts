@@ -71,6 +71,7 @@ describe("deleteDialogMachine", () => {
       expect(snapshot.value).toBe("closed")
       expect(snapshot.context.itemId).toBeNull()
       expect(snapshot.context.itemTitle).toBeNull()
+      expect(snapshot.context.subtaskCount).toBe(0)
       expect(snapshot.context.error).toBeNull()
 
       actor.stop()
@@ -95,6 +96,25 @@ describe("deleteDialogMachine", () => {
       actor.stop()
     })
 
+    it("stores the number of subtasks that will be deleted", () => {
+      const actor = createDialogActor().start()
+
+      actor.send({
+        type: "OPEN",
+        itemId: mockTaskId as never,
+        itemTitle: mockTaskTitle,
+        subtaskCount: 3,
+      })
+
+      const snapshot = actor.getSnapshot() as MachineSnapshot
+      expect(snapshot.context.subtaskCount).toBe(3)
+
+      actor.send({ type: "CLOSE" })
+      expect(actor.getSnapshot().context.subtaskCount).toBe(0)
+
+      actor.stop()
+    })
+
     it("clears any previous error when opening", () => {
       const actor = createDialogActor().start()
 
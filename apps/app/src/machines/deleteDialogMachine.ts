@@ -23,12 +23,14 @@ export type DeleteDialogContext = {
   itemId: Id<"tasks"> | null
   /** The title of the item (for display in confirmation) */
   itemTitle: string | null
+  /** Number of subtasks that will be deleted along with the item */
+  subtaskCount: number
   /** Error message if deletion failed */
   error: string | null
 }
 
 export type DeleteDialogEvents =
-  | { type: "OPEN"; itemId: Id<"tasks">; itemTitle: string }
+  | { type: "OPEN"; itemId: Id<"tasks">; itemTitle: string; subtaskCount?: number }
   | { type: "CLOSE" }
   | { type: "CONFIRM" }
   | { type: "RETRY" }
@@ -66,11 +68,16 @@ export const deleteDialogMachine = setup({
         if (event.type === "OPEN") return event.itemTitle
         return null
       },
+      subtaskCount: ({ event }) => {
+        if (event.type === "OPEN") return event.subtaskCount ?? 0
+        return 0
+      },
       error: () => null,
     }),
     clearItem: assign({
       itemId: () => null,
       itemTitle: () => null,
+      subtaskCount: () => 0,
       error: () => null,
     }),
     setError: assign({
@@ -93,6 +100,7 @@ export const deleteDialogMachine = setup({
   context: {
     itemId: null,
     itemTitle: null,
+    subtaskCount: 0,
     error: null,
   },
 
@@ -0,0 +1,109 @@
+import { api } from "convex/_generated/api"
+import { useQuery } from "convex/react"
+import { Copy, Inbox } from "lucide-react"
+import { useState } from "react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { formatDateTime } from "@/lib/datetime"
+
+/** Sign-in codes are 8 digits (see `generateVerificationToken` in convex/auth.ts) */
+const OTP_CODE_PATTERN = /\b\d{8}\b/
+
+/** Must match MAILBOX_SECRET in the Convex dashboard */
+const mailboxSecret = import.meta.env.VITE_MAILBOX_SECRET ?? ""
+
+/**
+ * Dev mailbox page - Email caught by EMAIL_TRANSPORT=mailbox
+ *
+ * Only routed in development builds. Shows the newest messages, with any
+ * sign-in code pulled out so it can be copied or read by end-to-end tests.
+ */
+export default function DevMailbox() {
+  const [to, setTo] = useState("")
+  const messages = useQuery(api.mailbox.list, {
+    secret: mailboxSecret,
+    to: to.trim() || undefined,
+  })
+
+  return (
+    <div className="container mx-auto max-w-2xl py-12">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Inbox className="h-5 w-5" />
+            Dev mailbox
+          </CardTitle>
+          <CardDescription>
+            Email isn't sent while <code>EMAIL_TRANSPORT=mailbox</code>; it lands here instead.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            type="email"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            placeholder="Filter by recipient"
+            aria-label="Filter by recipient"
+          />
+
+          {messages === undefined ? (
+            <p className="text-sm text-muted-foreground">Loading messages...</p>
+          ) : messages === null ? (
+            <p className="text-sm text-muted-foreground">
+              The mailbox is off. Set <code>EMAIL_TRANSPORT=mailbox</code> and{" "}
+              <code>MAILBOX_SECRET</code> in the Convex dashboard, and the same secret as{" "}
+              <code>VITE_MAILBOX_SECRET</code> in <code>.env.local</code>, to catch email here.
+            </p>
+          ) : messages.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No messages yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {messages.map((message) => {
+                const code = message.text.match(OTP_CODE_PATTERN)?.[0]
+                return (
+                  <li
+                    key={message._id}
+                    className="space-y-2 rounded-lg border p-3"
+                    data-testid="mailbox-message"
+                  >
+                    <div className="flex items-center gap-2">
+                      <p className="min-w-0 flex-1 truncate text-sm font-medium">
+                        {message.subject}
+                      </p>
+                      {code && (
+                        <>
+                          <Badge variant="outline" className="font-mono" data-testid="otp-code">
+                            {code}
+                          </Badge>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            aria-label="Copy code"
+                            onClick={async () => {
+                              await navigator.clipboard.writeText(code)
+                              toast.success("Code copied")
+                            }}
+                          >
+                            <Copy className="h-3.5 w-3.5" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      To {message.to} · {formatDateTime(message.createdAt)}
+                    </p>
+                    <pre className="whitespace-pre-wrap text-xs">{message.text}</pre>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,21 +1,34 @@
 import { api } from "convex/_generated/api"
-import type { Doc } from "convex/_generated/dataModel"
-import { useMutation, useQuery } from "convex/react"
-import { Trash2 } from "lucide-react"
+import type { Id } from "convex/_generated/dataModel"
+import { useMutation, usePaginatedQuery, useQuery } from "convex/react"
 import { useState } from "react"
+import { useParams } from "react-router-dom"
 import {
   AlertDialog,
   AlertDialogContent,
-  AlertDialogDescription,
   AlertDialogFooter,
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Checkbox } from "@/components/ui/checkbox"
+import { EditableText } from "@/components/ui/editable-text"
 import { Input } from "@/components/ui/input"
-import { useDeleteTaskDialog } from "@/features/tasks"
+import { LabelFilter, type LabelMatch } from "@/features/labels"
+import { PROJECT_NAME_MAX_LENGTH } from "@/features/projects"
+import {
+  DeleteTaskDescription,
+  SortableTaskList,
+  TASK_TITLE_MAX_LENGTH,
+  TaskItem,
+  type TaskStatus,
+  TaskStatusTabs,
+  useDeleteTaskDialog,
+} from "@/features/tasks"
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll"
+
+/** Number of tasks fetched per page */
+const TASKS_PAGE_SIZE = 25
 
 /**
  * Home page - demonstrates basic CRUD operations with Convex
@@ -24,12 +37,36 @@ import { useDeleteTaskDialog } from "@/features/tasks"
  * - XState manages the UI workflow (dialog open/close, loading, error states)
  * - Convex owns the server state (queries and mutations)
  * - The delete button triggers the XState machine instead of calling the mutation directly
+ *
+ * Under `/projects/:projectId` it lists only that project's tasks, and new
+ * tasks are added to the project. Filtering by labels switches to
+ * `tasks.listByLabels`, which also includes matching subtasks.
  */
 export default function Home() {
+  const projectId = useParams().projectId as Id<"projects"> | undefined
+  const project = useQuery(api.projects.get, projectId ? { id: projectId } : "skip")
+  const updateProject = useMutation(api.projects.update)
   const [newTaskTitle, setNewTaskTitle] = useState("")
-  const tasks = useQuery(api.tasks.list)
+  const [status, setStatus] = useState<TaskStatus>("all")
+  const [labelIds, setLabelIds] = useState<Id<"labels">[]>([])
+  const [labelMatch, setLabelMatch] = useState<LabelMatch>("any")
+  const {
+    results: tasks,
+    status: pageStatus,
+    loadMore,
+  } = usePaginatedQuery(api.tasks.list, { status, projectId }, { initialNumItems: TASKS_PAGE_SIZE })
+  const labelledTasks = useQuery(
+    api.tasks.listByLabels,
+    labelIds.length > 0 ? { labelIds, match: labelMatch, projectId } : "skip",
+  )
+  const filteredLabelledTasks = labelledTasks?.filter(
+    (task) => status === "all" || task.completed === (status === "completed"),
+  )
+  const loadMoreRef = useInfiniteScroll(
+    () => loadMore(TASKS_PAGE_SIZE),
+    pageStatus === "CanLoadMore",
+  )
   const createTask = useMutation(api.tasks.create)
-  const toggleTask = useMutation(api.tasks.toggle)
 
   // Use the XState-powered delete dialog
   const deleteDialog = useDeleteTaskDialog()
@@ -38,7 +75,7 @@ export default function Home() {
     e.preventDefault()
     if (!newTaskTitle.trim()) return
 
-    await createTask({ title: newTaskTitle })
+    await createTask({ title: newTaskTitle, projectId })
     setNewTaskTitle("")
   }
 
@@ -46,7 +83,23 @@ export default function Home() {
     <div className="container mx-auto max-w-2xl py-12">
       <Card>
         <CardHeader>
-          <CardTitle>Task List</CardTitle>
+          {project ? (
+            <CardTitle className="flex items-center gap-2">
+              <span
+                className="h-3 w-3 shrink-0 rounded-full"
+                style={{ backgroundColor: project.color }}
+              />
+              <EditableText
+                value={project.name}
+                onSave={async (name) => {
+                  await updateProject({ id: project._id, name })
+                }}
+                maxLength={PROJECT_NAME_MAX_LENGTH}
+              />
+            </CardTitle>
+          ) : (
+            <CardTitle>{projectId ? "Loading project..." : "Task List"}</CardTitle>
+          )}
         </CardHeader>
         <CardContent className="space-y-4">
           <form onSubmit={handleCreateTask} className="flex gap-2">
@@ -55,40 +108,57 @@ export default function Home() {
               placeholder="Add a new task..."
               value={newTaskTitle}
               onChange={(e) => setNewTaskTitle(e.target.value)}
+              maxLength={TASK_TITLE_MAX_LENGTH}
             />
             <Button type="submit">Add</Button>
           </form>
 
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <TaskStatusTabs value={status} onValueChange={setStatus} projectId={projectId} />
+            <LabelFilter
+              value={labelIds}
+              onValueChange={setLabelIds}
+              match={labelMatch}
+              onMatchChange={setLabelMatch}
+            />
+          </div>
+
           <div className="space-y-2">
-            {tasks === undefined ? (
+            {labelIds.length > 0 ? (
+              filteredLabelledTasks === undefined ? (
+                <p className="text-sm text-muted-foreground">Loading tasks...</p>
+              ) : filteredLabelledTasks.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No tasks match these labels.</p>
+              ) : (
+                filteredLabelledTasks.map((task) => (
+                  <TaskItem key={task._id} task={task} onDelete={deleteDialog.openDialog} />
+                ))
+              )
+            ) : pageStatus === "LoadingFirstPage" ? (
               <p className="text-sm text-muted-foreground">Loading tasks...</p>
             ) : tasks.length === 0 ? (
-              <p className="text-sm text-muted-foreground">No tasks yet. Create one above!</p>
+              <p className="text-sm text-muted-foreground">
+                {status === "all" ? "No tasks yet. Create one above!" : `No ${status} tasks.`}
+              </p>
             ) : (
-              tasks.map((task: Doc<"tasks">) => (
-                <div key={task._id} className="flex items-center gap-2 rounded-lg border p-3">
-                  <Checkbox
-                    checked={task.completed}
-                    onCheckedChange={() => toggleTask({ id: task._id })}
-                  />
-                  <span
-                    className={`flex-1 ${
-                      task.completed ? "line-through text-muted-foreground" : ""
-                    }`}
-                  >
-                    {task.title}
-                  </span>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => deleteDialog.openDialog(task._id, task.title)}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
-              ))
+              <SortableTaskList tasks={tasks} onDelete={deleteDialog.openDialog} />
             )}
           </div>
+
+          {/* Infinite scroll sentinel, with a button fallback */}
+          {labelIds.length === 0 &&
+            pageStatus !== "LoadingFirstPage" &&
+            pageStatus !== "Exhausted" && (
+              <div ref={loadMoreRef} className="flex justify-center">
+                <Button
+                  variant="outline"
+                  onClick={() => loadMore(TASKS_PAGE_SIZE)}
+                  disabled={pageStatus === "LoadingMore"}
+                >
+                  {pageStatus === "LoadingMore" ? "Loading..." : "Load more"}
+                </Button>
+              </div>
+            )}
         </CardContent>
       </Card>
 
@@ -104,13 +174,10 @@ export default function Home() {
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Task</AlertDialogTitle>
-            <AlertDialogDescription>
-              Are you sure you want to delete{" "}
-              <span className="font-medium text-foreground">
-                &ldquo;{deleteDialog.itemTitle}&rdquo;
-              </span>
-              ? This action cannot be undone.
-            </AlertDialogDescription>
+            <DeleteTaskDescription
+              itemTitle={deleteDialog.itemTitle}
+              subtaskCount={deleteDialog.subtaskCount}
+            />
           </AlertDialogHeader>
 
           {deleteDialog.hasError && deleteDialog.error && (
@@ -0,0 +1,29 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { StorageUsageMeter } from "@/features/storage"
+import { ApiTokensCard } from "@/features/tokens"
+import { WebhooksCard } from "@/features/webhooks"
+
+/**
+ * Settings page - Account-wide settings and usage
+ */
+export default function Settings() {
+  return (
+    <div className="container mx-auto max-w-2xl space-y-4 py-12">
+      <h1 className="text-2xl font-semibold">Settings</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Storage</CardTitle>
+          <CardDescription>Space used by files you have uploaded.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <StorageUsageMeter />
+        </CardContent>
+      </Card>
+
+      <ApiTokensCard />
+
+      <WebhooksCard />
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+import { api } from "convex/_generated/api"
+import type { Id } from "convex/_generated/dataModel"
+import { useQuery } from "convex/react"
+import { ArrowLeft, CornerLeftUp } from "lucide-react"
+import { useRef } from "react"
+import { Link, useParams } from "react-router-dom"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { AttachmentArea } from "@/features/attachments"
+import { CommentThread } from "@/features/comments"
+import { DeleteTaskDialog, TaskItem } from "@/features/tasks"
+
+type OpenDeleteDialog = (taskId: Id<"tasks">, taskTitle: string, subtaskCount?: number) => void
+
+/**
+ * TaskDetail page - A single task with its details expanded, its
+ * attachments and its comment thread
+ *
+ * Search results link here. Subtasks link back up to their parent.
+ */
+export default function TaskDetail() {
+  const taskId = useParams().taskId as Id<"tasks">
+  const task = useQuery(api.tasks.get, { id: taskId })
+  const openDeleteDialog = useRef<OpenDeleteDialog>()
+
+  const backTo = task?.projectId ? `/projects/${task.projectId}` : "/"
+
+  return (
+    <div className="container mx-auto max-w-2xl space-y-4 py-12">
+      <div className="flex items-center gap-2">
+        <Button asChild variant="ghost" size="sm">
+          <Link to={backTo}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to tasks
+          </Link>
+        </Button>
+        {task?.parentId && (
+          <Button asChild variant="ghost" size="sm">
+            <Link to={`/tasks/${task.parentId}`}>
+              <CornerLeftUp className="mr-2 h-4 w-4" />
+              Parent task
+            </Link>
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Task</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {task === undefined ? (
+            <p className="text-sm text-muted-foreground">Loading task...</p>
+          ) : task === null ? (
+            <p className="text-sm text-muted-foreground">This task no longer exists.</p>
+          ) : (
+            <TaskItem
+              key={task._id}
+              task={task}
+              defaultExpanded
+              showPageLink={false}
+              onDelete={(...args) => openDeleteDialog.current?.(...args)}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      {task && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Attachments</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <AttachmentArea taskId={task._id} />
+          </CardContent>
+        </Card>
+      )}
+
+      {task && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Comments</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CommentThread taskId={task._id} />
+          </CardContent>
+        </Card>
+      )}
+
+      <DeleteTaskDialog
+        onOpenRequest={(openDialog) => {
+          openDeleteDialog.current = openDialog
+        }}
+      />
+    </div>
+  )
+}
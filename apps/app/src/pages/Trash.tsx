@@ -0,0 +1,134 @@
+import { api } from "convex/_generated/api"
+import { useMutation, useQuery } from "convex/react"
+import type { FunctionReturnType } from "convex/server"
+import { ListTree, RotateCcw, Trash2 } from "lucide-react"
+import { useState } from "react"
+import { toast } from "sonner"
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { formatDateTime } from "@/lib/datetime"
+
+type TrashedTask = FunctionReturnType<typeof api.tasks.trash>[number]
+
+/**
+ * Trash page - Deleted tasks, which can be restored or permanently deleted
+ *
+ * Tasks left in the trash are purged automatically once the retention
+ * period configured on the server has passed.
+ */
+export default function Trash() {
+  const tasks = useQuery(api.tasks.trash)
+  const restoreTask = useMutation(api.tasks.restore)
+  const purgeTask = useMutation(api.tasks.purge)
+  const [purging, setPurging] = useState<TrashedTask | null>(null)
+  const [isPurging, setIsPurging] = useState(false)
+
+  const handleRestore = async (task: TrashedTask) => {
+    try {
+      await restoreTask({ id: task._id })
+      toast.success(`Restored "${task.title}"`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not restore task")
+    }
+  }
+
+  const handlePurge = async () => {
+    if (!purging) return
+    setIsPurging(true)
+    try {
+      await purgeTask({ id: purging._id })
+      setPurging(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not delete task")
+    } finally {
+      setIsPurging(false)
+    }
+  }
+
+  return (
+    <div className="container mx-auto max-w-2xl py-12">
+      <Card>
+        <CardHeader>
+          <CardTitle>Trash</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {tasks === undefined ? (
+            <p className="text-sm text-muted-foreground">Loading trash...</p>
+          ) : tasks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">The trash is empty.</p>
+          ) : (
+            tasks.map((task) => (
+              <div key={task._id} className="flex items-center gap-2 rounded-lg border p-3">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate">{task.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Deleted {formatDateTime(task.deletedAt ?? task._creationTime)} · Permanently
+                    deleted {formatDateTime(task.purgeAt)}
+                  </p>
+                </div>
+                {task.subtaskCount > 0 && (
+                  <Badge variant="outline" className="shrink-0">
+                    <ListTree className="mr-1 h-3 w-3" />
+                    {task.subtaskCount}
+                  </Badge>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => handleRestore(task)}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Restore
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Delete permanently"
+                  onClick={() => setPurging(task)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog
+        open={purging !== null}
+        onOpenChange={(open) => {
+          if (!open && !isPurging) {
+            setPurging(null)
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Permanently</AlertDialogTitle>
+            <AlertDialogDescription>
+              Permanently delete{" "}
+              <span className="font-medium text-foreground">&ldquo;{purging?.title}&rdquo;</span>
+              {purging &&
+                purging.subtaskCount > 0 &&
+                ` and its ${purging.subtaskCount} ${purging.subtaskCount === 1 ? "subtask" : "subtasks"}`}
+              ? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <Button variant="outline" onClick={() => setPurging(null)} disabled={isPurging}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handlePurge} disabled={isPurging}>
+              {isPurging ? "Deleting..." : "Delete"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 interface ImportMetaEnv {
   readonly VITE_CONVEX_URL: string
   readonly VITE_CLERK_PUBLISHABLE_KEY: string
+  readonly VITE_MAILBOX_SECRET?: string
 }
 
 interface ImportMeta {
@@ -8,12 +8,50 @@
  * @module
  */
 
+import type * as apiTokens from "../apiTokens.js";
+import type * as attachments from "../attachments.js";
 import type * as auth from "../auth.js";
+import type * as comments from "../comments.js";
+import type * as crons from "../crons.js";
 import type * as http from "../http.js";
+import type * as imageProcessing from "../imageProcessing.js";
+import type * as jobs from "../jobs.js";
+import type * as labels from "../labels.js";
+import type * as lib_apiTokens from "../lib/apiTokens.js";
+import type * as lib_attachments from "../lib/attachments.js";
 import type * as lib_auth from "../lib/auth.js";
+import type * as lib_colors from "../lib/colors.js";
+import type * as lib_comments from "../lib/comments.js";
+import type * as lib_email from "../lib/email.js";
+import type * as lib_files from "../lib/files.js";
+import type * as lib_fractionalIndex from "../lib/fractionalIndex.js";
+import type * as lib_httpApi from "../lib/httpApi.js";
+import type * as lib_jobs from "../lib/jobs.js";
+import type * as lib_labels from "../lib/labels.js";
+import type * as lib_openApi from "../lib/openApi.js";
+import type * as lib_projects from "../lib/projects.js";
+import type * as lib_recurrence from "../lib/recurrence.js";
+import type * as lib_reminders from "../lib/reminders.js";
+import type * as lib_restApi from "../lib/restApi.js";
+import type * as lib_rrule from "../lib/rrule.js";
+import type * as lib_shareLinks from "../lib/shareLinks.js";
+import type * as lib_signing from "../lib/signing.js";
+import type * as lib_subtasks from "../lib/subtasks.js";
+import type * as lib_thumbnails from "../lib/thumbnails.js";
+import type * as lib_trash from "../lib/trash.js";
+import type * as lib_uploads from "../lib/uploads.js";
+import type * as lib_validation from "../lib/validation.js";
+import type * as lib_webhooks from "../lib/webhooks.js";
+import type * as mailbox from "../mailbox.js";
+import type * as notifications from "../notifications.js";
+import type * as projects from "../projects.js";
+import type * as reminders from "../reminders.js";
+import type * as shareLinks from "../shareLinks.js";
 import type * as storage from "../storage.js";
 import type * as tasks from "../tasks.js";
+import type * as thumbnails from "../thumbnails.js";
 import type * as users from "../users.js";
+import type * as webhooks from "../webhooks.js";
 
 import type {
   ApiFromModules,
@@ -22,12 +60,50 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  apiTokens: typeof apiTokens;
+  attachments: typeof attachments;
   auth: typeof auth;
+  comments: typeof comments;
+  crons: typeof crons;
   http: typeof http;
+  imageProcessing: typeof imageProcessing;
+  jobs: typeof jobs;
+  labels: typeof labels;
+  "lib/apiTokens": typeof lib_apiTokens;
+  "lib/attachments": typeof lib_attachments;
   "lib/auth": typeof lib_auth;
+  "lib/colors": typeof lib_colors;
+  "lib/comments": typeof lib_comments;
+  "lib/email": typeof lib_email;
+  "lib/files": typeof lib_files;
+  "lib/fractionalIndex": typeof lib_fractionalIndex;
+  "lib/httpApi": typeof lib_httpApi;
+  "lib/jobs": typeof lib_jobs;
+  "lib/labels": typeof lib_labels;
+  "lib/openApi": typeof lib_openApi;
+  "lib/projects": typeof lib_projects;
+  "lib/recurrence": typeof lib_recurrence;
+  "lib/reminders": typeof lib_reminders;
+  "lib/restApi": typeof lib_restApi;
+  "lib/rrule": typeof lib_rrule;
+  "lib/shareLinks": typeof lib_shareLinks;
+  "lib/signing": typeof lib_signing;
+  "lib/subtasks": typeof lib_subtasks;
+  "lib/thumbnails": typeof lib_thumbnails;
+  "lib/trash": typeof lib_trash;
+  "lib/uploads": typeof lib_uploads;
+  "lib/validation": typeof lib_validation;
+  "lib/webhooks": typeof lib_webhooks;
+  mailbox: typeof mailbox;
+  notifications: typeof notifications;
+  projects: typeof projects;
+  reminders: typeof reminders;
+  shareLinks: typeof shareLinks;
   storage: typeof storage;
   tasks: typeof tasks;
+  thumbnails: typeof thumbnails;
   users: typeof users;
+  webhooks: typeof webhooks;
 }>;
 
 /**
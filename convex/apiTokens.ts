@@ -0,0 +1,180 @@
+import { v } from "convex/values";
+import {
+  query,
+  mutation,
+  action,
+  internalMutation,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { getAuthUserId } from "./lib/auth";
+import {
+  apiTokenScopeValidator,
+  generateApiToken,
+  MAX_API_TOKEN_DAYS,
+  MAX_API_TOKEN_NAME_LENGTH,
+} from "./lib/apiTokens";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How often a token's last-used time is updated, to limit writes. */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * List the current user's API tokens, newest first. Token hashes are
+ * never returned.
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+
+    const tokens = await ctx.db
+      .query("apiTokens")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .order("desc")
+      .collect();
+
+    return tokens.map(({ tokenHash: _tokenHash, ...token }) => token);
+  },
+});
+
+/**
+ * Create an API token. The token is returned only this once; afterwards
+ * only its hash is kept. An action rather than a mutation, since
+ * randomness in mutations isn't cryptographically secure.
+ */
+export const create = action({
+  args: {
+    name: v.string(),
+    scopes: v.array(apiTokenScopeValidator),
+    expiresInDays: v.optional(v.number()),
+  },
+  returns: v.object({ id: v.id("apiTokens"), token: v.string() }),
+  handler: async (ctx, args): Promise<{ id: Id<"apiTokens">; token: string }> => {
+    const userId = await getAuthUserId(ctx);
+    const { token, tokenHash, displayPrefix } = await generateApiToken();
+
+    const id = await ctx.runMutation(internal.apiTokens.insert, {
+      userId,
+      name: args.name,
+      scopes: args.scopes,
+      expiresInDays: args.expiresInDays,
+      tokenHash,
+      displayPrefix,
+    });
+    return { id, token };
+  },
+});
+
+/**
+ * Validate and store a new API token's hash. Called by `create`.
+ */
+export const insert = internalMutation({
+  args: {
+    userId: v.string(),
+    name: v.string(),
+    scopes: v.array(apiTokenScopeValidator),
+    expiresInDays: v.optional(v.number()),
+    tokenHash: v.string(),
+    displayPrefix: v.string(),
+  },
+  returns: v.id("apiTokens"),
+  handler: async (ctx, args) => {
+    const name = args.name.trim();
+    if (name.length === 0) {
+      throw new Error("Token name cannot be empty");
+    }
+    if (name.length > MAX_API_TOKEN_NAME_LENGTH) {
+      throw new Error(
+        `Token name must be at most ${MAX_API_TOKEN_NAME_LENGTH} characters`
+      );
+    }
+    if (args.scopes.length === 0) {
+      throw new Error("Choose at least one scope");
+    }
+    if (
+      args.expiresInDays !== undefined &&
+      !(args.expiresInDays > 0 && args.expiresInDays <= MAX_API_TOKEN_DAYS)
+    ) {
+      throw new Error(`Tokens must expire within ${MAX_API_TOKEN_DAYS} days`);
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert("apiTokens", {
+      userId: args.userId,
+      name,
+      tokenHash: args.tokenHash,
+      displayPrefix: args.displayPrefix,
+      scopes: [...new Set(args.scopes)],
+      createdAt: now,
+      expiresAt:
+        args.expiresInDays === undefined
+          ? undefined
+          : now + Math.round(args.expiresInDays * DAY_MS),
+    });
+  },
+});
+
+/**
+ * Revoke an API token. Requests using it fail immediately.
+ */
+export const revoke = mutation({
+  args: {
+    id: v.id("apiTokens"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    const token = await ctx.db.get(args.id);
+    if (!token) {
+      throw new Error("Token not found");
+    }
+
+    // Verify ownership
+    if (token.userId !== userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await ctx.db.delete(args.id);
+  },
+});
+
+/**
+ * Look up an unexpired API token by its hash and record that it was used.
+ * Returns null for unknown or expired tokens. See `authenticateApiToken`
+ * in lib/auth.ts.
+ */
+export const resolve = internalMutation({
+  args: {
+    tokenHash: v.string(),
+  },
+  returns: v.union(
+    v.object({
+      tokenId: v.id("apiTokens"),
+      userId: v.string(),
+      scopes: v.array(apiTokenScopeValidator),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const token = await ctx.db
+      .query("apiTokens")
+      .withIndex("by_tokenHash", (q) => q.eq("tokenHash", args.tokenHash))
+      .unique();
+
+    const now = Date.now();
+    if (!token || (token.expiresAt !== undefined && token.expiresAt <= now)) {
+      return null;
+    }
+
+    if (
+      token.lastUsedAt === undefined ||
+      now - token.lastUsedAt >= LAST_USED_RESOLUTION_MS
+    ) {
+      await ctx.db.patch(token._id, { lastUsedAt: now });
+    }
+
+    return { tokenId: token._id, userId: token.userId, scopes: token.scopes };
+  },
+});
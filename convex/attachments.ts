@@ -0,0 +1,129 @@
+import { v } from "convex/values";
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { getAuthUserId } from "./lib/auth";
+import { deleteFile, getOwnedFile } from "./lib/files";
+
+/** Maximum length of an attachment's filename, in characters. */
+export const MAX_FILENAME_LENGTH = 255;
+
+/**
+ * Trim and validate an attachment filename.
+ */
+function validateFilename(filename: string): string {
+  const trimmed = filename.trim();
+  if (trimmed.length === 0) {
+    throw new Error("Filename cannot be empty");
+  }
+  if (trimmed.length > MAX_FILENAME_LENGTH) {
+    throw new Error(
+      `Filename must be at most ${MAX_FILENAME_LENGTH} characters`
+    );
+  }
+  return trimmed;
+}
+
+/**
+ * Load a task that attachments can be read or written on.
+ * Throws unless the task exists, isn't trashed and belongs to the user.
+ */
+async function getAttachableTask(
+  ctx: QueryCtx,
+  taskId: Id<"tasks">,
+  userId: string
+) {
+  const task = await ctx.db.get(taskId);
+  if (!task || task.deletedAt !== undefined) {
+    throw new Error("Task not found");
+  }
+
+  // Verify ownership
+  if (task.userId !== userId) {
+    throw new Error("Unauthorized");
+  }
+
+  return task;
+}
+
+/**
+ * List a task's attachments, oldest first, with their download URLs.
+ */
+export const list = query({
+  args: {
+    taskId: v.id("tasks"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    await getAttachableTask(ctx, args.taskId, userId);
+
+    const attachments = await ctx.db
+      .query("taskAttachments")
+      .withIndex("by_task", (q) => q.eq("taskId", args.taskId))
+      .collect();
+
+    return await Promise.all(
+      attachments.map(async (attachment) => ({
+        ...attachment,
+        url: await ctx.storage.getUrl(attachment.storageId),
+      }))
+    );
+  },
+});
+
+/**
+ * Attach a file the current user uploaded to a task. The content type and
+ * size are taken from the file record, not from the client.
+ */
+export const attach = mutation({
+  args: {
+    taskId: v.id("tasks"),
+    storageId: v.id("_storage"),
+    filename: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    await getAttachableTask(ctx, args.taskId, userId);
+
+    const file = await getOwnedFile(ctx, args.storageId, userId);
+
+    // A file can only be attached once, so detaching it can safely delete it
+    const existing = await ctx.db
+      .query("taskAttachments")
+      .withIndex("by_storage", (q) => q.eq("storageId", args.storageId))
+      .first();
+    if (existing) {
+      throw new Error("File is already attached");
+    }
+
+    return await ctx.db.insert("taskAttachments", {
+      userId,
+      taskId: args.taskId,
+      storageId: args.storageId,
+      filename: validateFilename(args.filename),
+      contentType: file.contentType,
+      size: file.size,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Remove an attachment and delete its stored file.
+ */
+export const detach = mutation({
+  args: {
+    id: v.id("taskAttachments"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    const attachment = await ctx.db.get(args.id);
+    if (!attachment) {
+      throw new Error("Attachment not found");
+    }
+    await getAttachableTask(ctx, attachment.taskId, userId);
+
+    await ctx.db.delete(args.id);
+    await deleteFile(ctx, attachment.storageId);
+  },
+});
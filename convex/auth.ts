@@ -6,16 +6,24 @@ import {
 } from "@convex-dev/auth/server";
 import { Email } from "@convex-dev/auth/providers/Email";
 import { ConvexCredentials } from "@convex-dev/auth/providers/ConvexCredentials";
-import { Resend as ResendAPI } from "resend";
 import type { RandomReader } from "@oslojs/crypto/random";
 import { generateRandomString } from "@oslojs/crypto/random";
 import { Scrypt } from "lucia";
+import { ActionCtx } from "./_generated/server";
+import { enqueueJobFromAction } from "./lib/jobs";
+
+/**
+ * Attempts at sending a sign-in code. Retries come within a minute or so,
+ * well before the code expires.
+ */
+const OTP_EMAIL_ATTEMPTS = 3;
 
 /**
  * Custom Resend OTP provider for passwordless email authentication.
  *
- * Uses the official @convex-dev/auth/providers/Email provider with Resend
- * for sending verification codes.
+ * Uses the official @convex-dev/auth/providers/Email provider. Codes are
+ * sent through the configured email transport (Resend in production; see
+ * `lib/email.ts`).
  *
  * Generates 8-digit numeric codes that expire after 15 minutes.
  */
@@ -35,35 +43,39 @@ const ResendOTP = Email({
     return generateRandomString(random, alphabet, length);
   },
 
-  async sendVerificationRequest({ identifier: email, provider, token }) {
-    const resend = new ResendAPI(provider.apiKey);
-    const { error } = await resend.emails.send({
-      from: "Your App <onboarding@resend.dev>",
-      to: [email],
-      subject: "Your verification code",
-      text: `Your verification code is: ${token}\n\nThis code expires in 15 minutes.\n\nIf you didn't request this code, you can safely ignore this email.`,
-      html: `
-        <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 400px; margin: 0 auto; padding: 24px;">
-          <h2 style="margin: 0 0 16px 0; font-size: 24px; font-weight: 600;">Your verification code</h2>
-          <p style="margin: 0 0 24px 0; color: #666; font-size: 14px;">
-            Enter this code to sign in:
-          </p>
-          <div style="background: #f5f5f5; border-radius: 8px; padding: 24px; text-align: center; margin: 0 0 24px 0;">
-            <span style="font-size: 32px; font-weight: bold; letter-spacing: 4px; font-family: monospace;">
-              ${token}
-            </span>
-          </div>
-          <p style="margin: 0; color: #999; font-size: 12px;">
-            This code expires in 15 minutes. If you didn't request this code, you can safely ignore this email.
-          </p>
-        </div>
-      `,
-    });
-
-    if (error) {
-      console.error("Failed to send verification email:", error);
-      throw new Error(`Could not send verification email: ${error.message}`);
+  // Convex Auth passes its action context as a second argument, which the
+  // Auth.js types leave out. The code is sent from the job queue, so a
+  // failed send is retried instead of failing the sign-in.
+  async sendVerificationRequest({ identifier: email, token }, ctx?: ActionCtx) {
+    if (!ctx) {
+      throw new Error("Convex Auth didn't pass an action context");
     }
+    await enqueueJobFromAction(
+      ctx,
+      "sendEmail",
+      {
+        to: email,
+        subject: "Your verification code",
+        text: `Your verification code is: ${token}\n\nThis code expires in 15 minutes.\n\nIf you didn't request this code, you can safely ignore this email.`,
+        html: `
+          <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 400px; margin: 0 auto; padding: 24px;">
+            <h2 style="margin: 0 0 16px 0; font-size: 24px; font-weight: 600;">Your verification code</h2>
+            <p style="margin: 0 0 24px 0; color: #666; font-size: 14px;">
+              Enter this code to sign in:
+            </p>
+            <div style="background: #f5f5f5; border-radius: 8px; padding: 24px; text-align: center; margin: 0 0 24px 0;">
+              <span style="font-size: 32px; font-weight: bold; letter-spacing: 4px; font-family: monospace;">
+                ${token}
+              </span>
+            </div>
+            <p style="margin: 0; color: #999; font-size: 12px;">
+              This code expires in 15 minutes. If you didn't request this code, you can safely ignore this email.
+            </p>
+          </div>
+        `,
+      },
+      { maxAttempts: OTP_EMAIL_ATTEMPTS, sensitive: true }
+    );
   },
 });
 
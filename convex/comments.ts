@@ -0,0 +1,151 @@
+import { v } from "convex/values";
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { getAuthUserId } from "./lib/auth";
+
+/** Maximum length of a comment, in characters. */
+export const MAX_COMMENT_LENGTH = 5000;
+
+/**
+ * Trim and validate a comment body.
+ */
+function validateBody(body: string): string {
+  const trimmed = body.trim();
+  if (trimmed.length === 0) {
+    throw new Error("Comment cannot be empty");
+  }
+  if (trimmed.length > MAX_COMMENT_LENGTH) {
+    throw new Error(
+      `Comment must be at most ${MAX_COMMENT_LENGTH} characters`
+    );
+  }
+  return trimmed;
+}
+
+/**
+ * Load a task that comments can be read or written on.
+ * Throws unless the task exists, isn't trashed and belongs to the user.
+ */
+async function getCommentableTask(
+  ctx: QueryCtx,
+  taskId: Id<"tasks">,
+  userId: string
+) {
+  const task = await ctx.db.get(taskId);
+  if (!task || task.deletedAt !== undefined) {
+    throw new Error("Task not found");
+  }
+
+  // Verify ownership
+  if (task.userId !== userId) {
+    throw new Error("Unauthorized");
+  }
+
+  return task;
+}
+
+/**
+ * List a task's comments, oldest first, with their author's name and
+ * whether the current user may edit them.
+ */
+export const list = query({
+  args: {
+    taskId: v.id("tasks"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    await getCommentableTask(ctx, args.taskId, userId);
+
+    const comments = await ctx.db
+      .query("taskComments")
+      .withIndex("by_task", (q) => q.eq("taskId", args.taskId))
+      .collect();
+
+    return await Promise.all(
+      comments.map(async (comment) => {
+        const authorId = ctx.db.normalizeId("users", comment.authorId);
+        const author = authorId ? await ctx.db.get(authorId) : null;
+        return {
+          ...comment,
+          authorName: author?.name ?? author?.email ?? "Unknown user",
+          canEdit: comment.authorId === userId,
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Add a comment to a task.
+ */
+export const add = mutation({
+  args: {
+    taskId: v.id("tasks"),
+    body: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    await getCommentableTask(ctx, args.taskId, userId);
+
+    return await ctx.db.insert("taskComments", {
+      taskId: args.taskId,
+      authorId: userId,
+      body: validateBody(args.body),
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Edit a comment. Only its author may edit it.
+ */
+export const edit = mutation({
+  args: {
+    id: v.id("taskComments"),
+    body: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    const comment = await ctx.db.get(args.id);
+    if (!comment) {
+      throw new Error("Comment not found");
+    }
+
+    // Only the author may edit a comment
+    if (comment.authorId !== userId) {
+      throw new Error("Unauthorized");
+    }
+    await getCommentableTask(ctx, comment.taskId, userId);
+
+    const body = validateBody(args.body);
+    if (body !== comment.body) {
+      await ctx.db.patch(args.id, { body, editedAt: Date.now() });
+    }
+  },
+});
+
+/**
+ * Delete a comment. Only its author may delete it.
+ */
+export const remove = mutation({
+  args: {
+    id: v.id("taskComments"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    const comment = await ctx.db.get(args.id);
+    if (!comment) {
+      throw new Error("Comment not found");
+    }
+
+    // Only the author may delete a comment
+    if (comment.authorId !== userId) {
+      throw new Error("Unauthorized");
+    }
+    await getCommentableTask(ctx, comment.taskId, userId);
+
+    await ctx.db.delete(args.id);
+  },
+});
@@ -0,0 +1,63 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Permanently delete tasks that have been in the trash for longer than
+// TRASH_RETENTION_DAYS (30 days by default)
+crons.interval(
+  "purge expired trash",
+  { hours: 1 },
+  internal.tasks.purgeExpiredTrash,
+  {}
+);
+
+// Delete uploads that nothing has linked to within a day of uploading
+crons.interval(
+  "collect orphaned uploads",
+  { hours: 6 },
+  internal.storage.collectOrphans,
+  {}
+);
+
+// Forget upload URLs that expired unused
+crons.interval(
+  "prune upload URLs",
+  { hours: 6 },
+  internal.storage.pruneUploadUrls,
+  {}
+);
+
+// Delete expired share links, and the uploads only they kept around
+crons.interval(
+  "prune expired share links",
+  { hours: 24 },
+  internal.shareLinks.pruneExpired,
+  {}
+);
+
+// Trim the webhook delivery log to the last 30 days
+crons.interval(
+  "prune webhook deliveries",
+  { hours: 24 },
+  internal.webhooks.pruneDeliveries,
+  {}
+);
+
+// Retry background jobs whose attempt crashed or timed out
+crons.interval(
+  "recover stalled jobs",
+  { minutes: 5 },
+  internal.jobs.recoverStalled,
+  {}
+);
+
+// Delete succeeded background jobs after 30 days
+crons.interval(
+  "prune finished jobs",
+  { hours: 24 },
+  internal.jobs.pruneJobs,
+  {}
+);
+
+export default crons;
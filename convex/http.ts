@@ -1,6 +1,11 @@
 import { httpRouter } from "convex/server";
 import { httpAction } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { auth } from "./auth";
+import { jsonResponse } from "./lib/httpApi";
+import { buildOpenApiDocument } from "./lib/openApi";
+import { addTaskApiRoutes } from "./lib/restApi";
+import { getShareLinkSecret, parseShareToken } from "./lib/shareLinks";
 
 const http = httpRouter();
 
@@ -22,4 +27,70 @@ http.route({
   }),
 });
 
+/**
+ * Serve a file through a share link: `/files/<token>`.
+ * Tampered or revoked links get a 404; expired or used-up links a 410,
+ * and every link a 503 while SHARE_LINK_SECRET isn't set.
+ * Files are always sent as downloads, never shown inline.
+ */
+http.route({
+  pathPrefix: "/files/",
+  method: "GET",
+  handler: httpAction(async (ctx, request) => {
+    // Checked here so a missing secret isn't a 500
+    if (!process.env.SHARE_LINK_SECRET) {
+      return new Response("File sharing is not configured", { status: 503 });
+    }
+
+    const token = new URL(request.url).pathname.slice("/files/".length);
+    const parsed = await parseShareToken(token, getShareLinkSecret());
+    if (!parsed) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const result = await ctx.runMutation(internal.shareLinks.redeem, parsed);
+    if (!result.ok) {
+      return result.reason === "gone"
+        ? new Response("This link has expired", { status: 410 })
+        : new Response("Not found", { status: 404 });
+    }
+
+    const blob = await ctx.storage.get(result.storageId);
+    if (!blob) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    // Shared files are user content on the same origin as the auth and API
+    // routes, so they are always downloaded and never rendered: an HTML or
+    // SVG file must not run as a page here
+    const filename = encodeURIComponent(result.filename ?? "download");
+    const headers = new Headers({
+      "Content-Type": blob.type || "application/octet-stream",
+      "Content-Disposition": `attachment; filename*=UTF-8''${filename}`,
+      "X-Content-Type-Options": "nosniff",
+      "Content-Security-Policy": "sandbox",
+      "Cache-Control": "private, no-store",
+    });
+    return new Response(blob, { status: 200, headers });
+  }),
+});
+
+/**
+ * Task REST API at `/api/v1/tasks`, authenticated with personal API
+ * tokens. See `lib/restApi.ts` for the routes.
+ */
+addTaskApiRoutes(http);
+
+/**
+ * OpenAPI 3.1 description of the routes above, built from the validators
+ * the API checks requests and responses with. See `lib/openApi.ts`.
+ */
+http.route({
+  path: "/api/openapi.json",
+  method: "GET",
+  handler: httpAction(async (_ctx, request) =>
+    jsonResponse(request, buildOpenApiDocument(process.env.CONVEX_SITE_URL))
+  ),
+});
+
 export default http;
@@ -0,0 +1,101 @@
+"use node";
+
+import { v } from "convex/values";
+import jpeg from "jpeg-js";
+import UPNG from "upng-js";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import {
+  fitWithin,
+  readPngSize,
+  resizeRgba,
+  THUMBNAIL_SIZES,
+  ThumbnailSize,
+} from "./lib/thumbnails";
+
+/** Largest image decoded for thumbnails, in megapixels. */
+const MAX_SOURCE_MEGAPIXELS = 50;
+
+const JPEG_QUALITY = 80;
+
+type Rgba = { data: Uint8Array; width: number; height: number };
+
+function decode(bytes: Uint8Array, contentType: string): Rgba {
+  if (contentType === "image/png") {
+    // Checked before decoding, which allocates the full-size pixel buffer
+    const size = readPngSize(bytes);
+    if (!size) {
+      throw new Error("Image is not a valid PNG");
+    }
+    if (size.width * size.height > MAX_SOURCE_MEGAPIXELS * 1_000_000) {
+      throw new Error("Image is too large to generate thumbnails for");
+    }
+    const image = UPNG.decode(bytes.buffer as ArrayBuffer);
+    // The first frame, for animated PNGs
+    const [frame] = UPNG.toRGBA8(image);
+    return { data: new Uint8Array(frame), width: image.width, height: image.height };
+  }
+  return jpeg.decode(bytes, {
+    useTArray: true,
+    maxResolutionInMP: MAX_SOURCE_MEGAPIXELS,
+  });
+}
+
+function encode(image: Rgba, contentType: string): Uint8Array<ArrayBuffer> {
+  if (contentType === "image/png") {
+    const buffer = image.data.buffer.slice(
+      image.data.byteOffset,
+      image.data.byteOffset + image.data.byteLength
+    ) as ArrayBuffer;
+    return new Uint8Array(UPNG.encode([buffer], image.width, image.height, 0));
+  }
+  return new Uint8Array(jpeg.encode(image, JPEG_QUALITY).data);
+}
+
+/**
+ * Generate the small and medium thumbnails of an uploaded JPEG or PNG in
+ * pure JS and store them next to the original. Sizes the image already
+ * fits within are skipped, since the original serves them just as well.
+ */
+export const generateThumbnails = internalAction({
+  args: {
+    storageId: v.id("_storage"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const blob = await ctx.storage.get(args.storageId);
+    if (!blob) {
+      return null;
+    }
+
+    const contentType = blob.type;
+    const source = decode(new Uint8Array(await blob.arrayBuffer()), contentType);
+
+    const thumbnails = [];
+    for (const [size, max] of Object.entries(THUMBNAIL_SIZES)) {
+      const target = fitWithin(source.width, source.height, max);
+      if (!target) continue;
+
+      const data = resizeRgba(
+        source.data,
+        source.width,
+        source.height,
+        target.width,
+        target.height
+      );
+      const bytes = encode({ data, ...target }, contentType);
+      const storageId = await ctx.storage.store(
+        new Blob([bytes], { type: contentType })
+      );
+      thumbnails.push({ size: size as ThumbnailSize, storageId, ...target });
+    }
+
+    await ctx.runMutation(internal.thumbnails.save, {
+      sourceId: args.storageId,
+      width: source.width,
+      height: source.height,
+      thumbnails,
+    });
+    return null;
+  },
+});
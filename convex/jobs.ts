@@ -0,0 +1,286 @@
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import {
+  query,
+  mutation,
+  internalAction,
+  internalMutation,
+  ActionCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { requireAdmin } from "./lib/auth";
+import { sendEmail } from "./lib/email";
+import {
+  enqueueJob,
+  JobArgs,
+  JobKind,
+  jobKinds,
+  jobKindValidator,
+  recordJobFailure,
+  recoverStalledJobs,
+  requeueJob,
+} from "./lib/jobs";
+import { validateJson } from "./lib/validation";
+import { MAX_WEBHOOK_ERROR_LENGTH, sendWebhook } from "./lib/webhooks";
+
+/** How long succeeded jobs are kept, which is how long keys stay unique. */
+const JOB_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Jobs handled per run of the maintenance mutations. */
+const BATCH_SIZE = 100;
+
+/** Most jobs `requeue` takes at once. */
+const MAX_REQUEUE = 100;
+
+/**
+ * What each kind of job does. A handler fails by throwing; the job is then
+ * retried, so handlers must be safe to run more than once.
+ */
+const handlers: {
+  [K in JobKind]: (ctx: ActionCtx, args: JobArgs<K>) => Promise<void>;
+} = {
+  sendEmail: async (ctx, args) => {
+    await sendEmail(ctx, args);
+  },
+  deliverWebhook: async (ctx, args) => {
+    const delivery = await ctx.runQuery(internal.webhooks.getDelivery, args);
+    if (!delivery) {
+      return;
+    }
+
+    const attempt = await sendWebhook({
+      ...delivery,
+      deliveryId: args.deliveryId,
+    });
+    const error = attempt.ok
+      ? undefined
+      : attempt.error.slice(0, MAX_WEBHOOK_ERROR_LENGTH);
+    await ctx.runMutation(internal.webhooks.recordAttempt, {
+      deliveryId: args.deliveryId,
+      ok: attempt.ok,
+      responseStatus: attempt.status,
+      error,
+    });
+    if (error !== undefined) {
+      // Retried by the queue
+      throw new Error(error);
+    }
+  },
+};
+
+/**
+ * Enqueue a job on behalf of an action. Prefer `enqueueJobFromAction` in
+ * lib/jobs.ts, which checks the arguments' types.
+ */
+export const enqueue = internalMutation({
+  args: {
+    kind: jobKindValidator,
+    args: v.any(),
+    idempotencyKey: v.optional(v.string()),
+    delayMs: v.optional(v.number()),
+    maxAttempts: v.optional(v.number()),
+    sensitive: v.optional(v.boolean()),
+  },
+  returns: v.id("jobs"),
+  handler: async (ctx, { kind, args, ...options }) => {
+    const { issues } = validateJson(jobKinds[kind], args);
+    if (issues.length > 0) {
+      const problems = issues.map((issue) => `${issue.path} ${issue.message}`);
+      throw new Error(`Invalid ${kind} job: ${problems.join(", ")}`);
+    }
+    return await enqueueJob(ctx, kind, args, options);
+  },
+});
+
+/**
+ * Mark a due job as running and count the attempt. Returns null if the
+ * job isn't pending, e.g. because another run already claimed it.
+ */
+export const claim = internalMutation({
+  args: {
+    jobId: v.id("jobs"),
+  },
+  returns: v.union(
+    v.object({ kind: jobKindValidator, args: v.any() }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || job.status !== "pending") {
+      return null;
+    }
+
+    await ctx.db.patch(job._id, {
+      status: "running",
+      attempts: job.attempts + 1,
+      updatedAt: Date.now(),
+    });
+    return { kind: job.kind, args: job.args };
+  },
+});
+
+/**
+ * Record how a claimed job's attempt went. Arguments are dropped once a
+ * job succeeds, since they can hold secrets such as sign-in codes.
+ */
+export const finish = internalMutation({
+  args: {
+    jobId: v.id("jobs"),
+    error: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || job.status !== "running") {
+      return null;
+    }
+
+    if (args.error === undefined) {
+      await ctx.db.patch(job._id, {
+        status: "succeeded",
+        args: null,
+        lastError: undefined,
+        updatedAt: Date.now(),
+      });
+    } else {
+      await recordJobFailure(ctx, job, args.error);
+    }
+    return null;
+  },
+});
+
+/**
+ * Run one attempt of a job. Scheduled by `enqueueJob`, by retries and by
+ * `requeue`.
+ */
+export const run = internalAction({
+  args: {
+    jobId: v.id("jobs"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const job = await ctx.runMutation(internal.jobs.claim, args);
+    if (!job) {
+      return null;
+    }
+
+    let error: string | undefined;
+    try {
+      const handler = handlers[job.kind] as (
+        ctx: ActionCtx,
+        args: unknown
+      ) => Promise<void>;
+      await handler(ctx, job.args);
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+
+    await ctx.runMutation(internal.jobs.finish, { jobId: args.jobId, error });
+    return null;
+  },
+});
+
+/**
+ * Count jobs that have been running for too long as failed attempts, so
+ * an action that crashed or timed out is retried rather than lost. Runs
+ * from `crons.ts`.
+ */
+export const recoverStalled = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const recovered = await recoverStalledJobs(ctx, BATCH_SIZE);
+    if (recovered === BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.jobs.recoverStalled, {});
+    }
+    return null;
+  },
+});
+
+/**
+ * Delete succeeded jobs older than 30 days. Runs from `crons.ts`; works in
+ * batches and schedules itself again until none are left. Failed jobs are
+ * kept until they are requeued.
+ */
+export const pruneJobs = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("jobs")
+      .withIndex("by_status_and_updatedAt", (q) =>
+        q
+          .eq("status", "succeeded")
+          .lt("updatedAt", Date.now() - JOB_RETENTION_MS)
+      )
+      .take(BATCH_SIZE);
+
+    for (const job of expired) {
+      await ctx.db.delete(job._id);
+    }
+
+    if (expired.length === BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.jobs.pruneJobs, {});
+    }
+    return null;
+  },
+});
+
+/**
+ * List dead-lettered jobs, most recently failed first. Admins only (see
+ * `requireAdmin`). Arguments are left out, since they can hold personal
+ * data such as email addresses.
+ */
+export const listFailed = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    const result = await ctx.db
+      .query("jobs")
+      .withIndex("by_status_and_updatedAt", (q) => q.eq("status", "failed"))
+      .order("desc")
+      .paginate(args.paginationOpts);
+
+    return {
+      ...result,
+      page: result.page.map((job) => ({
+        _id: job._id,
+        kind: job.kind,
+        attempts: job.attempts,
+        lastError: job.lastError,
+        updatedAt: job.updatedAt,
+        requeueable: !job.sensitive,
+      })),
+    };
+  },
+});
+
+/**
+ * Put dead-lettered jobs back in the queue with a fresh set of attempts.
+ * Jobs that aren't failed, or whose arguments were dropped, are skipped.
+ * Admins only. Returns the number of jobs requeued.
+ */
+export const requeue = mutation({
+  args: {
+    ids: v.array(v.id("jobs")),
+  },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    if (args.ids.length > MAX_REQUEUE) {
+      throw new Error(`Requeue at most ${MAX_REQUEUE} jobs at once`);
+    }
+
+    let requeued = 0;
+    for (const id of new Set(args.ids)) {
+      const job = await ctx.db.get(id);
+      if (job && (await requeueJob(ctx, job))) {
+        requeued++;
+      }
+    }
+    return requeued;
+  },
+});
@@ -0,0 +1,197 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import { getAuthUserId } from "./lib/auth";
+import { validateColor } from "./lib/colors";
+import { getOwnedLabel } from "./lib/labels";
+
+/** Maximum length of a label name, in characters. */
+export const MAX_LABEL_NAME_LENGTH = 40;
+
+/** Colour given to labels created without one. */
+const DEFAULT_LABEL_COLOR = "#64748b";
+
+/**
+ * Trim and validate a label name.
+ */
+function validateName(name: string): string {
+  const trimmed = name.trim();
+  if (trimmed.length === 0) {
+    throw new Error("Label name cannot be empty");
+  }
+  if (trimmed.length > MAX_LABEL_NAME_LENGTH) {
+    throw new Error(
+      `Label name must be at most ${MAX_LABEL_NAME_LENGTH} characters`
+    );
+  }
+  return trimmed;
+}
+
+/**
+ * List the current user's labels, sorted by name.
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+
+    const labels = await ctx.db
+      .query("labels")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    return labels.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+/**
+ * Create a new label. Label names are unique per user.
+ */
+export const create = mutation({
+  args: {
+    name: v.string(),
+    color: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const name = validateName(args.name);
+
+    const existing = await ctx.db
+      .query("labels")
+      .withIndex("by_user_and_name", (q) =>
+        q.eq("userId", userId).eq("name", name)
+      )
+      .first();
+    if (existing) {
+      throw new Error(`A label named "${name}" already exists`);
+    }
+
+    return await ctx.db.insert("labels", {
+      userId,
+      name,
+      color: validateColor(args.color ?? DEFAULT_LABEL_COLOR),
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Rename or recolour a label. Omitted fields are left unchanged.
+ */
+export const update = mutation({
+  args: {
+    id: v.id("labels"),
+    name: v.optional(v.string()),
+    color: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const label = await getOwnedLabel(ctx, args.id, userId);
+
+    const updates: { name?: string; color?: string } = {};
+    if (args.name !== undefined) {
+      const name = validateName(args.name);
+      const existing = await ctx.db
+        .query("labels")
+        .withIndex("by_user_and_name", (q) =>
+          q.eq("userId", userId).eq("name", name)
+        )
+        .first();
+      if (existing && existing._id !== label._id) {
+        throw new Error(`A label named "${name}" already exists`);
+      }
+      updates.name = name;
+    }
+    if (args.color !== undefined) {
+      updates.color = validateColor(args.color);
+    }
+
+    await ctx.db.patch(args.id, updates);
+  },
+});
+
+/**
+ * Delete a label and detach it from all of its tasks.
+ */
+export const remove = mutation({
+  args: {
+    id: v.id("labels"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    await getOwnedLabel(ctx, args.id, userId);
+
+    const links = await ctx.db
+      .query("taskLabels")
+      .withIndex("by_label", (q) => q.eq("labelId", args.id))
+      .collect();
+    for (const link of links) {
+      await ctx.db.delete(link._id);
+    }
+
+    await ctx.db.delete(args.id);
+  },
+});
+
+/**
+ * Attach a label to a task. Attaching a label twice is a no-op.
+ */
+export const attach = mutation({
+  args: {
+    taskId: v.id("tasks"),
+    labelId: v.id("labels"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    await getOwnedLabel(ctx, args.labelId, userId);
+
+    const task = await ctx.db.get(args.taskId);
+    if (!task || task.deletedAt !== undefined) {
+      throw new Error("Task not found");
+    }
+
+    // Verify ownership
+    if (task.userId !== userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const existing = await ctx.db
+      .query("taskLabels")
+      .withIndex("by_task_and_label", (q) =>
+        q.eq("taskId", args.taskId).eq("labelId", args.labelId)
+      )
+      .first();
+    if (existing) {
+      return;
+    }
+
+    await ctx.db.insert("taskLabels", {
+      userId,
+      taskId: args.taskId,
+      labelId: args.labelId,
+    });
+  },
+});
+
+/**
+ * Detach a label from a task.
+ */
+export const detach = mutation({
+  args: {
+    taskId: v.id("tasks"),
+    labelId: v.id("labels"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    await getOwnedLabel(ctx, args.labelId, userId);
+
+    const link = await ctx.db
+      .query("taskLabels")
+      .withIndex("by_task_and_label", (q) =>
+        q.eq("taskId", args.taskId).eq("labelId", args.labelId)
+      )
+      .first();
+    if (link) {
+      await ctx.db.delete(link._id);
+    }
+  },
+});
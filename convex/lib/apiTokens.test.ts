@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { generateApiToken, hashApiToken, parseBearerToken } from "./apiTokens";
+
+describe("generateApiToken", () => {
+  it("returns a prefixed token with its hash and display prefix", async () => {
+    const { token, tokenHash, displayPrefix } = await generateApiToken();
+    expect(token).toMatch(/^tk_[A-Za-z0-9_-]{43}$/);
+    expect(tokenHash).toBe(await hashApiToken(token));
+    expect(token.startsWith(displayPrefix)).toBe(true);
+    expect(displayPrefix).toHaveLength(9);
+  });
+
+  it("never repeats a token", async () => {
+    const [a, b] = await Promise.all([generateApiToken(), generateApiToken()]);
+    expect(a.token).not.toBe(b.token);
+  });
+});
+
+describe("hashApiToken", () => {
+  it("hashes with SHA-256", async () => {
+    expect(await hashApiToken("abc")).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+  });
+});
+
+describe("parseBearerToken", () => {
+  it("reads API tokens from bearer headers", () => {
+    expect(parseBearerToken("Bearer tk_abc")).toBe("tk_abc");
+    expect(parseBearerToken("bearer  tk_abc ")).toBe("tk_abc");
+  });
+
+  it("ignores other headers", () => {
+    expect(parseBearerToken(null)).toBeNull();
+    expect(parseBearerToken("Basic dXNlcjpwYXNz")).toBeNull();
+    expect(parseBearerToken("Bearer eyJhbGciOi")).toBeNull();
+    expect(parseBearerToken("Bearer tk_a tk_b")).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import { v } from "convex/values";
+import { sha256Hex, toBase64Url } from "./signing";
+
+/** Prefix of every API token, so leaked tokens are easy to recognise. */
+export const API_TOKEN_PREFIX = "tk_";
+
+/** Characters of a token kept in plain text to tell tokens apart. */
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+/** Longest an API token can stay valid. */
+export const MAX_API_TOKEN_DAYS = 365;
+
+/** Maximum length of an API token's name, in characters. */
+export const MAX_API_TOKEN_NAME_LENGTH = 80;
+
+/** What an API token may do. */
+export const apiTokenScopeValidator = v.union(
+  v.literal("tasks:read"),
+  v.literal("tasks:write")
+);
+
+export type ApiTokenScope = typeof apiTokenScopeValidator.type;
+
+/**
+ * Generate a new API token. Only its hash is stored; the token itself is
+ * shown to the user once. Must run in an action, where randomness is
+ * cryptographically secure.
+ */
+export async function generateApiToken(): Promise<{
+  token: string;
+  tokenHash: string;
+  displayPrefix: string;
+}> {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  const token = `${API_TOKEN_PREFIX}${toBase64Url(bytes)}`;
+  return {
+    token,
+    tokenHash: await hashApiToken(token),
+    displayPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+  };
+}
+
+/**
+ * Hash an API token for storage and lookup. Tokens are long and random,
+ * so a plain SHA-256 is enough.
+ */
+export async function hashApiToken(token: string): Promise<string> {
+  return await sha256Hex(token);
+}
+
+/**
+ * Read the token from an `Authorization: Bearer <token>` header.
+ * Returns null if the header is missing or isn't an API token.
+ */
+export function parseBearerToken(header: string | null): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)\s*$/i);
+  const token = match?.[1];
+  return token?.startsWith(API_TOKEN_PREFIX) ? token : null;
+}
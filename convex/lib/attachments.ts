@@ -0,0 +1,21 @@
+import { MutationCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+import { deleteFile } from "./files";
+
+/**
+ * Delete every attachment on a task along with its stored file.
+ * Call before deleting the task.
+ */
+export async function deleteTaskAttachments(
+  ctx: MutationCtx,
+  taskId: Id<"tasks">
+): Promise<void> {
+  const attachments = await ctx.db
+    .query("taskAttachments")
+    .withIndex("by_task", (q) => q.eq("taskId", taskId))
+    .collect();
+  for (const attachment of attachments) {
+    await ctx.db.delete(attachment._id);
+    await deleteFile(ctx, attachment.storageId);
+  }
+}
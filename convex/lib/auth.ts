@@ -1,4 +1,7 @@
 import { QueryCtx, MutationCtx, ActionCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { Id } from "../_generated/dataModel";
+import { ApiTokenScope, hashApiToken, parseBearerToken } from "./apiTokens";
 
 /**
  * Extract the user ID from the identity subject.
@@ -27,6 +30,28 @@ export async function getAuthUserId(
   return extractUserId(identity.subject);
 }
 
+/**
+ * Get the authenticated user's ID, requiring them to be an admin: their
+ * email must be listed in the ADMIN_EMAILS environment variable
+ * (comma-separated). Throws otherwise.
+ */
+export async function requireAdmin(
+  ctx: QueryCtx | MutationCtx
+): Promise<string> {
+  const userId = await getAuthUserId(ctx);
+  const id = ctx.db.normalizeId("users", userId);
+  const user = id ? await ctx.db.get(id) : null;
+
+  const admins = (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  if (!user?.email || !admins.includes(user.email.toLowerCase())) {
+    throw new Error("Unauthorized");
+  }
+  return userId;
+}
+
 /**
  * Get the authenticated user's identity or null if not authenticated.
  */
@@ -58,3 +83,27 @@ export async function getAuthUserIdOrNull(
   }
   return extractUserId(identity.subject);
 }
+
+/**
+ * Resolve the API token in a request's `Authorization: Bearer` header to
+ * its user, for HTTP actions that accept personal API tokens.
+ * Returns null if the header is missing or the token is unknown or
+ * expired. Callers check the returned scopes themselves.
+ */
+export async function authenticateApiToken(
+  ctx: ActionCtx,
+  request: Request
+): Promise<{
+  userId: string;
+  tokenId: Id<"apiTokens">;
+  scopes: ApiTokenScope[];
+} | null> {
+  const token = parseBearerToken(request.headers.get("Authorization"));
+  if (!token) {
+    return null;
+  }
+
+  return await ctx.runMutation(internal.apiTokens.resolve, {
+    tokenHash: await hashApiToken(token),
+  });
+}
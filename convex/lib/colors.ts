@@ -0,0 +1,9 @@
+/**
+ * Validate a hex colour such as "#3b82f6" and normalise it to lower case.
+ */
+export function validateColor(color: string): string {
+  if (!/^#[0-9a-fA-F]{6}$/.test(color)) {
+    throw new Error("Colour must be a hex value like #3b82f6");
+  }
+  return color.toLowerCase();
+}
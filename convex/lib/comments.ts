@@ -0,0 +1,18 @@
+import { MutationCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+
+/**
+ * Delete every comment on a task. Call before deleting the task.
+ */
+export async function deleteTaskComments(
+  ctx: MutationCtx,
+  taskId: Id<"tasks">
+): Promise<void> {
+  const comments = await ctx.db
+    .query("taskComments")
+    .withIndex("by_task", (q) => q.eq("taskId", taskId))
+    .collect();
+  for (const comment of comments) {
+    await ctx.db.delete(comment._id);
+  }
+}
@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { getEmailTransportName } from "./email";
+
+describe("getEmailTransportName", () => {
+  const original = process.env.EMAIL_TRANSPORT;
+  afterEach(() => {
+    if (original === undefined) delete process.env.EMAIL_TRANSPORT;
+    else process.env.EMAIL_TRANSPORT = original;
+  });
+
+  it("defaults to Resend", () => {
+    delete process.env.EMAIL_TRANSPORT;
+    expect(getEmailTransportName()).toBe("resend");
+    process.env.EMAIL_TRANSPORT = " ";
+    expect(getEmailTransportName()).toBe("resend");
+  });
+
+  it("accepts the known transports in any case", () => {
+    process.env.EMAIL_TRANSPORT = "Mailbox";
+    expect(getEmailTransportName()).toBe("mailbox");
+    process.env.EMAIL_TRANSPORT = "console";
+    expect(getEmailTransportName()).toBe("console");
+  });
+
+  it("rejects unknown transports", () => {
+    process.env.EMAIL_TRANSPORT = "smtp";
+    expect(() => getEmailTransportName()).toThrow(
+      'Unknown EMAIL_TRANSPORT "smtp"'
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { Resend as ResendAPI } from "resend";
+import { ActionCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+
+/**
+ * Sender address used for all outgoing email.
+ */
+const FROM_ADDRESS = "Your App <onboarding@resend.dev>";
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+/**
+ * A way of delivering email, chosen with the EMAIL_TRANSPORT environment
+ * variable (see `getEmailTransportName`).
+ */
+export type EmailTransport = {
+  send: (ctx: ActionCtx, message: EmailMessage) => Promise<void>;
+};
+
+/** Names accepted in EMAIL_TRANSPORT. */
+export const EMAIL_TRANSPORT_NAMES = ["resend", "console", "mailbox"] as const;
+
+export type EmailTransportName = (typeof EMAIL_TRANSPORT_NAMES)[number];
+
+/**
+ * Send through Resend, with the AUTH_RESEND_KEY API key. Throws if Resend
+ * rejects the message.
+ */
+const resendTransport: EmailTransport = {
+  send: async (_ctx, message) => {
+    const resend = new ResendAPI(process.env.AUTH_RESEND_KEY);
+    const { error } = await resend.emails.send({
+      from: FROM_ADDRESS,
+      to: [message.to],
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+
+    if (error) {
+      console.error("Failed to send email:", error);
+      throw new Error(`Could not send email: ${error.message}`);
+    }
+  },
+};
+
+/**
+ * Print messages to the Convex logs instead of sending them, for local
+ * development without a Resend account.
+ */
+const consoleTransport: EmailTransport = {
+  send: async (_ctx, message) => {
+    console.log(
+      `Email to ${message.to}\nSubject: ${message.subject}\n\n${message.text}`
+    );
+  },
+};
+
+/**
+ * Store messages in the `mailbox` table, where the dev-only `/dev/mailbox`
+ * page and end-to-end tests can read them (see `mailbox.ts`).
+ */
+const mailboxTransport: EmailTransport = {
+  send: async (ctx, message) => {
+    await ctx.runMutation(internal.mailbox.deliver, message);
+  },
+};
+
+const TRANSPORTS: Record<EmailTransportName, EmailTransport> = {
+  resend: resendTransport,
+  console: consoleTransport,
+  mailbox: mailboxTransport,
+};
+
+/**
+ * The email transport picked by EMAIL_TRANSPORT: "resend" (the default,
+ * for production), "console" or "mailbox". Throws for unknown names so a
+ * typo doesn't silently drop email.
+ */
+export function getEmailTransportName(): EmailTransportName {
+  const name = process.env.EMAIL_TRANSPORT?.trim().toLowerCase() || "resend";
+  const known = EMAIL_TRANSPORT_NAMES.find((transport) => transport === name);
+  if (!known) {
+    const names = EMAIL_TRANSPORT_NAMES.join(", ");
+    throw new Error(`Unknown EMAIL_TRANSPORT "${name}"; use ${names}`);
+  }
+  return known;
+}
+
+/**
+ * Send an email through the configured transport.
+ * Used for OTP codes (see `convex/auth.ts`) and task reminders, both
+ * through the job queue. Throws if the message couldn't be sent.
+ */
+export async function sendEmail(
+  ctx: ActionCtx,
+  message: EmailMessage
+): Promise<void> {
+  await TRANSPORTS[getEmailTransportName()].send(ctx, message);
+}
@@ -0,0 +1,182 @@
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+
+/**
+ * Load the file record of a stored blob, or null if it was never
+ * registered.
+ */
+export async function getFile(
+  ctx: QueryCtx,
+  storageId: Id<"_storage">
+): Promise<Doc<"files"> | null> {
+  return await ctx.db
+    .query("files")
+    .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+    .unique();
+}
+
+/**
+ * Load a file and verify that it was uploaded by the given user.
+ * Throws if the file doesn't exist or is owned by someone else.
+ */
+export async function getOwnedFile(
+  ctx: QueryCtx,
+  storageId: Id<"_storage">,
+  userId: string
+): Promise<Doc<"files">> {
+  const file = await getFile(ctx, storageId);
+  if (!file) {
+    throw new Error("File not found");
+  }
+
+  // Verify ownership
+  if (file.userId !== userId) {
+    throw new Error("Unauthorized");
+  }
+
+  return file;
+}
+
+/**
+ * Load a file and verify that the given user may read it, either because
+ * they uploaded it or because its owner shared it with them.
+ * Returns null if the file doesn't exist.
+ */
+export async function getReadableFile(
+  ctx: QueryCtx,
+  storageId: Id<"_storage">,
+  userId: string
+): Promise<Doc<"files"> | null> {
+  const file = await getFile(ctx, storageId);
+  if (!file) {
+    return null;
+  }
+
+  if (file.userId !== userId) {
+    const share = await ctx.db
+      .query("fileShares")
+      .withIndex("by_storage_and_user", (q) =>
+        q.eq("storageId", storageId).eq("userId", userId)
+      )
+      .unique();
+    if (!share) {
+      throw new Error("Unauthorized");
+    }
+  }
+
+  return file;
+}
+
+/**
+ * Get how many files a user has uploaded and their total size in bytes.
+ */
+export async function getStorageUsage(
+  ctx: QueryCtx,
+  userId: string
+): Promise<{ usedBytes: number; fileCount: number }> {
+  const files = await ctx.db
+    .query("files")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  return {
+    usedBytes: files.reduce((total, file) => total + file.size, 0),
+    fileCount: files.length,
+  };
+}
+
+/** How long a new upload may stay unlinked before it counts as orphaned. */
+export const ORPHAN_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether anything links to a stored blob. Blobs that nothing links
+ * to are orphans and get garbage-collected (see storage.collectOrphans).
+ */
+export async function isStorageReferenced(
+  ctx: QueryCtx,
+  storageId: Id<"_storage">
+): Promise<boolean> {
+  const attachment = await ctx.db
+    .query("taskAttachments")
+    .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+    .first();
+  if (attachment) return true;
+
+  const thumbnail = await ctx.db
+    .query("thumbnails")
+    .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+    .first();
+  if (thumbnail) return true;
+
+  const share = await ctx.db
+    .query("fileShares")
+    .withIndex("by_storage_and_user", (q) => q.eq("storageId", storageId))
+    .first();
+  if (share) return true;
+
+  const link = await ctx.db
+    .query("shareLinks")
+    .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+    .first();
+  return link !== null;
+}
+
+/**
+ * Delete a blob whose last link was just removed. Blobs still in their
+ * grace period are left for the orphan collector, which hasn't reached
+ * them yet.
+ */
+export async function deleteFileIfOrphaned(
+  ctx: MutationCtx,
+  storageId: Id<"_storage">
+): Promise<void> {
+  const blob = await ctx.db.system.get(storageId);
+  if (
+    !blob ||
+    blob._creationTime > Date.now() - ORPHAN_GRACE_PERIOD_MS ||
+    (await isStorageReferenced(ctx, storageId))
+  ) {
+    return;
+  }
+  await deleteFile(ctx, storageId);
+}
+
+/**
+ * Delete a stored blob together with its file record, share grants,
+ * share links and thumbnails.
+ */
+export async function deleteFile(
+  ctx: MutationCtx,
+  storageId: Id<"_storage">
+): Promise<void> {
+  const shares = await ctx.db
+    .query("fileShares")
+    .withIndex("by_storage_and_user", (q) => q.eq("storageId", storageId))
+    .collect();
+  for (const share of shares) {
+    await ctx.db.delete(share._id);
+  }
+
+  const links = await ctx.db
+    .query("shareLinks")
+    .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+    .collect();
+  for (const link of links) {
+    await ctx.db.delete(link._id);
+  }
+
+  const thumbnails = await ctx.db
+    .query("thumbnails")
+    .withIndex("by_source", (q) => q.eq("sourceId", storageId))
+    .collect();
+  for (const thumbnail of thumbnails) {
+    await ctx.db.delete(thumbnail._id);
+    await ctx.storage.delete(thumbnail.storageId);
+  }
+
+  const file = await getFile(ctx, storageId);
+  if (file) {
+    await ctx.db.delete(file._id);
+  }
+
+  await ctx.storage.delete(storageId);
+}
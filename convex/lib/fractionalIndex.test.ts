@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { generateKeyBetween } from "./fractionalIndex";
+
+describe("generateKeyBetween", () => {
+  it("starts an empty list at a0", () => {
+    expect(generateKeyBetween(null, null)).toBe("a0");
+  });
+
+  it("generates keys at the end of the list", () => {
+    expect(generateKeyBetween("a0", null)).toBe("a1");
+    expect(generateKeyBetween("az", null)).toBe("b00");
+    expect(generateKeyBetween("Zz", null)).toBe("a0");
+  });
+
+  it("generates keys at the start of the list", () => {
+    expect(generateKeyBetween(null, "a0")).toBe("Zz");
+    expect(generateKeyBetween(null, "a0V")).toBe("a0");
+    expect(generateKeyBetween(null, "b00")).toBe("az");
+  });
+
+  it("generates keys between two neighbours", () => {
+    expect(generateKeyBetween("a0", "a1")).toBe("a0V");
+    expect(generateKeyBetween("a0", "a2")).toBe("a1");
+    expect(generateKeyBetween("a0V", "a1")).toBe("a0l");
+  });
+
+  it("rejects an inverted or empty range", () => {
+    expect(() => generateKeyBetween("a1", "a0")).toThrow();
+    expect(() => generateKeyBetween("a1", "a1")).toThrow();
+  });
+
+  it("rejects malformed keys", () => {
+    expect(() => generateKeyBetween("a00", null)).toThrow();
+    expect(() => generateKeyBetween("!", null)).toThrow();
+  });
+
+  it("keeps keys ordered and short under repeated inserts", () => {
+    const keys: string[] = [];
+    let last: string | null = null;
+    for (let i = 0; i < 1000; i++) {
+      last = generateKeyBetween(last, null);
+      keys.push(last);
+    }
+    let first: string | null = keys[0];
+    for (let i = 0; i < 1000; i++) {
+      first = generateKeyBetween(null, first);
+      keys.unshift(first);
+    }
+
+    expect([...keys].sort()).toEqual(keys);
+    expect(Math.max(...keys.map((key) => key.length))).toBeLessThanOrEqual(3);
+  });
+
+  it("always fits a key between neighbours", () => {
+    let a = "a0";
+    const b = "a1";
+    for (let i = 0; i < 50; i++) {
+      const mid = generateKeyBetween(a, b);
+      expect(mid > a && mid < b).toBe(true);
+      a = mid;
+    }
+  });
+});
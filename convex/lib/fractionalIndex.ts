@@ -0,0 +1,203 @@
+/**
+ * Fractional indexing for manually ordered lists.
+ *
+ * Order keys are strings that sort lexicographically in list order, so an
+ * item can be moved by giving it a key between its new neighbours without
+ * touching any other row. Keys are made of an "integer" part (whose length is
+ * encoded by its first character) followed by a base-62 fraction, which keeps
+ * keys short when items are repeatedly added at either end of the list.
+ *
+ * Based on the algorithm described in
+ * https://observablehq.com/@dgreensp/implementing-fractional-indexing
+ */
+
+const DIGITS =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const ZERO = DIGITS[0];
+const SMALLEST_INTEGER = "A" + ZERO.repeat(26);
+
+/**
+ * Midpoint between two fractional parts, where `a` may be "" (zero)
+ * and `b` may be null (one).
+ */
+function midpoint(a: string, b: string | null): string {
+  if (b !== null && a >= b) {
+    throw new Error(`Invalid fraction range: ${a} >= ${b}`);
+  }
+  if (a.endsWith(ZERO) || (b !== null && b.endsWith(ZERO))) {
+    throw new Error("Fractional part must not end with a zero digit");
+  }
+
+  if (b !== null) {
+    // Skip the common prefix
+    let n = 0;
+    while ((a[n] ?? ZERO) === b[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round(0.5 * (digitA + digitB))];
+  }
+  // The first digits are consecutive
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+function getIntegerLength(head: string): number {
+  if (head >= "a" && head <= "z") {
+    return head.charCodeAt(0) - "a".charCodeAt(0) + 2;
+  }
+  if (head >= "A" && head <= "Z") {
+    return "Z".charCodeAt(0) - head.charCodeAt(0) + 2;
+  }
+  throw new Error(`Invalid order key head: ${head}`);
+}
+
+function getIntegerPart(key: string): string {
+  const length = getIntegerLength(key[0]);
+  if (length > key.length) {
+    throw new Error(`Invalid order key: ${key}`);
+  }
+  return key.slice(0, length);
+}
+
+function validateOrderKey(key: string) {
+  if (key === SMALLEST_INTEGER) {
+    throw new Error(`Invalid order key: ${key}`);
+  }
+  const integer = getIntegerPart(key);
+  const fraction = key.slice(integer.length);
+  if (fraction.endsWith(ZERO)) {
+    throw new Error(`Invalid order key: ${key}`);
+  }
+}
+
+function incrementInteger(x: string): string | null {
+  const [head, ...digits] = x.split("");
+  let carry = true;
+  for (let i = digits.length - 1; carry && i >= 0; i--) {
+    const d = DIGITS.indexOf(digits[i]) + 1;
+    if (d === DIGITS.length) {
+      digits[i] = ZERO;
+    } else {
+      digits[i] = DIGITS[d];
+      carry = false;
+    }
+  }
+  if (!carry) {
+    return head + digits.join("");
+  }
+  if (head === "Z") {
+    return "a" + ZERO;
+  }
+  if (head === "z") {
+    return null;
+  }
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+  if (nextHead > "a") {
+    digits.push(ZERO);
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join("");
+}
+
+function decrementInteger(x: string): string | null {
+  const [head, ...digits] = x.split("");
+  const largest = DIGITS[DIGITS.length - 1];
+  let borrow = true;
+  for (let i = digits.length - 1; borrow && i >= 0; i--) {
+    const d = DIGITS.indexOf(digits[i]) - 1;
+    if (d === -1) {
+      digits[i] = largest;
+    } else {
+      digits[i] = DIGITS[d];
+      borrow = false;
+    }
+  }
+  if (!borrow) {
+    return head + digits.join("");
+  }
+  if (head === "a") {
+    return "Z" + largest;
+  }
+  if (head === "A") {
+    return null;
+  }
+  const nextHead = String.fromCharCode(head.charCodeAt(0) - 1);
+  if (nextHead < "Z") {
+    digits.push(largest);
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join("");
+}
+
+/**
+ * Generate an order key that sorts strictly between `a` and `b`.
+ * Pass null for `a` to generate a key before `b` (the start of the list),
+ * and null for `b` to generate a key after `a` (the end of the list).
+ */
+export function generateKeyBetween(a: string | null, b: string | null): string {
+  if (a !== null) {
+    validateOrderKey(a);
+  }
+  if (b !== null) {
+    validateOrderKey(b);
+  }
+  if (a !== null && b !== null && a >= b) {
+    throw new Error(`Invalid key range: ${a} >= ${b}`);
+  }
+
+  if (a === null) {
+    if (b === null) {
+      return "a" + ZERO;
+    }
+    const integerB = getIntegerPart(b);
+    const fractionB = b.slice(integerB.length);
+    if (integerB === SMALLEST_INTEGER) {
+      return integerB + midpoint("", fractionB);
+    }
+    if (integerB < b) {
+      return integerB;
+    }
+    const decremented = decrementInteger(integerB);
+    if (decremented === null) {
+      throw new Error("Cannot generate a key before " + b);
+    }
+    return decremented;
+  }
+
+  if (b === null) {
+    const integerA = getIntegerPart(a);
+    const fractionA = a.slice(integerA.length);
+    const incremented = incrementInteger(integerA);
+    return incremented === null
+      ? integerA + midpoint(fractionA, null)
+      : incremented;
+  }
+
+  const integerA = getIntegerPart(a);
+  const fractionA = a.slice(integerA.length);
+  const integerB = getIntegerPart(b);
+  const fractionB = b.slice(integerB.length);
+  if (integerA === integerB) {
+    return integerA + midpoint(fractionA, fractionB);
+  }
+  const incremented = incrementInteger(integerA);
+  if (incremented === null) {
+    throw new Error("Cannot generate a key after " + a);
+  }
+  if (incremented < b) {
+    return incremented;
+  }
+  return integerA + midpoint(fractionA, null);
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  apiError,
+  corsHeaders,
+  getApiErrorData,
+  withApiErrors,
+} from "./httpApi";
+
+/** Run `fn` through `withApiErrors` and return the API error it throws. */
+async function errorOf(fn: () => Promise<unknown>) {
+  try {
+    await withApiErrors(fn);
+  } catch (error) {
+    return getApiErrorData(error);
+  }
+  throw new Error("Expected an error");
+}
+
+describe("apiError", () => {
+  it("carries the status, its title and any field errors", () => {
+    expect(getApiErrorData(apiError(404, "Task not found"))).toEqual({
+      status: 404,
+      title: "Not Found",
+      detail: "Task not found",
+    });
+    const issues = [{ path: "title", message: "is required" }];
+    expect(getApiErrorData(apiError(400, "Invalid", issues))?.errors).toEqual(
+      issues
+    );
+  });
+
+  it("isn't confused with other errors", () => {
+    expect(getApiErrorData(new Error("Task not found"))).toBeNull();
+  });
+});
+
+describe("withApiErrors", () => {
+  it("maps backend errors to statuses", async () => {
+    expect(
+      await errorOf(async () => {
+        throw new Error("Project not found");
+      })
+    ).toMatchObject({ status: 404, detail: "Project not found" });
+    expect(
+      await errorOf(async () => {
+        throw new Error("Unauthorized");
+      })
+    ).toMatchObject({ status: 404, detail: "Not found" });
+    expect(
+      await errorOf(async () => {
+        throw new Error("Title cannot be empty");
+      })
+    ).toMatchObject({ status: 400, detail: "Title cannot be empty" });
+  });
+
+  it("passes API errors and bugs through", async () => {
+    expect(
+      await errorOf(async () => {
+        throw apiError(415, "Send JSON");
+      })
+    ).toMatchObject({ status: 415 });
+    await expect(
+      withApiErrors(async () => {
+        throw new TypeError("oops");
+      })
+    ).rejects.toThrow(TypeError);
+  });
+});
+
+describe("corsHeaders", () => {
+  it("allows any origin with *", () => {
+    expect(corsHeaders("https://a.example", ["*"])).toEqual({
+      "Access-Control-Allow-Origin": "*",
+    });
+  });
+
+  it("echoes listed origins only", () => {
+    const allowed = ["https://a.example", "https://b.example"];
+    expect(corsHeaders("https://b.example", allowed)).toEqual({
+      "Access-Control-Allow-Origin": "https://b.example",
+      Vary: "Origin",
+    });
+    expect(corsHeaders("https://c.example", allowed)).toEqual({});
+    expect(corsHeaders(null, allowed)).toEqual({});
+  });
+});
@@ -0,0 +1,284 @@
+import {
+  ConvexError,
+  Infer,
+  ObjectType,
+  PropertyValidators,
+  v,
+} from "convex/values";
+import type { Doc, TableNames } from "../_generated/dataModel";
+import type { DatabaseReader } from "../_generated/server";
+import { ValidationIssue, validateJson } from "./validation";
+
+/**
+ * An HTTP API error, sent to the client as an RFC 9457 problem document.
+ * Internal functions behind the API throw these as a `ConvexError` so the
+ * HTTP action can tell them apart from bugs.
+ */
+export const apiErrorValidator = v.object({
+  status: v.number(),
+  title: v.string(),
+  detail: v.string(),
+  errors: v.optional(
+    v.array(v.object({ path: v.string(), message: v.string() }))
+  ),
+});
+
+export type ApiErrorData = Infer<typeof apiErrorValidator>;
+
+const STATUS_TITLES: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  415: "Unsupported Media Type",
+  500: "Internal Server Error",
+};
+
+/**
+ * Build an API error to throw. `errors` lists the problems with the
+ * request's fields, when there are any.
+ */
+export function apiError(
+  status: number,
+  detail: string,
+  errors?: ValidationIssue[]
+): ConvexError<ApiErrorData> {
+  const data: ApiErrorData = {
+    status,
+    title: STATUS_TITLES[status] ?? "Error",
+    detail,
+  };
+  if (errors) {
+    data.errors = errors;
+  }
+  return new ConvexError(data);
+}
+
+/**
+ * Get the API error data out of an error, or null if it isn't one.
+ */
+export function getApiErrorData(error: unknown): ApiErrorData | null {
+  if (!(error instanceof ConvexError)) {
+    return null;
+  }
+  const data = error.data as Partial<ApiErrorData> | null;
+  return typeof data?.status === "number" && typeof data.detail === "string"
+    ? (data as ApiErrorData)
+    : null;
+}
+
+/**
+ * Run the body of an API function, turning the plain errors the rest of
+ * the backend throws into API errors: "... not found" becomes a 404 and
+ * anything else a 400. "Unauthorized" is a 404 too, so the API doesn't
+ * reveal which IDs belong to other users. Errors of other classes are bugs
+ * and are rethrown as they are, to end up as a 500.
+ */
+export async function withApiErrors<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    if (!(error instanceof Error) || error.name !== "Error") {
+      throw error;
+    }
+    if (/not found/i.test(error.message)) {
+      throw apiError(404, error.message);
+    }
+    if (error.message === "Unauthorized") {
+      throw apiError(404, "Not found");
+    }
+    throw apiError(400, error.message);
+  }
+}
+
+/**
+ * Check a request's JSON against a function's argument validators.
+ * IDs are checked against `db`.
+ * Throws a 400 API error listing every problem found.
+ */
+export function parseArgs<Fields extends PropertyValidators>(
+  db: DatabaseReader,
+  fields: Fields,
+  value: unknown
+): ObjectType<Fields> {
+  const result = validateJson(v.object(fields), value, (tableName, id) =>
+    db.normalizeId(tableName as TableNames, id)
+  );
+  if (result.issues.length > 0) {
+    throw apiError(400, "The request is invalid", result.issues);
+  }
+  return result.value as ObjectType<Fields>;
+}
+
+/**
+ * A task as the HTTP API returns it. Optional fields are always present,
+ * as null, so clients see the full shape.
+ */
+export const apiTaskValidator = v.object({
+  id: v.id("tasks"),
+  title: v.string(),
+  description: v.union(v.string(), v.null()),
+  completed: v.boolean(),
+  createdAt: v.number(),
+  parentId: v.union(v.id("tasks"), v.null()),
+  projectId: v.union(v.id("projects"), v.null()),
+  dueAt: v.union(v.number(), v.null()),
+  dueTimezone: v.union(v.string(), v.null()),
+  remindAt: v.union(v.number(), v.null()),
+  remindByEmail: v.boolean(),
+  subtaskCount: v.number(),
+  labels: v.array(
+    v.object({ id: v.id("labels"), name: v.string(), color: v.string() })
+  ),
+  recurrence: v.union(
+    v.object({ rule: v.string(), timezone: v.string() }),
+    v.null()
+  ),
+});
+
+export type ApiTask = Infer<typeof apiTaskValidator>;
+
+/**
+ * A page of tasks. Pass `nextCursor` as the `cursor` of the next request;
+ * it is null on the last page.
+ */
+export const apiTaskPageValidator = v.object({
+  data: v.array(apiTaskValidator),
+  nextCursor: v.union(v.string(), v.null()),
+});
+
+/**
+ * Convert a task row (see `withRowDetails` in tasks.ts) to its API form.
+ */
+export function toApiTask(
+  task: Doc<"tasks"> & {
+    subtaskCount: number;
+    labels: Doc<"labels">[];
+    recurrence: { rule: string; timezone: string } | null;
+  }
+): ApiTask {
+  return {
+    id: task._id,
+    title: task.title,
+    description: task.description ?? null,
+    completed: task.completed,
+    createdAt: task.createdAt,
+    parentId: task.parentId ?? null,
+    projectId: task.projectId ?? null,
+    dueAt: task.dueAt ?? null,
+    dueTimezone: task.dueTimezone ?? null,
+    remindAt: task.remindAt ?? null,
+    remindByEmail: task.remindByEmail ?? false,
+    subtaskCount: task.subtaskCount,
+    labels: task.labels.map((label) => ({
+      id: label._id,
+      name: label.name,
+      color: label.color,
+    })),
+    recurrence: task.recurrence
+      ? { rule: task.recurrence.rule, timezone: task.recurrence.timezone }
+      : null,
+  };
+}
+
+/**
+ * Origins allowed to call the HTTP API from a browser, from the
+ * API_CORS_ORIGINS environment variable: "*" for any origin, or a
+ * comma-separated list. Unset means no cross-origin access.
+ */
+export function getApiCorsOrigins(): string[] {
+  return (process.env.API_CORS_ORIGINS ?? "")
+    .split(",")
+    .map((origin) => origin.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+}
+
+/**
+ * CORS headers for a request from `origin`, or none if it isn't allowed.
+ */
+export function corsHeaders(
+  origin: string | null,
+  allowedOrigins: string[]
+): Record<string, string> {
+  if (!origin) {
+    return {};
+  }
+  if (allowedOrigins.includes("*")) {
+    return { "Access-Control-Allow-Origin": "*" };
+  }
+  if (allowedOrigins.includes(origin)) {
+    return { "Access-Control-Allow-Origin": origin, Vary: "Origin" };
+  }
+  return {};
+}
+
+/**
+ * Answer a CORS preflight request for a route with the given methods.
+ */
+export function preflightResponse(
+  request: Request,
+  methods: string[]
+): Response {
+  const headers = corsHeaders(
+    request.headers.get("Origin"),
+    getApiCorsOrigins()
+  );
+  if (!headers["Access-Control-Allow-Origin"]) {
+    return new Response(null, { status: 204 });
+  }
+  return new Response(null, {
+    status: 204,
+    headers: {
+      ...headers,
+      "Access-Control-Allow-Methods": [...methods, "OPTIONS"].join(", "),
+      "Access-Control-Allow-Headers": "Authorization, Content-Type",
+      "Access-Control-Max-Age": "86400",
+    },
+  });
+}
+
+/**
+ * A JSON response, with CORS headers for the request's origin.
+ */
+export function jsonResponse(
+  request: Request,
+  body: unknown,
+  status = 200
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders(request.headers.get("Origin"), getApiCorsOrigins()),
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+/**
+ * An empty response, with CORS headers for the request's origin.
+ */
+export function noContentResponse(request: Request): Response {
+  return new Response(null, {
+    status: 204,
+    headers: corsHeaders(request.headers.get("Origin"), getApiCorsOrigins()),
+  });
+}
+
+/**
+ * A problem document (`application/problem+json`) for an API error.
+ */
+export function problemResponse(
+  request: Request,
+  error: ApiErrorData,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(error), {
+    status: error.status,
+    headers: {
+      ...corsHeaders(request.headers.get("Origin"), getApiCorsOrigins()),
+      ...headers,
+      "Content-Type": "application/problem+json",
+    },
+  });
+}
@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+  enqueueJob,
+  getJobRetryDelayMs,
+  jobKinds,
+  jobKindValidator,
+  recordJobFailure,
+  recoverStalledJobs,
+  requeueJob,
+} from "./jobs";
+
+type Job = Doc<"jobs">;
+
+/**
+ * Just enough of a mutation context for the queue: a jobs table that
+ * supports the `eq` and `lt` index ranges the queue uses, and a scheduler
+ * that records what it was asked to run.
+ */
+function createCtx() {
+  const jobs: Job[] = [];
+  const scheduled: { runAt: number; args: unknown }[] = [];
+
+  const db = {
+    insert: async (_table: string, doc: Omit<Job, "_id" | "_creationTime">) => {
+      const job = {
+        ...doc,
+        _id: `job${jobs.length + 1}` as Id<"jobs">,
+        _creationTime: Date.now(),
+      } as Job;
+      jobs.push(job);
+      return job._id;
+    },
+    get: async (id: Id<"jobs">) => jobs.find((job) => job._id === id) ?? null,
+    patch: async (id: Id<"jobs">, fields: Partial<Job>) => {
+      Object.assign(jobs.find((job) => job._id === id)!, fields);
+    },
+    query: (_table: string) => ({
+      withIndex: (_index: string, range: (q: unknown) => unknown) => {
+        const matches: ((job: Job) => boolean)[] = [];
+        const q = {
+          eq: (field: keyof Job, value: unknown) => {
+            matches.push((job) => job[field] === value);
+            return q;
+          },
+          lt: (field: keyof Job, value: number) => {
+            matches.push((job) => (job[field] as number) < value);
+            return q;
+          },
+        };
+        range(q);
+        const found = () => jobs.filter((job) => matches.every((m) => m(job)));
+        return {
+          first: async () => found()[0] ?? null,
+          take: async (n: number) => found().slice(0, n),
+        };
+      },
+    }),
+  };
+  const scheduler = {
+    runAt: async (runAt: number, _fn: unknown, args: unknown) => {
+      scheduled.push({ runAt, args });
+    },
+    runAfter: async (delayMs: number, _fn: unknown, args: unknown) => {
+      scheduled.push({ runAt: Date.now() + delayMs, args });
+    },
+  };
+
+  return { ctx: { db, scheduler } as unknown as MutationCtx, jobs, scheduled };
+}
+
+const EMAIL = { to: "a@example.com", subject: "Hi", text: "Hello" };
+
+describe("getJobRetryDelayMs", () => {
+  it("doubles the wait after each attempt, between half and all of it", () => {
+    expect([1, 2, 3].map((attempts) => getJobRetryDelayMs(attempts, () => 0)))
+      .toEqual([5_000, 10_000, 20_000]);
+    expect(
+      [1, 2, 3].map((attempts) => getJobRetryDelayMs(attempts, () => 0.999999))
+    ).toEqual([10_000, 20_000, 40_000]);
+  });
+
+  it("waits at most an hour", () => {
+    expect(getJobRetryDelayMs(30, () => 0)).toBe(30 * 60 * 1000);
+    expect(getJobRetryDelayMs(30, () => 0.999999)).toBeLessThanOrEqual(
+      60 * 60 * 1000
+    );
+  });
+});
+
+describe("jobKindValidator", () => {
+  it("lists every job kind", () => {
+    expect(
+      jobKindValidator.members.map((member) => member.value).sort()
+    ).toEqual(Object.keys(jobKinds).sort());
+  });
+});
+
+describe("job queue", () => {
+  const now = Date.UTC(2024, 0, 1);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("returns the existing job for a repeated idempotency key", async () => {
+    const { ctx, jobs, scheduled } = createCtx();
+    const options = { idempotencyKey: "welcome:a" };
+
+    const first = await enqueueJob(ctx, "sendEmail", EMAIL, options);
+    const second = await enqueueJob(ctx, "sendEmail", EMAIL, options);
+
+    expect(second).toBe(first);
+    expect(jobs).toHaveLength(1);
+    expect(scheduled).toHaveLength(1);
+  });
+
+  it("retries a failed attempt with backoff", async () => {
+    const { ctx, jobs, scheduled } = createCtx();
+    const jobId = await enqueueJob(ctx, "sendEmail", EMAIL, {
+      maxAttempts: 2,
+    });
+    jobs[0].attempts = 1;
+
+    await recordJobFailure(ctx, jobs[0], "Bounced");
+
+    expect(jobs[0]).toMatchObject({ status: "pending", lastError: "Bounced" });
+    expect(jobs[0].runAt).toBeGreaterThan(now);
+    expect(scheduled[1]).toEqual({ runAt: jobs[0].runAt, args: { jobId } });
+  });
+
+  it("dead-letters a job once it is out of attempts", async () => {
+    const { ctx, jobs, scheduled } = createCtx();
+    await enqueueJob(ctx, "sendEmail", EMAIL, { maxAttempts: 2 });
+    jobs[0].attempts = 2;
+
+    await recordJobFailure(ctx, jobs[0], "Bounced");
+
+    expect(jobs[0]).toMatchObject({ status: "failed", args: EMAIL });
+    expect(scheduled).toHaveLength(1);
+  });
+
+  it("drops a sensitive job's arguments when it is dead-lettered", async () => {
+    const { ctx, jobs } = createCtx();
+    await enqueueJob(ctx, "sendEmail", EMAIL, {
+      maxAttempts: 1,
+      sensitive: true,
+    });
+    jobs[0].attempts = 1;
+
+    await recordJobFailure(ctx, jobs[0], "Bounced");
+
+    expect(jobs[0]).toMatchObject({ status: "failed", args: null });
+  });
+
+  it("counts attempts that ran for too long as failed", async () => {
+    const { ctx, jobs } = createCtx();
+    await enqueueJob(ctx, "sendEmail", EMAIL);
+    await enqueueJob(ctx, "sendEmail", EMAIL);
+    jobs[0].status = "running";
+    jobs[0].attempts = 1;
+    jobs[0].updatedAt = now - 60 * 60 * 1000;
+    jobs[1].status = "running";
+    jobs[1].attempts = 1;
+
+    expect(await recoverStalledJobs(ctx, 100)).toBe(1);
+    expect(jobs[0]).toMatchObject({
+      status: "pending",
+      lastError: "The attempt timed out",
+    });
+    expect(jobs[1].status).toBe("running");
+  });
+
+  it("requeues only failed jobs that kept their arguments", async () => {
+    const { ctx, jobs, scheduled } = createCtx();
+    await enqueueJob(ctx, "sendEmail", EMAIL);
+    await enqueueJob(ctx, "sendEmail", EMAIL);
+    await enqueueJob(ctx, "sendEmail", EMAIL, { sensitive: true });
+    jobs[0].status = "failed";
+    jobs[0].attempts = 5;
+    jobs[2].status = "failed";
+
+    expect(await requeueJob(ctx, jobs[0])).toBe(true);
+    expect(await requeueJob(ctx, jobs[1])).toBe(false);
+    expect(await requeueJob(ctx, jobs[2])).toBe(false);
+
+    expect(jobs[0]).toMatchObject({ status: "pending", attempts: 0 });
+    expect(jobs[2].status).toBe("failed");
+    expect(scheduled).toHaveLength(4);
+  });
+});
@@ -0,0 +1,220 @@
+import { Infer, v } from "convex/values";
+import { ActionCtx, MutationCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { Doc, Id } from "../_generated/dataModel";
+
+/**
+ * The kinds of background job and the arguments each takes. Each kind
+ * needs a handler in `convex/jobs.ts`; TypeScript checks that it has one.
+ */
+export const jobKinds = {
+  sendEmail: v.object({
+    to: v.string(),
+    subject: v.string(),
+    text: v.string(),
+    html: v.optional(v.string()),
+  }),
+  deliverWebhook: v.object({
+    deliveryId: v.id("webhookDeliveries"),
+  }),
+};
+
+export type JobKind = keyof typeof jobKinds;
+
+export type JobArgs<K extends JobKind> = Infer<(typeof jobKinds)[K]>;
+
+const [firstJobKind, ...otherJobKinds] = Object.keys(jobKinds) as JobKind[];
+
+/** Kind of a stored job: one of the keys of `jobKinds`. */
+export const jobKindValidator = v.union(
+  v.literal(firstJobKind),
+  ...otherJobKinds.map((kind) => v.literal(kind))
+);
+
+export type JobOptions = {
+  /**
+   * Enqueueing again with the same key returns the existing job instead
+   * of adding another, for as long as the job is kept (see `pruneJobs`)
+   */
+  idempotencyKey?: string;
+  /** Run no earlier than this many milliseconds from now */
+  delayMs?: number;
+  /** Attempts before the job is dead-lettered (default 5) */
+  maxAttempts?: number;
+  /**
+   * The arguments hold secrets, such as a sign-in code: they are dropped
+   * when the job is dead-lettered too, and it can't be requeued
+   */
+  sensitive?: boolean;
+};
+
+/** Attempts a job gets unless it asks for a different number. */
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+/** Wait before the first retry; each later retry waits about twice as long. */
+const RETRY_BASE_DELAY_MS = 10 * 1000;
+
+/** Longest wait between two attempts. */
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/** A running job is presumed lost after this long; actions time out sooner. */
+const STALLED_AFTER_MS = 15 * 60 * 1000;
+
+/** Longest error message kept for a failed attempt. */
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * How long to wait before retrying a job that has failed `attempts`
+ * times: exponential backoff, capped at an hour, with jitter so jobs that
+ * failed together don't all retry at the same moment. `random` returns a
+ * number in [0, 1).
+ */
+export function getJobRetryDelayMs(
+  attempts: number,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(
+    RETRY_MAX_DELAY_MS,
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1)
+  );
+  // Half the delay is fixed and the other half random ("equal jitter")
+  return Math.round(delay / 2 + (random() * delay) / 2);
+}
+
+/**
+ * Add a job to the queue, to run in the background and be retried if it
+ * fails. Runs only if the calling mutation commits.
+ */
+export async function enqueueJob<K extends JobKind>(
+  ctx: MutationCtx,
+  kind: K,
+  args: JobArgs<K>,
+  options: JobOptions = {}
+): Promise<Id<"jobs">> {
+  if (options.idempotencyKey !== undefined) {
+    const existing = await ctx.db
+      .query("jobs")
+      .withIndex("by_idempotencyKey", (q) =>
+        q.eq("idempotencyKey", options.idempotencyKey)
+      )
+      .first();
+    if (existing) {
+      return existing._id;
+    }
+  }
+
+  const now = Date.now();
+  const runAt = now + Math.max(0, options.delayMs ?? 0);
+  const jobId = await ctx.db.insert("jobs", {
+    kind,
+    args,
+    status: "pending",
+    attempts: 0,
+    maxAttempts: Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS),
+    idempotencyKey: options.idempotencyKey,
+    sensitive: options.sensitive || undefined,
+    runAt,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await ctx.scheduler.runAt(runAt, internal.jobs.run, { jobId });
+  return jobId;
+}
+
+/**
+ * Enqueue a job from an action, which can't write to the database itself.
+ */
+export async function enqueueJobFromAction<K extends JobKind>(
+  ctx: ActionCtx,
+  kind: K,
+  args: JobArgs<K>,
+  options: JobOptions = {}
+): Promise<Id<"jobs">> {
+  return await ctx.runMutation(internal.jobs.enqueue, {
+    kind,
+    args,
+    ...options,
+  });
+}
+
+/**
+ * Record a failed attempt: schedule a retry with backoff, or dead-letter
+ * the job once it is out of attempts.
+ */
+export async function recordJobFailure(
+  ctx: MutationCtx,
+  job: Doc<"jobs">,
+  error: string
+): Promise<void> {
+  const now = Date.now();
+  const lastError = error.slice(0, MAX_ERROR_LENGTH);
+
+  if (job.attempts < job.maxAttempts) {
+    const runAt = now + getJobRetryDelayMs(job.attempts);
+    await ctx.db.patch(job._id, {
+      status: "pending",
+      runAt,
+      lastError,
+      updatedAt: now,
+    });
+    await ctx.scheduler.runAt(runAt, internal.jobs.run, { jobId: job._id });
+  } else {
+    await ctx.db.patch(job._id, {
+      status: "failed",
+      lastError,
+      updatedAt: now,
+      ...(job.sensitive && { args: null }),
+    });
+    console.error(
+      `Job ${job._id} (${job.kind}) failed after ${job.attempts} attempts:`,
+      lastError
+    );
+  }
+}
+
+/**
+ * Count up to `limit` jobs that have been running for too long as failed
+ * attempts, so an action that crashed or timed out is retried rather than
+ * lost. Returns how many were found.
+ */
+export async function recoverStalledJobs(
+  ctx: MutationCtx,
+  limit: number
+): Promise<number> {
+  const stalled = await ctx.db
+    .query("jobs")
+    .withIndex("by_status_and_updatedAt", (q) =>
+      q.eq("status", "running").lt("updatedAt", Date.now() - STALLED_AFTER_MS)
+    )
+    .take(limit);
+
+  for (const job of stalled) {
+    await recordJobFailure(ctx, job, "The attempt timed out");
+  }
+  return stalled.length;
+}
+
+/**
+ * Put a dead-lettered job back in the queue with a fresh set of attempts.
+ * Returns false, leaving the job alone, if it isn't failed or its
+ * arguments were dropped.
+ */
+export async function requeueJob(
+  ctx: MutationCtx,
+  job: Doc<"jobs">
+): Promise<boolean> {
+  // Sensitive jobs lost their arguments when they failed
+  if (job.status !== "failed" || job.sensitive) {
+    return false;
+  }
+
+  const now = Date.now();
+  await ctx.db.patch(job._id, {
+    status: "pending",
+    attempts: 0,
+    runAt: now,
+    updatedAt: now,
+  });
+  await ctx.scheduler.runAfter(0, internal.jobs.run, { jobId: job._id });
+  return true;
+}
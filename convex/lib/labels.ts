@@ -0,0 +1,59 @@
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+
+/**
+ * Load a label and verify that it belongs to the given user.
+ * Throws if the label doesn't exist or is owned by someone else.
+ */
+export async function getOwnedLabel(
+  ctx: QueryCtx,
+  labelId: Id<"labels">,
+  userId: string
+): Promise<Doc<"labels">> {
+  const label = await ctx.db.get(labelId);
+  if (!label) {
+    throw new Error("Label not found");
+  }
+
+  // Verify ownership
+  if (label.userId !== userId) {
+    throw new Error("Unauthorized");
+  }
+
+  return label;
+}
+
+/**
+ * Get the labels attached to a task, sorted by name.
+ */
+export async function getTaskLabels(
+  ctx: QueryCtx,
+  taskId: Id<"tasks">
+): Promise<Doc<"labels">[]> {
+  const links = await ctx.db
+    .query("taskLabels")
+    .withIndex("by_task_and_label", (q) => q.eq("taskId", taskId))
+    .collect();
+  const labels = await Promise.all(
+    links.map((link) => ctx.db.get(link.labelId))
+  );
+  return labels
+    .filter((label): label is Doc<"labels"> => label !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Remove every label from a task. Call before deleting the task.
+ */
+export async function detachAllLabels(
+  ctx: MutationCtx,
+  taskId: Id<"tasks">
+): Promise<void> {
+  const links = await ctx.db
+    .query("taskLabels")
+    .withIndex("by_task_and_label", (q) => q.eq("taskId", taskId))
+    .collect();
+  for (const link of links) {
+    await ctx.db.delete(link._id);
+  }
+}
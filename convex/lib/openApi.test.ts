@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { httpRouter } from "convex/server";
+import { auth } from "../auth";
+import http from "../http";
+import { buildOpenApiDocument, listDocumentedOperations } from "./openApi";
+
+/** Turn a router path (`/files/*` for prefixes) into a matching pattern. */
+function routePattern(path: string): RegExp {
+  const escaped = path.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escaped.replace(/\*$/, ".+")}$`);
+}
+
+/** Routes in http.ts, minus Convex Auth's and CORS preflights. */
+function listRoutes() {
+  const authRoutes = httpRouter();
+  auth.addHttpRoutes(authRoutes);
+  const ignored = new Set(
+    authRoutes.getRoutes().map(([path, method]) => `${method} ${path}`)
+  );
+  return http
+    .getRoutes()
+    .map(([path, method]) => ({ path, method: method.toLowerCase() }))
+    .filter(
+      ({ path, method }) =>
+        method !== "options" && !ignored.has(`${method.toUpperCase()} ${path}`)
+    );
+}
+
+describe("OpenAPI document", () => {
+  const operations = listDocumentedOperations();
+
+  it("documents every route", () => {
+    for (const route of listRoutes()) {
+      const pattern = routePattern(route.path);
+      const documented = operations.filter(
+        ({ method, path }) => method === route.method && pattern.test(path)
+      );
+      expect(
+        documented,
+        `${route.method.toUpperCase()} ${route.path} has no spec entry`
+      ).not.toHaveLength(0);
+    }
+  });
+
+  it("only documents routes that exist", () => {
+    const routes = listRoutes();
+    for (const operation of operations) {
+      expect(
+        routes.some(
+          ({ method, path }) =>
+            method === operation.method &&
+            routePattern(path).test(operation.path)
+        ),
+        `${operation.method.toUpperCase()} ${operation.path} isn't routed`
+      ).toBe(true);
+    }
+  });
+
+  it("describes task requests with the functions' validators", () => {
+    const document = buildOpenApiDocument("https://example.convex.site");
+    const create = document.paths["/api/v1/tasks"].post;
+    expect(create).toMatchObject({
+      security: [{ apiToken: ["tasks:write"] }],
+      requestBody: {
+        content: {
+          "application/json": {
+            schema: { required: ["title"], additionalProperties: false },
+          },
+        },
+      },
+    });
+    expect(document.components.schemas.Task).toMatchObject({
+      properties: { id: { type: "string" }, completed: { type: "boolean" } },
+    });
+    expect(document.servers).toEqual([{ url: "https://example.convex.site" }]);
+  });
+});
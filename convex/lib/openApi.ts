@@ -0,0 +1,275 @@
+import { PropertyValidators, v } from "convex/values";
+import {
+  createApiArgs,
+  listApiArgs,
+  toggleApiArgs,
+  updateApiArgs,
+} from "../tasks";
+import { ApiTokenScope } from "./apiTokens";
+import {
+  apiErrorValidator,
+  apiTaskPageValidator,
+  apiTaskValidator,
+} from "./httpApi";
+import { JsonSchema, toJsonSchema } from "./validation";
+
+type Method = "get" | "post" | "patch" | "delete";
+
+/**
+ * One documented operation. Request and response schemas are given as the
+ * validators the route's functions use, so the document can't drift from
+ * what the API checks.
+ */
+type Operation = {
+  method: Method;
+  /** Path with `{param}` placeholders, as in OpenAPI */
+  path: string;
+  summary: string;
+  /** API token scope the operation needs; omit for public routes */
+  scope?: ApiTokenScope;
+  /** Validators of the `{param}` placeholders in `path` */
+  params?: PropertyValidators;
+  query?: PropertyValidators;
+  body?: { fields: PropertyValidators; required: boolean };
+  responses: Record<string, JsonSchema>;
+};
+
+const ref = (name: string) => ({ $ref: `#/components/${name}` });
+
+/** Response with a JSON body. */
+function json(description: string, schema: JsonSchema): JsonSchema {
+  return { description, content: { "application/json": { schema } } };
+}
+
+const taskResponse = (description: string) =>
+  json(description, ref("schemas/Task"));
+
+const taskParams = { id: v.id("tasks") };
+
+/**
+ * Every public HTTP route in http.ts except Convex Auth's own. The test
+ * next to this file checks the list against the router.
+ */
+const OPERATIONS: Operation[] = [
+  {
+    method: "get",
+    path: "/health",
+    summary: "Check that the deployment is up",
+    responses: {
+      200: json(
+        "The deployment is up",
+        toJsonSchema(v.object({ status: v.literal("ok") }))
+      ),
+    },
+  },
+  {
+    method: "get",
+    path: "/files/{token}",
+    summary: "Download a file through a share link",
+    params: { token: v.string() },
+    responses: {
+      200: {
+        description: "The file",
+        content: {
+          "*/*": {
+            schema: {
+              type: "string",
+              contentMediaType: "application/octet-stream",
+            },
+          },
+        },
+      },
+      404: { description: "The link is invalid or was revoked" },
+      410: { description: "The link has expired or was used up" },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/openapi.json",
+    summary: "Get this document",
+    responses: {
+      200: json("The OpenAPI document", { type: "object" }),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/tasks",
+    summary: "List top-level tasks, a page at a time",
+    scope: "tasks:read",
+    query: listApiArgs,
+    responses: {
+      200: json("A page of tasks", ref("schemas/TaskPage")),
+    },
+  },
+  {
+    method: "post",
+    path: "/api/v1/tasks",
+    summary: "Create a task",
+    scope: "tasks:write",
+    body: { fields: createApiArgs, required: true },
+    responses: {
+      201: taskResponse("The created task"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/tasks/{id}",
+    params: taskParams,
+    summary: "Get a task",
+    scope: "tasks:read",
+    responses: {
+      200: taskResponse("The task"),
+    },
+  },
+  {
+    method: "patch",
+    path: "/api/v1/tasks/{id}",
+    params: taskParams,
+    summary: "Update a task; omitted fields are left unchanged",
+    scope: "tasks:write",
+    body: { fields: updateApiArgs, required: true },
+    responses: {
+      200: taskResponse("The updated task"),
+    },
+  },
+  {
+    method: "post",
+    path: "/api/v1/tasks/{id}/toggle",
+    params: taskParams,
+    summary: "Toggle whether a task is completed",
+    scope: "tasks:write",
+    body: { fields: toggleApiArgs, required: false },
+    responses: {
+      200: taskResponse("The toggled task"),
+    },
+  },
+  {
+    method: "delete",
+    path: "/api/v1/tasks/{id}",
+    params: taskParams,
+    summary: "Move a task and its subtasks to the trash",
+    scope: "tasks:write",
+    responses: {
+      204: { description: "The task was moved to the trash" },
+    },
+  },
+];
+
+/** Describe validators as OpenAPI parameters found `where`. */
+function toParameters(
+  where: "path" | "query",
+  validators: PropertyValidators = {}
+): JsonSchema[] {
+  return Object.entries(validators).map(([name, validator]) => ({
+    name,
+    in: where,
+    required: validator.isOptional === "required",
+    schema: toJsonSchema(validator),
+  }));
+}
+
+function toOperationObject(operation: Operation): JsonSchema {
+  const parameters = [
+    ...toParameters("path", operation.params),
+    ...toParameters("query", operation.query),
+  ];
+
+  const responses: Record<string, JsonSchema> = { ...operation.responses };
+  if (operation.scope) {
+    responses[401] = ref("responses/Unauthorized");
+    responses[403] = ref("responses/Forbidden");
+    if (operation.query || operation.body) {
+      responses[400] = ref("responses/BadRequest");
+    }
+    if (operation.params) {
+      responses[404] = ref("responses/NotFound");
+    }
+    if (operation.body) {
+      responses[415] = ref("responses/UnsupportedMediaType");
+    }
+  }
+
+  return {
+    summary: operation.summary,
+    ...(operation.scope && {
+      security: [{ apiToken: [operation.scope] }],
+      tags: ["Tasks"],
+    }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(operation.body && {
+      requestBody: {
+        required: operation.body.required,
+        content: {
+          "application/json": {
+            schema: toJsonSchema(v.object(operation.body.fields)),
+          },
+        },
+      },
+    }),
+    responses,
+  };
+}
+
+/** Error response with a problem document body. */
+function problem(description: string): JsonSchema {
+  return {
+    description,
+    content: {
+      "application/problem+json": { schema: ref("schemas/Problem") },
+    },
+  };
+}
+
+/**
+ * The methods and path templates of every documented operation.
+ */
+export function listDocumentedOperations(): { method: Method; path: string }[] {
+  return OPERATIONS.map(({ method, path }) => ({ method, path }));
+}
+
+/**
+ * Build the OpenAPI 3.1 document served at `/api/openapi.json`.
+ * `serverUrl` is the deployment's HTTP actions URL (CONVEX_SITE_URL).
+ */
+export function buildOpenApiDocument(serverUrl: string | undefined) {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const operation of OPERATIONS) {
+    paths[operation.path] ??= {};
+    paths[operation.path][operation.method] = toOperationObject(operation);
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Tasks API",
+      version: "1.0.0",
+      description:
+        "Manage tasks with a personal API token, created under Settings.",
+    },
+    ...(serverUrl && { servers: [{ url: serverUrl }] }),
+    paths,
+    components: {
+      securitySchemes: {
+        apiToken: {
+          type: "http",
+          scheme: "bearer",
+          description:
+            "A personal API token. Reading needs the tasks:read scope; " +
+            "everything else tasks:write.",
+        },
+      },
+      schemas: {
+        Task: toJsonSchema(apiTaskValidator),
+        TaskPage: toJsonSchema(apiTaskPageValidator),
+        Problem: toJsonSchema(apiErrorValidator),
+      },
+      responses: {
+        BadRequest: problem("The request is invalid; `errors` lists why"),
+        Unauthorized: problem("The API token is missing, unknown or expired"),
+        Forbidden: problem("The API token lacks the scope"),
+        NotFound: problem("The task doesn't exist, is trashed or isn't yours"),
+        UnsupportedMediaType: problem("The request body isn't JSON"),
+      },
+    },
+  };
+}
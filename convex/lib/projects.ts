@@ -0,0 +1,24 @@
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+
+/**
+ * Load a project and verify that it belongs to the given user.
+ * Throws if the project doesn't exist or is owned by someone else.
+ */
+export async function getOwnedProject(
+  ctx: QueryCtx,
+  projectId: Id<"projects">,
+  userId: string
+): Promise<Doc<"projects">> {
+  const project = await ctx.db.get(projectId);
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  // Verify ownership
+  if (project.userId !== userId) {
+    throw new Error("Unauthorized");
+  }
+
+  return project;
+}
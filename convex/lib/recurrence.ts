@@ -0,0 +1,160 @@
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { generateKeyBetween } from "./fractionalIndex";
+import { getTaskLabels } from "./labels";
+import { scheduleReminder } from "./reminders";
+import { nextOccurrence, parseRRule, validateTimezone } from "./rrule";
+
+/**
+ * Validate an RRULE and timezone. Returns the rule in canonical form
+ * (upper case, without an "RRULE:" prefix).
+ */
+export function validateRecurrence(rule: string, timezone: string): string {
+  parseRRule(rule);
+  validateTimezone(timezone);
+  return rule.trim().replace(/^RRULE:/i, "").toUpperCase();
+}
+
+/**
+ * Start a new series whose first occurrence is at `start`.
+ */
+export async function createSeries(
+  ctx: MutationCtx,
+  userId: string,
+  rule: string,
+  timezone: string,
+  start: number
+): Promise<Id<"taskSeries">> {
+  return await ctx.db.insert("taskSeries", {
+    userId,
+    rule: validateRecurrence(rule, timezone),
+    timezone,
+    start,
+  });
+}
+
+/**
+ * How a task repeats, for display: the rule that will produce its next
+ * occurrence, or null if it doesn't repeat.
+ */
+export async function getRecurrence(
+  ctx: QueryCtx,
+  task: Doc<"tasks">
+): Promise<{ rule: string; timezone: string; overridden: boolean } | null> {
+  if (!task.seriesId) {
+    return null;
+  }
+  const series = await ctx.db.get(task.seriesId);
+  if (!series) {
+    return null;
+  }
+  return {
+    rule: task.ruleOverride ?? series.rule,
+    timezone: series.timezone,
+    overridden: task.ruleOverride !== undefined,
+  };
+}
+
+/**
+ * Create the occurrence that follows a just-completed repeating task.
+ *
+ * The new task copies the title, description, project, labels and reminder
+ * offset, and is placed right below the completed one. Subtasks are not
+ * copied. Nothing is created when the series has ended or the successor
+ * already exists. Returns the new task's ID, if any.
+ */
+export async function createNextOccurrence(
+  ctx: MutationCtx,
+  task: Doc<"tasks">
+): Promise<Id<"tasks"> | null> {
+  if (!task.seriesId || task.nextOccurrenceId) {
+    return null;
+  }
+  const series = await ctx.db.get(task.seriesId);
+  if (!series) {
+    return null;
+  }
+
+  const current = task.occurrenceAt ?? task.dueAt ?? series.start;
+  // An override only decides this occurrence's successor, so it repeats
+  // from this occurrence rather than from the start of the series
+  const next = task.ruleOverride
+    ? nextOccurrence(
+        parseRRule(task.ruleOverride),
+        { start: current, timezone: series.timezone },
+        current
+      )
+    : nextOccurrence(
+        parseRRule(series.rule),
+        { start: series.start, timezone: series.timezone },
+        current
+      );
+  if (next === null) {
+    return null;
+  }
+
+  const following = task.order
+    ? await ctx.db
+        .query("tasks")
+        .withIndex("by_user_and_parent_and_order", (q) =>
+          q
+            .eq("userId", task.userId)
+            .eq("parentId", task.parentId)
+            .gt("order", task.order!)
+        )
+        .first()
+    : null;
+
+  const remindAt =
+    task.remindAt !== undefined && task.dueAt !== undefined
+      ? next - (task.dueAt - task.remindAt)
+      : undefined;
+
+  const nextId = await ctx.db.insert("tasks", {
+    userId: task.userId,
+    title: task.title,
+    description: task.description,
+    completed: false,
+    createdAt: Date.now(),
+    parentId: task.parentId,
+    projectId: task.projectId,
+    order: generateKeyBetween(task.order ?? null, following?.order ?? null),
+    dueAt: next,
+    dueTimezone: task.dueTimezone,
+    remindAt,
+    remindByEmail: task.remindByEmail,
+    seriesId: series._id,
+    occurrenceAt: next,
+  });
+
+  for (const label of await getTaskLabels(ctx, task._id)) {
+    await ctx.db.insert("taskLabels", {
+      userId: task.userId,
+      taskId: nextId,
+      labelId: label._id,
+    });
+  }
+
+  await ctx.db.patch(task._id, { nextOccurrenceId: nextId });
+  if (remindAt !== undefined) {
+    await scheduleReminder(ctx, (await ctx.db.get(nextId))!);
+  }
+
+  return nextId;
+}
+
+/**
+ * Delete a series once no task refers to it any more.
+ */
+export async function deleteSeriesIfUnused(
+  ctx: MutationCtx,
+  seriesId: Id<"taskSeries">
+) {
+  const remaining = await ctx.db
+    .query("tasks")
+    .withIndex("by_series", (q) => q.eq("seriesId", seriesId))
+    .first();
+  if (!remaining) {
+    await ctx.db.delete(seriesId);
+  }
+}
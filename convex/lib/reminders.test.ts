@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { formatDueDate } from "./reminders";
+
+describe("formatDueDate", () => {
+  const dueAt = Date.UTC(2026, 9, 19, 7, 0);
+
+  it("formats in the given timezone", () => {
+    // ICU versions differ in the space before "AM"
+    expect(formatDueDate(dueAt, "Europe/Berlin")).toMatch(
+      /^Mon, Oct 19, 2026, 9:00\sAM GMT\+2$/
+    );
+    expect(formatDueDate(dueAt, "America/New_York")).toMatch(
+      /^Mon, Oct 19, 2026, 3:00\sAM EDT$/
+    );
+  });
+
+  it("falls back to UTC", () => {
+    expect(formatDueDate(dueAt)).toMatch(/^Mon, Oct 19, 2026, 7:00\sAM UTC$/);
+  });
+});
@@ -0,0 +1,51 @@
+import { MutationCtx } from "../_generated/server";
+import { Doc } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+
+/**
+ * Format a due date for reminders in the given IANA timezone, e.g.
+ * "Mon, Oct 19, 2026, 9:00 AM GMT+2".
+ */
+export function formatDueDate(dueAt: number, timezone = "UTC"): string {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    weekday: "short",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  }).format(dueAt);
+}
+
+/**
+ * Cancel a task's pending reminder job, if any.
+ */
+export async function cancelReminder(ctx: MutationCtx, task: Doc<"tasks">) {
+  if (task.reminderJobId) {
+    await ctx.scheduler.cancel(task.reminderJobId);
+    await ctx.db.patch(task._id, { reminderJobId: undefined });
+  }
+}
+
+/**
+ * (Re)schedule a task's reminder from its current `remindAt`.
+ *
+ * Any pending job is cancelled first. Nothing is scheduled for completed
+ * tasks or reminders that are already in the past.
+ */
+export async function scheduleReminder(ctx: MutationCtx, task: Doc<"tasks">) {
+  await cancelReminder(ctx, task);
+
+  if (task.completed || task.remindAt === undefined || task.remindAt <= Date.now()) {
+    return;
+  }
+
+  const reminderJobId = await ctx.scheduler.runAt(
+    task.remindAt,
+    internal.reminders.fire,
+    { taskId: task._id }
+  );
+  await ctx.db.patch(task._id, { reminderJobId });
+}
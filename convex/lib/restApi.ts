@@ -0,0 +1,258 @@
+import { HttpRouter } from "convex/server";
+import { ActionCtx, httpAction } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { ApiTokenScope } from "./apiTokens";
+import { authenticateApiToken } from "./auth";
+import {
+  ApiErrorData,
+  apiError,
+  getApiErrorData,
+  jsonResponse,
+  noContentResponse,
+  preflightResponse,
+  problemResponse,
+} from "./httpApi";
+
+/** Path of the task collection; single tasks live below it. */
+const TASKS_PATH = "/api/v1/tasks";
+
+type ApiHandler = (
+  ctx: ActionCtx,
+  userId: string,
+  request: Request,
+  url: URL
+) => Promise<Response>;
+
+/**
+ * Wrap an API route: authenticate the request's API token, check it has
+ * `scope`, and send any error back as a problem document.
+ */
+function apiRoute(scope: ApiTokenScope, handler: ApiHandler) {
+  return httpAction(async (ctx, request) => {
+    try {
+      const token = await authenticateApiToken(ctx, request);
+      if (!token) {
+        return problemResponse(
+          request,
+          {
+            status: 401,
+            title: "Unauthorized",
+            detail: "Send a valid API token as a Bearer token",
+          },
+          { "WWW-Authenticate": 'Bearer realm="api"' }
+        );
+      }
+      if (!token.scopes.includes(scope)) {
+        throw apiError(403, `This API token lacks the ${scope} scope`);
+      }
+      return await handler(
+        ctx,
+        token.userId,
+        request,
+        new URL(request.url)
+      );
+    } catch (error) {
+      const data = getApiErrorData(error);
+      if (data) {
+        return problemResponse(request, data);
+      }
+      // Log the error's type and where it was thrown, not its message,
+      // which can quote the request body or token
+      const { pathname } = new URL(request.url);
+      const name = error instanceof Error ? error.name : typeof error;
+      const frames =
+        error instanceof Error
+          ? (error.stack?.split("\n").slice(1).join("\n") ?? "")
+          : "";
+      console.error(
+        `Unhandled ${name} on ${request.method} ${pathname}\n${frames}`
+      );
+      return problemResponse(request, {
+        status: 500,
+        title: "Internal Server Error",
+        detail: "Something went wrong on our side",
+      } satisfies ApiErrorData);
+    }
+  });
+}
+
+/**
+ * Read a request's JSON body. An empty body counts as `{}` when
+ * `optional` is set; anything other than a JSON object is a 400.
+ */
+async function readJsonObject(
+  request: Request,
+  optional = false
+): Promise<Record<string, unknown>> {
+  const text = await request.text();
+  if (!text.trim() && optional) {
+    return {};
+  }
+  const contentType = request.headers.get("Content-Type") ?? "";
+  if (!/^application\/(.+\+)?json\b/i.test(contentType)) {
+    throw apiError(415, "Send the request body as application/json");
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw apiError(400, "The request body isn't valid JSON");
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw apiError(400, "The request body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Split `/api/v1/tasks/<id>[/<action>]` into the task ID and action.
+ */
+function parseTaskPath(url: URL): { id: string; action?: string } {
+  const [id, action, ...rest] = url.pathname
+    .slice(TASKS_PATH.length + 1)
+    .split("/");
+  if (!id || rest.length > 0) {
+    throw apiError(404, "No such API route");
+  }
+  return { id: decodeURIComponent(id), action };
+}
+
+/**
+ * Register the task REST API, authenticated with personal API tokens:
+ *
+ * - `GET /api/v1/tasks` lists top-level tasks a page at a time; pass
+ *   `limit`, `cursor` (the previous page's `nextCursor`), `status` and
+ *   `projectId` as query parameters
+ * - `POST /api/v1/tasks` creates a task
+ * - `GET /api/v1/tasks/:id` gets a task
+ * - `PATCH /api/v1/tasks/:id` updates a task
+ * - `POST /api/v1/tasks/:id/toggle` toggles whether a task is completed
+ * - `DELETE /api/v1/tasks/:id` moves a task to the trash
+ *
+ * Reading needs the `tasks:read` scope and everything else `tasks:write`.
+ * Errors are `application/problem+json` documents; cross-origin access is
+ * set with API_CORS_ORIGINS.
+ */
+export function addTaskApiRoutes(http: HttpRouter) {
+  http.route({
+    path: TASKS_PATH,
+    method: "GET",
+    handler: apiRoute("tasks:read", async (ctx, userId, request, url) => {
+      // Query parameters are strings; only `limit` is a number
+      const input: Record<string, unknown> = Object.fromEntries(
+        url.searchParams
+      );
+      if (typeof input.limit === "string" && input.limit.trim() !== "") {
+        const limit = Number(input.limit);
+        input.limit = Number.isFinite(limit) ? limit : input.limit;
+      }
+      return jsonResponse(
+        request,
+        await ctx.runQuery(internal.tasks.listForApi, { userId, input })
+      );
+    }),
+  });
+
+  http.route({
+    path: TASKS_PATH,
+    method: "POST",
+    handler: apiRoute("tasks:write", async (ctx, userId, request) => {
+      const input = await readJsonObject(request);
+      return jsonResponse(
+        request,
+        await ctx.runMutation(internal.tasks.createForApi, { userId, input }),
+        201
+      );
+    }),
+  });
+
+  http.route({
+    path: TASKS_PATH,
+    method: "OPTIONS",
+    handler: httpAction(async (_ctx, request) =>
+      preflightResponse(request, ["GET", "POST"])
+    ),
+  });
+
+  const prefix = `${TASKS_PATH}/`;
+
+  http.route({
+    pathPrefix: prefix,
+    method: "GET",
+    handler: apiRoute("tasks:read", async (ctx, userId, request, url) => {
+      const { id, action } = parseTaskPath(url);
+      if (action !== undefined) {
+        throw apiError(404, "No such API route");
+      }
+      return jsonResponse(
+        request,
+        await ctx.runQuery(internal.tasks.getForApi, {
+          userId,
+          input: { id },
+        })
+      );
+    }),
+  });
+
+  http.route({
+    pathPrefix: prefix,
+    method: "PATCH",
+    handler: apiRoute("tasks:write", async (ctx, userId, request, url) => {
+      const { id, action } = parseTaskPath(url);
+      if (action !== undefined) {
+        throw apiError(404, "No such API route");
+      }
+      const body = await readJsonObject(request);
+      return jsonResponse(
+        request,
+        await ctx.runMutation(internal.tasks.updateForApi, {
+          userId,
+          input: { ...body, id },
+        })
+      );
+    }),
+  });
+
+  http.route({
+    pathPrefix: prefix,
+    method: "POST",
+    handler: apiRoute("tasks:write", async (ctx, userId, request, url) => {
+      const { id, action } = parseTaskPath(url);
+      if (action !== "toggle") {
+        throw apiError(404, "No such API route");
+      }
+      const body = await readJsonObject(request, true);
+      return jsonResponse(
+        request,
+        await ctx.runMutation(internal.tasks.toggleForApi, {
+          userId,
+          input: { ...body, id },
+        })
+      );
+    }),
+  });
+
+  http.route({
+    pathPrefix: prefix,
+    method: "DELETE",
+    handler: apiRoute("tasks:write", async (ctx, userId, request, url) => {
+      const { id, action } = parseTaskPath(url);
+      if (action !== undefined) {
+        throw apiError(404, "No such API route");
+      }
+      await ctx.runMutation(internal.tasks.removeForApi, {
+        userId,
+        input: { id },
+      });
+      return noContentResponse(request);
+    }),
+  });
+
+  http.route({
+    pathPrefix: prefix,
+    method: "OPTIONS",
+    handler: httpAction(async (_ctx, request) =>
+      preflightResponse(request, ["GET", "POST", "PATCH", "DELETE"])
+    ),
+  });
+}
@@ -0,0 +1,243 @@
+import { describe, expect, it } from "vitest";
+import {
+  listOccurrences,
+  nextOccurrence,
+  parseRRule,
+  validateTimezone,
+} from "./rrule";
+
+/** Expand a rule from an ISO start time and return ISO strings. */
+function expand(
+  rule: string,
+  start: string,
+  timezone: string,
+  limit = 5
+): string[] {
+  return listOccurrences(
+    parseRRule(rule),
+    { start: Date.parse(start), timezone },
+    { limit }
+  ).map((occurrence) => new Date(occurrence).toISOString());
+}
+
+describe("parseRRule", () => {
+  it("parses the supported parts", () => {
+    expect(
+      parseRRule("RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=1MO,-1FR;COUNT=3")
+    ).toEqual({
+      freq: "MONTHLY",
+      interval: 2,
+      count: 3,
+      byDay: [
+        { weekday: 0, n: 1 },
+        { weekday: 4, n: -1 },
+      ],
+      wkst: 0,
+    });
+  });
+
+  it("parses UNTIL as a UTC instant or a date", () => {
+    expect(parseRRule("FREQ=DAILY;UNTIL=20240105T120000Z").until).toEqual({
+      utc: Date.UTC(2024, 0, 5, 12),
+    });
+    expect(parseRRule("FREQ=DAILY;UNTIL=20240105").until).toEqual({
+      date: Date.UTC(2024, 0, 5) / 86_400_000,
+    });
+  });
+
+  it("rejects malformed and unsupported rules", () => {
+    expect(() => parseRRule("")).toThrow();
+    expect(() => parseRRule("INTERVAL=2")).toThrow("FREQ");
+    expect(() => parseRRule("FREQ=HOURLY")).toThrow("Unsupported FREQ");
+    expect(() => parseRRule("FREQ=DAILY;BYHOUR=9")).toThrow("Unsupported");
+    expect(() => parseRRule("FREQ=DAILY;INTERVAL=0")).toThrow();
+    expect(() => parseRRule("FREQ=WEEKLY;BYDAY=XX")).toThrow("weekday");
+    expect(() => parseRRule("FREQ=WEEKLY;BYDAY=1MO")).toThrow("ordinals");
+    expect(() => parseRRule("FREQ=DAILY;COUNT=2;UNTIL=20240101")).toThrow();
+    expect(() => parseRRule("FREQ=DAILY;UNTIL=20240101T000000")).toThrow("UTC");
+  });
+});
+
+describe("validateTimezone", () => {
+  it("accepts IANA names and rejects unknown ones", () => {
+    expect(validateTimezone("Europe/Berlin")).toBe("Europe/Berlin");
+    expect(() => validateTimezone("Mars/Olympus_Mons")).toThrow("timezone");
+  });
+});
+
+describe("listOccurrences", () => {
+  it("repeats daily with an interval", () => {
+    expect(
+      expand("FREQ=DAILY;INTERVAL=2", "2024-01-01T09:00:00Z", "UTC", 3)
+    ).toEqual([
+      "2024-01-01T09:00:00.000Z",
+      "2024-01-03T09:00:00.000Z",
+      "2024-01-05T09:00:00.000Z",
+    ]);
+  });
+
+  it("repeats every weekday", () => {
+    // Friday 2024-01-05
+    expect(
+      expand("FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR", "2024-01-05T09:00:00Z", "UTC", 3)
+    ).toEqual([
+      "2024-01-05T09:00:00.000Z",
+      "2024-01-08T09:00:00.000Z",
+      "2024-01-09T09:00:00.000Z",
+    ]);
+  });
+
+  it("repeats every other week from the start's week", () => {
+    // Wednesday 2024-01-03
+    expect(
+      expand("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE", "2024-01-03T09:00:00Z", "UTC", 4)
+    ).toEqual([
+      "2024-01-03T09:00:00.000Z",
+      "2024-01-15T09:00:00.000Z",
+      "2024-01-17T09:00:00.000Z",
+      "2024-01-29T09:00:00.000Z",
+    ]);
+  });
+
+  it("repeats on the first Monday of each month", () => {
+    expect(
+      expand("FREQ=MONTHLY;BYDAY=1MO", "2024-01-01T09:00:00Z", "UTC", 4)
+    ).toEqual([
+      "2024-01-01T09:00:00.000Z",
+      "2024-02-05T09:00:00.000Z",
+      "2024-03-04T09:00:00.000Z",
+      "2024-04-01T09:00:00.000Z",
+    ]);
+  });
+
+  it("matches BYSETPOS rules to their BYDAY ordinal equivalent", () => {
+    expect(
+      expand("FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1", "2024-01-01T09:00:00Z", "UTC", 3)
+    ).toEqual([
+      "2024-01-31T09:00:00.000Z",
+      "2024-02-29T09:00:00.000Z",
+      "2024-03-29T09:00:00.000Z",
+    ]);
+    expect(
+      expand("FREQ=MONTHLY;BYDAY=-1FR", "2024-01-01T09:00:00Z", "UTC", 2)
+    ).toEqual(["2024-01-26T09:00:00.000Z", "2024-02-23T09:00:00.000Z"]);
+  });
+
+  it("skips months that don't have the day", () => {
+    expect(
+      expand("FREQ=MONTHLY", "2024-01-31T09:00:00Z", "UTC", 3)
+    ).toEqual([
+      "2024-01-31T09:00:00.000Z",
+      "2024-03-31T09:00:00.000Z",
+      "2024-05-31T09:00:00.000Z",
+    ]);
+    expect(
+      expand("FREQ=MONTHLY;BYMONTHDAY=-1", "2024-01-31T09:00:00Z", "UTC", 2)
+    ).toEqual(["2024-01-31T09:00:00.000Z", "2024-02-29T09:00:00.000Z"]);
+  });
+
+  it("repeats yearly, including on leap days only in leap years", () => {
+    expect(expand("FREQ=YEARLY", "2024-02-29T09:00:00Z", "UTC", 2)).toEqual([
+      "2024-02-29T09:00:00.000Z",
+      "2028-02-29T09:00:00.000Z",
+    ]);
+    expect(
+      expand("FREQ=YEARLY;BYMONTH=11;BYDAY=4TH", "2024-01-01T12:00:00Z", "UTC", 2)
+    ).toEqual(["2024-11-28T12:00:00.000Z", "2025-11-27T12:00:00.000Z"]);
+  });
+
+  it("stops after COUNT occurrences or at UNTIL", () => {
+    expect(
+      expand("FREQ=DAILY;COUNT=2", "2024-01-01T09:00:00Z", "UTC", 5)
+    ).toHaveLength(2);
+    expect(
+      expand("FREQ=DAILY;UNTIL=20240103T090000Z", "2024-01-01T09:00:00Z", "UTC", 5)
+    ).toHaveLength(3);
+    expect(
+      expand("FREQ=DAILY;UNTIL=20240102", "2024-01-01T23:00:00Z", "Europe/Berlin", 5)
+    ).toEqual(["2024-01-01T23:00:00.000Z"]);
+  });
+
+  it("returns nothing for rules that never match", () => {
+    expect(
+      expand("FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30", "2024-01-01T09:00:00Z", "UTC")
+    ).toEqual([]);
+  });
+});
+
+describe("daylight saving time", () => {
+  it("keeps the local time across the spring transition", () => {
+    // 09:00 in New York is 14:00 UTC in winter and 13:00 UTC in summer
+    expect(
+      expand("FREQ=DAILY", "2024-03-09T14:00:00Z", "America/New_York", 3)
+    ).toEqual([
+      "2024-03-09T14:00:00.000Z",
+      "2024-03-10T13:00:00.000Z",
+      "2024-03-11T13:00:00.000Z",
+    ]);
+  });
+
+  it("keeps the local time across the autumn transition", () => {
+    // 09:00 in Berlin is 07:00 UTC in summer and 08:00 UTC in winter
+    expect(
+      expand("FREQ=WEEKLY", "2024-10-20T07:00:00Z", "Europe/Berlin", 2)
+    ).toEqual(["2024-10-20T07:00:00.000Z", "2024-10-27T08:00:00.000Z"]);
+  });
+
+  it("moves times in the spring gap forward", () => {
+    // 02:30 doesn't exist in New York on 2024-03-10; it becomes 03:30 EDT
+    expect(
+      expand("FREQ=DAILY", "2024-03-09T07:30:00Z", "America/New_York", 3)
+    ).toEqual([
+      "2024-03-09T07:30:00.000Z",
+      "2024-03-10T07:30:00.000Z",
+      "2024-03-11T06:30:00.000Z",
+    ]);
+  });
+
+  it("uses the first instant for times in the autumn overlap", () => {
+    // 01:30 happens twice in New York on 2024-11-03; the EDT one comes first
+    expect(
+      expand("FREQ=DAILY", "2024-11-02T05:30:00Z", "America/New_York", 3)
+    ).toEqual([
+      "2024-11-02T05:30:00.000Z",
+      "2024-11-03T05:30:00.000Z",
+      "2024-11-04T06:30:00.000Z",
+    ]);
+  });
+
+  it("handles southern hemisphere transitions", () => {
+    // 09:00 in Sydney: AEST (+10) until 2024-10-06 02:00, then AEDT (+11)
+    expect(
+      expand("FREQ=DAILY", "2024-10-04T23:00:00Z", "Australia/Sydney", 3)
+    ).toEqual([
+      "2024-10-04T23:00:00.000Z",
+      "2024-10-05T22:00:00.000Z",
+      "2024-10-06T22:00:00.000Z",
+    ]);
+  });
+});
+
+describe("nextOccurrence", () => {
+  const series = {
+    start: Date.parse("2024-01-01T09:00:00Z"),
+    timezone: "UTC",
+  };
+
+  it("returns the first occurrence strictly after the given time", () => {
+    const rule = parseRRule("FREQ=WEEKLY;BYDAY=MO,TH");
+    expect(nextOccurrence(rule, series, series.start)).toBe(
+      Date.parse("2024-01-04T09:00:00Z")
+    );
+    expect(nextOccurrence(rule, series, Date.parse("2024-01-04T09:00:00Z"))).toBe(
+      Date.parse("2024-01-08T09:00:00Z")
+    );
+  });
+
+  it("returns null once the series has ended", () => {
+    const rule = parseRRule("FREQ=DAILY;COUNT=2");
+    expect(
+      nextOccurrence(rule, series, Date.parse("2024-01-02T09:00:00Z"))
+    ).toBeNull();
+  });
+});
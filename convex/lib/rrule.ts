@@ -0,0 +1,541 @@
+/**
+ * Recurrence rules in the RFC 5545 RRULE format.
+ *
+ * Supports FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, COUNT, UNTIL,
+ * BYDAY (with ordinals such as 1MO or -1FR for monthly and yearly rules),
+ * BYMONTHDAY, BYMONTH, BYSETPOS and WKST. Occurrences keep the wall-clock
+ * time of the series start in the series' IANA timezone, so "every day at
+ * 09:00 in Europe/Berlin" stays at 09:00 across daylight saving changes.
+ *
+ * Times that fall into a DST gap are moved forward by the length of the gap
+ * and ambiguous times during a DST overlap resolve to the first of the two
+ * instants, as RFC 5545 prescribes.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Upper bound on periods scanned, so rules that never match can't loop forever. */
+const MAX_PERIODS = 100_000;
+
+const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+const FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"] as const;
+
+export type Frequency = (typeof FREQUENCIES)[number];
+
+/** A BYDAY entry: a weekday (0 = Monday) and an optional ordinal like the 1 in 1MO. */
+export type ByDay = { weekday: number; n?: number };
+
+/** A parsed recurrence rule. */
+export type RRule = {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  /** Last allowed occurrence: an instant, or a date in the series' timezone. */
+  until?: { utc: number } | { date: number };
+  byDay?: ByDay[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  /** First day of the week (0 = Monday). */
+  wkst: number;
+};
+
+/** Where a series starts: its first instant and the timezone it repeats in. */
+export type SeriesStart = {
+  start: number;
+  timezone: string;
+};
+
+type LocalDateTime = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function parseInteger(value: string, part: string, min: number, max: number) {
+  if (!/^[+-]?\d+$/.test(value)) {
+    throw new Error(`Invalid ${part} value: ${value}`);
+  }
+  const n = Number(value);
+  if (n < min || n > max || n === 0) {
+    throw new Error(`Invalid ${part} value: ${value}`);
+  }
+  return n;
+}
+
+function parseList(value: string, part: string, min: number, max: number) {
+  return value.split(",").map((item) => parseInteger(item, part, min, max));
+}
+
+function parseWeekday(value: string): number {
+  const weekday = WEEKDAYS.indexOf(value as (typeof WEEKDAYS)[number]);
+  if (weekday === -1) {
+    throw new Error(`Invalid weekday: ${value}`);
+  }
+  return weekday;
+}
+
+function parseUntil(value: string): RRule["until"] {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+    value
+  );
+  if (!match) {
+    throw new Error(`Invalid UNTIL value: ${value}`);
+  }
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (hour === undefined) {
+    return { date: dayNumber(Number(year), Number(month), Number(day)) };
+  }
+  if (!utc) {
+    throw new Error("UNTIL with a time must be in UTC (end with Z)");
+  }
+  return {
+    utc: Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hour),
+      Number(minute),
+      Number(second)
+    ),
+  };
+}
+
+/**
+ * Parse an RRULE string such as "FREQ=WEEKLY;BYDAY=MO,WE,FR".
+ * A leading "RRULE:" is accepted. Throws on malformed or unsupported rules.
+ */
+export function parseRRule(text: string): RRule {
+  const body = text.trim().replace(/^RRULE:/i, "");
+  if (body.length === 0) {
+    throw new Error("Recurrence rule cannot be empty");
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of body.split(";")) {
+    const [key, value, ...rest] = part.split("=");
+    if (!key || value === undefined || rest.length > 0 || value === "") {
+      throw new Error(`Invalid RRULE part: ${part}`);
+    }
+    const name = key.toUpperCase();
+    if (parts.has(name)) {
+      throw new Error(`Duplicate RRULE part: ${name}`);
+    }
+    parts.set(name, value.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  if (!freq) {
+    throw new Error("RRULE must have a FREQ");
+  }
+  if (!FREQUENCIES.includes(freq as Frequency)) {
+    throw new Error(`Unsupported FREQ: ${freq}`);
+  }
+
+  const rule: RRule = {
+    freq: freq as Frequency,
+    interval: 1,
+    wkst: 0,
+  };
+
+  for (const [name, value] of parts) {
+    switch (name) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        rule.interval = parseInteger(value, name, 1, 1000);
+        break;
+      case "COUNT":
+        rule.count = parseInteger(value, name, 1, 10_000);
+        break;
+      case "UNTIL":
+        rule.until = parseUntil(value);
+        break;
+      case "BYDAY":
+        rule.byDay = value.split(",").map((item) => {
+          const match = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(item);
+          if (!match) {
+            throw new Error(`Invalid BYDAY value: ${item}`);
+          }
+          const weekday = parseWeekday(match[2]);
+          return match[1] === undefined
+            ? { weekday }
+            : { weekday, n: parseInteger(match[1], name, -53, 53) };
+        });
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = parseList(value, name, -31, 31);
+        break;
+      case "BYMONTH":
+        rule.byMonth = parseList(value, name, 1, 12);
+        break;
+      case "BYSETPOS":
+        rule.bySetPos = parseList(value, name, -366, 366);
+        break;
+      case "WKST":
+        rule.wkst = parseWeekday(value);
+        break;
+      default:
+        throw new Error(`Unsupported RRULE part: ${name}`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error("RRULE cannot have both COUNT and UNTIL");
+  }
+  if (rule.freq === "WEEKLY" && rule.byMonthDay) {
+    throw new Error("BYMONTHDAY cannot be used with FREQ=WEEKLY");
+  }
+  if (
+    (rule.freq === "DAILY" || rule.freq === "WEEKLY") &&
+    rule.byDay?.some((day) => day.n !== undefined)
+  ) {
+    throw new Error(`BYDAY ordinals cannot be used with FREQ=${rule.freq}`);
+  }
+  if (
+    rule.freq === "MONTHLY" &&
+    rule.byDay?.some((day) => day.n !== undefined && Math.abs(day.n) > 5)
+  ) {
+    throw new Error("BYDAY ordinals must be between -5 and 5 for FREQ=MONTHLY");
+  }
+
+  return rule;
+}
+
+// ---------------------------------------------------------------------------
+// Timezones
+// ---------------------------------------------------------------------------
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a timezone is a valid IANA name such as "Europe/Berlin".
+ * Throws otherwise.
+ */
+export function validateTimezone(timezone: string): string {
+  try {
+    getFormatter(timezone);
+  } catch {
+    throw new Error(`Unknown timezone: ${timezone}`);
+  }
+  return timezone;
+}
+
+function toLocal(instant: number, timezone: string): LocalDateTime {
+  const values: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(instant)) {
+    if (part.type !== "literal") {
+      values[part.type] = Number(part.value);
+    }
+  }
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour,
+    minute: values.minute,
+    second: values.second,
+  };
+}
+
+function localAsUtc(local: LocalDateTime): number {
+  return Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second
+  );
+}
+
+/** Offset of the timezone from UTC at an instant, in milliseconds. */
+function offsetAt(instant: number, timezone: string): number {
+  const wholeSeconds = Math.floor(instant / 1000) * 1000;
+  return localAsUtc(toLocal(wholeSeconds, timezone)) - wholeSeconds;
+}
+
+/**
+ * Convert a wall-clock time in a timezone to an instant.
+ * Times in a DST gap move forward; ambiguous times take the earlier instant.
+ */
+function fromLocal(local: LocalDateTime, timezone: string): number {
+  const wall = localAsUtc(local);
+  // Any transition near this wall time happens between these two offsets
+  const offsetBefore = offsetAt(wall - DAY_MS / 2, timezone);
+  const offsetAfter = offsetAt(wall + DAY_MS / 2, timezone);
+
+  const candidates = [wall - offsetBefore, wall - offsetAfter].filter(
+    (instant) => instant + offsetAt(instant, timezone) === wall
+  );
+  if (candidates.length > 0) {
+    return Math.min(...candidates);
+  }
+  // The wall time doesn't exist: interpret it with the offset before the gap
+  return wall - offsetBefore;
+}
+
+// ---------------------------------------------------------------------------
+// Calendar helpers. Dates are day numbers: days since 1970-01-01.
+// ---------------------------------------------------------------------------
+
+function dayNumber(year: number, month: number, day: number): number {
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+function fromDayNumber(n: number): { year: number; month: number; day: number } {
+  const date = new Date(n * DAY_MS);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  };
+}
+
+/** Weekday of a day number, 0 = Monday. */
+function weekdayOf(n: number): number {
+  return (new Date(n * DAY_MS).getUTCDay() + 6) % 7;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** Resolve 1-based positions (negative counts from the end) within a list. */
+function pickPositions<T>(items: T[], positions: number[]): T[] {
+  const picked = new Set<number>();
+  for (const position of positions) {
+    const index = position > 0 ? position - 1 : items.length + position;
+    if (index >= 0 && index < items.length) {
+      picked.add(index);
+    }
+  }
+  return [...picked].sort((a, b) => a - b).map((index) => items[index]);
+}
+
+/** Days from `first` to `last` (inclusive) matching BYDAY, honouring ordinals. */
+function daysMatchingByDay(first: number, last: number, byDay: ByDay[]): number[] {
+  const days = new Set<number>();
+  for (const { weekday, n } of byDay) {
+    const matching: number[] = [];
+    for (let day = first; day <= last; day++) {
+      if (weekdayOf(day) === weekday) {
+        matching.push(day);
+      }
+    }
+    for (const day of n === undefined ? matching : pickPositions(matching, [n])) {
+      days.add(day);
+    }
+  }
+  return [...days].sort((a, b) => a - b);
+}
+
+/** Days of a month matching BYMONTHDAY and/or BYDAY, or `fallbackDay`. */
+function daysInMonthMatching(
+  rule: RRule,
+  year: number,
+  month: number,
+  fallbackDay: number
+): number[] {
+  const first = dayNumber(year, month, 1);
+  const length = daysInMonth(year, month);
+  const last = first + length - 1;
+
+  let days: number[];
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay
+      .map((day) => (day > 0 ? day : length + day + 1))
+      .filter((day) => day >= 1 && day <= length)
+      .map((day) => first + day - 1);
+    if (rule.byDay) {
+      const weekdays = new Set(rule.byDay.map((day) => day.weekday));
+      days = days.filter((day) => weekdays.has(weekdayOf(day)));
+    }
+  } else if (rule.byDay) {
+    days = daysMatchingByDay(first, last, rule.byDay);
+  } else {
+    days = fallbackDay <= length ? [first + fallbackDay - 1] : [];
+  }
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+/**
+ * The candidate days of one period (a day, week, month or year), before
+ * BYSETPOS. `period` counts periods since the series start.
+ */
+function periodDays(rule: RRule, startDay: number, period: number): number[] {
+  const start = fromDayNumber(startDay);
+  const inByMonth = (day: number) =>
+    !rule.byMonth || rule.byMonth.includes(fromDayNumber(day).month);
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const day = startDay + period;
+      const { day: monthDay, year, month } = fromDayNumber(day);
+      const length = daysInMonth(year, month);
+      const matchesMonthDay =
+        !rule.byMonthDay ||
+        rule.byMonthDay.some(
+          (d) => (d > 0 ? d : length + d + 1) === monthDay
+        );
+      const matchesWeekday =
+        !rule.byDay || rule.byDay.some((d) => d.weekday === weekdayOf(day));
+      return inByMonth(day) && matchesMonthDay && matchesWeekday ? [day] : [];
+    }
+    case "WEEKLY": {
+      const weekStart =
+        startDay - ((weekdayOf(startDay) - rule.wkst + 7) % 7) + period * 7;
+      const weekdays = rule.byDay
+        ? new Set(rule.byDay.map((day) => day.weekday))
+        : new Set([weekdayOf(startDay)]);
+      const days: number[] = [];
+      for (let day = weekStart; day < weekStart + 7; day++) {
+        if (weekdays.has(weekdayOf(day)) && inByMonth(day)) {
+          days.push(day);
+        }
+      }
+      return days;
+    }
+    case "MONTHLY": {
+      const monthIndex = start.year * 12 + (start.month - 1) + period;
+      const year = Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      if (rule.byMonth && !rule.byMonth.includes(month)) {
+        return [];
+      }
+      return daysInMonthMatching(rule, year, month, start.day);
+    }
+    case "YEARLY": {
+      const year = start.year + period;
+      if (rule.byMonth) {
+        return rule.byMonth
+          .slice()
+          .sort((a, b) => a - b)
+          .flatMap((month) => daysInMonthMatching(rule, year, month, start.day));
+      }
+      if (rule.byDay && !rule.byMonthDay) {
+        // Ordinals count weeks within the whole year
+        return daysMatchingByDay(
+          dayNumber(year, 1, 1),
+          dayNumber(year, 12, 31),
+          rule.byDay
+        );
+      }
+      if (rule.byMonthDay) {
+        return Array.from({ length: 12 }, (_, i) => i + 1).flatMap((month) =>
+          daysInMonthMatching(rule, year, month, start.day)
+        );
+      }
+      return daysInMonthMatching(rule, year, start.month, start.day);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Expansion
+// ---------------------------------------------------------------------------
+
+/**
+ * Iterate over a series' occurrences in order, as UTC timestamps.
+ * Occurrences before the series start are skipped; the start itself is only
+ * included when it matches the rule.
+ */
+export function* expandRRule(
+  rule: RRule,
+  { start, timezone }: SeriesStart
+): Generator<number> {
+  const local = toLocal(start, timezone);
+  const startDay = dayNumber(local.year, local.month, local.day);
+  let emitted = 0;
+
+  for (let i = 0; i < MAX_PERIODS; i++) {
+    let days = periodDays(rule, startDay, i * rule.interval);
+    if (rule.bySetPos) {
+      days = pickPositions(days, rule.bySetPos);
+    }
+
+    for (const day of days) {
+      const date = fromDayNumber(day);
+      const occurrence = fromLocal(
+        { ...date, hour: local.hour, minute: local.minute, second: local.second },
+        timezone
+      );
+      if (occurrence < start) {
+        continue;
+      }
+      if (rule.until) {
+        const pastUntil =
+          "utc" in rule.until ? occurrence > rule.until.utc : day > rule.until.date;
+        if (pastUntil) {
+          return;
+        }
+      }
+      yield occurrence;
+      emitted++;
+      if (rule.count !== undefined && emitted >= rule.count) {
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * List up to `limit` occurrences of a series, optionally only those after
+ * a given instant.
+ */
+export function listOccurrences(
+  rule: RRule,
+  series: SeriesStart,
+  { after = -Infinity, limit }: { after?: number; limit: number }
+): number[] {
+  const occurrences: number[] = [];
+  if (limit <= 0) {
+    return occurrences;
+  }
+  for (const occurrence of expandRRule(rule, series)) {
+    if (occurrence > after) {
+      occurrences.push(occurrence);
+      if (occurrences.length >= limit) {
+        break;
+      }
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * The first occurrence of a series strictly after `after`, or null when the
+ * series has ended.
+ */
+export function nextOccurrence(
+  rule: RRule,
+  series: SeriesStart,
+  after: number
+): number | null {
+  return listOccurrences(rule, series, { after, limit: 1 })[0] ?? null;
+}
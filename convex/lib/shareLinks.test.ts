@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { createShareToken, parseShareToken } from "./shareLinks";
+
+const SECRET = "test-secret";
+const EXPIRES_AT = Date.UTC(2024, 0, 1);
+
+describe("share link tokens", () => {
+  it("round-trips the link ID and expiry", async () => {
+    const token = await createShareToken("abc123", EXPIRES_AT, SECRET);
+    expect(await parseShareToken(token, SECRET)).toEqual({
+      linkId: "abc123",
+      expiresAt: EXPIRES_AT,
+    });
+  });
+
+  it("only uses URL-safe characters", async () => {
+    const token = await createShareToken("abc123", EXPIRES_AT, SECRET);
+    expect(token).toMatch(/^[A-Za-z0-9._-]+$/);
+  });
+
+  it("rejects tokens signed with another secret", async () => {
+    const token = await createShareToken("abc123", EXPIRES_AT, "other-secret");
+    expect(await parseShareToken(token, SECRET)).toBeNull();
+  });
+
+  it("rejects tokens whose expiry or link was changed", async () => {
+    const token = await createShareToken("abc123", EXPIRES_AT, SECRET);
+    const [linkId, , signature] = token.split(".");
+    const later = (EXPIRES_AT + 86_400_000).toString(36);
+    expect(
+      await parseShareToken(`${linkId}.${later}.${signature}`, SECRET)
+    ).toBeNull();
+    expect(
+      await parseShareToken(token.replace("abc123", "abc124"), SECRET)
+    ).toBeNull();
+  });
+
+  it("rejects malformed tokens", async () => {
+    expect(await parseShareToken("", SECRET)).toBeNull();
+    expect(await parseShareToken("a.b", SECRET)).toBeNull();
+    expect(await parseShareToken("a.b.c.d", SECRET)).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+import { hmacSha256, timingSafeEqual } from "./signing";
+
+/** Longest a share link can stay valid. */
+export const MAX_SHARE_LINK_DAYS = 30;
+
+/**
+ * Get the secret share link tokens are signed with.
+ * Throws if SHARE_LINK_SECRET isn't set, since unsigned links would let
+ * anyone download any shared file.
+ */
+export function getShareLinkSecret(): string {
+  const secret = process.env.SHARE_LINK_SECRET;
+  if (!secret) {
+    throw new Error("SHARE_LINK_SECRET is not configured");
+  }
+  return secret;
+}
+
+/**
+ * Build the token for a share link: its ID and expiry, signed so neither
+ * can be forged or changed. Format: `<linkId>.<expiresAt base36>.<signature>`.
+ */
+export async function createShareToken(
+  linkId: string,
+  expiresAt: number,
+  secret: string
+): Promise<string> {
+  const payload = `${linkId}.${expiresAt.toString(36)}`;
+  return `${payload}.${await hmacSha256(secret, payload)}`;
+}
+
+/**
+ * Verify a share link token's signature and read its link ID and expiry.
+ * Returns null for malformed or tampered tokens. Doesn't check whether
+ * the link has expired.
+ */
+export async function parseShareToken(
+  token: string,
+  secret: string
+): Promise<{ linkId: string; expiresAt: number } | null> {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+
+  const [linkId, expiry, signature] = parts;
+  const expected = await hmacSha256(secret, `${linkId}.${expiry}`);
+  if (!timingSafeEqual(signature, expected)) return null;
+
+  const expiresAt = parseInt(expiry, 36);
+  if (!Number.isSafeInteger(expiresAt)) return null;
+  return { linkId, expiresAt };
+}
+
+/**
+ * Build the public URL that serves a share link (see the `/files/` route
+ * in http.ts).
+ */
+export function getShareLinkUrl(token: string): string {
+  return `${process.env.CONVEX_SITE_URL}/files/${token}`;
+}
@@ -0,0 +1,58 @@
+/**
+ * Hashing and HMAC helpers built on Web Crypto, which Convex functions,
+ * HTTP actions and Node all provide.
+ */
+
+const encoder = new TextEncoder();
+
+/** Encode bytes as unpadded base64url, which is safe in URLs. */
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Sign a message with HMAC-SHA256. Returns the signature as base64url.
+ */
+export async function hmacSha256(
+  secret: string,
+  message: string
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(message)
+  );
+  return toBase64Url(new Uint8Array(signature));
+}
+
+/**
+ * Hash a string with SHA-256. Returns the digest as lowercase hex.
+ */
+export async function sha256Hex(message: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(message));
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * Compare two strings in time that doesn't depend on where they differ,
+ * so signatures can't be guessed byte by byte.
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
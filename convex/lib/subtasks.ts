@@ -0,0 +1,99 @@
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+
+/** Maximum nesting depth of subtasks below a top-level task. */
+export const MAX_SUBTASK_DEPTH = 5;
+
+/**
+ * A task together with its nested subtasks.
+ */
+export type TaskTreeNode = Doc<"tasks"> & { subtasks: TaskTreeNode[] };
+
+/**
+ * Options for walking subtasks.
+ */
+export type SubtaskOptions = {
+  /** Also include subtasks that are in the trash */
+  includeTrashed?: boolean;
+};
+
+/**
+ * Get a task's direct subtasks in their manual order.
+ * Trashed subtasks are skipped unless `includeTrashed` is set.
+ */
+export async function getChildren(
+  ctx: QueryCtx,
+  task: Doc<"tasks">,
+  options: SubtaskOptions = {}
+): Promise<Doc<"tasks">[]> {
+  if (options.includeTrashed) {
+    return await ctx.db
+      .query("tasks")
+      .withIndex("by_user_and_parent_and_order", (q) =>
+        q.eq("userId", task.userId).eq("parentId", task._id)
+      )
+      .collect();
+  }
+  return await ctx.db
+    .query("tasks")
+    .withIndex("by_user_and_parent_and_deletedAt_and_order", (q) =>
+      q
+        .eq("userId", task.userId)
+        .eq("parentId", task._id)
+        .eq("deletedAt", undefined)
+    )
+    .collect();
+}
+
+/**
+ * Get all subtasks below a task, at any depth.
+ * Trashed subtasks are skipped unless `includeTrashed` is set.
+ */
+export async function getDescendants(
+  ctx: QueryCtx,
+  task: Doc<"tasks">,
+  options: SubtaskOptions = {}
+): Promise<Doc<"tasks">[]> {
+  const descendants: Doc<"tasks">[] = [];
+  const queue = [task];
+  while (queue.length > 0) {
+    const children = await getChildren(ctx, queue.shift()!, options);
+    descendants.push(...children);
+    queue.push(...children);
+  }
+  return descendants;
+}
+
+/**
+ * Build the subtree rooted at a task.
+ */
+export async function getTree(
+  ctx: QueryCtx,
+  task: Doc<"tasks">
+): Promise<TaskTreeNode> {
+  const children = await getChildren(ctx, task);
+  return {
+    ...task,
+    subtasks: await Promise.all(children.map((child) => getTree(ctx, child))),
+  };
+}
+
+/**
+ * Count how many levels of parents sit above a task (0 for a top-level task).
+ */
+export async function getDepth(
+  ctx: QueryCtx,
+  task: Doc<"tasks">
+): Promise<number> {
+  let depth = 0;
+  let parentId: Id<"tasks"> | undefined = task.parentId;
+  while (parentId) {
+    const parent: Doc<"tasks"> | null = await ctx.db.get(parentId);
+    if (!parent) {
+      break;
+    }
+    depth++;
+    parentId = parent.parentId;
+  }
+  return depth;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  fitWithin,
+  pickBestFit,
+  readPngSize,
+  resizeRgba,
+} from "./thumbnails";
+
+describe("fitWithin", () => {
+  it("scales the longest side down to the limit", () => {
+    expect(fitWithin(2000, 1000, 500)).toEqual({ width: 500, height: 250 });
+    expect(fitWithin(300, 1200, 600)).toEqual({ width: 150, height: 600 });
+  });
+
+  it("returns null for images that already fit", () => {
+    expect(fitWithin(400, 300, 512)).toBeNull();
+    expect(fitWithin(512, 512, 512)).toBeNull();
+  });
+
+  it("never produces an empty dimension", () => {
+    expect(fitWithin(10_000, 1, 128)).toEqual({ width: 128, height: 1 });
+  });
+});
+
+describe("resizeRgba", () => {
+  it("averages the pixels each target pixel covers", () => {
+    // 2x2 image: black, white / white, black
+    const source = new Uint8Array([
+      0, 0, 0, 255, 255, 255, 255, 255,
+      255, 255, 255, 255, 0, 0, 0, 255,
+    ]);
+    expect(Array.from(resizeRgba(source, 2, 2, 1, 1))).toEqual([
+      128, 128, 128, 255,
+    ]);
+  });
+
+  it("keeps each row's colour when scaling one axis", () => {
+    // 4x2 image: a red row over a blue row
+    const red = [255, 0, 0, 255];
+    const blue = [0, 0, 255, 255];
+    const source = new Uint8Array([
+      ...red, ...red, ...red, ...red,
+      ...blue, ...blue, ...blue, ...blue,
+    ]);
+    expect(Array.from(resizeRgba(source, 4, 2, 2, 2))).toEqual([
+      ...red, ...red, ...blue, ...blue,
+    ]);
+  });
+});
+
+describe("pickBestFit", () => {
+  const images = [
+    { name: "original", width: 2000 },
+    { name: "small", width: 128 },
+    { name: "medium", width: 512 },
+  ];
+
+  it("picks the smallest image wide enough", () => {
+    expect(pickBestFit(images, 100)?.name).toBe("small");
+    expect(pickBestFit(images, 300)?.name).toBe("medium");
+    expect(pickBestFit(images, 1000)?.name).toBe("original");
+  });
+
+  it("falls back to the largest image", () => {
+    expect(pickBestFit(images, 5000)?.name).toBe("original");
+    expect(pickBestFit([], 100)).toBeNull();
+  });
+});
+
+describe("readPngSize", () => {
+  // Signature, then the IHDR chunk's length, type, width and height
+  const header = [
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48,
+    0x44, 0x52, 0, 0, 0x1f, 0x40, 0, 1, 0x86, 0xa0,
+  ];
+
+  it("reads the dimensions from the header", () => {
+    expect(readPngSize(new Uint8Array(header))).toEqual({
+      width: 8000,
+      height: 100000,
+    });
+  });
+
+  it("returns null for anything else", () => {
+    expect(readPngSize(new Uint8Array(header.slice(0, 20)))).toBeNull();
+    expect(readPngSize(new Uint8Array([0xff, 0xd8, ...header]))).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+import { v } from "convex/values";
+
+/**
+ * Thumbnail sizes, as the longest side in pixels. Images are only ever
+ * scaled down, so sizes at least as large as the original are skipped.
+ */
+export const THUMBNAIL_SIZES = {
+  small: 128,
+  medium: 512,
+} as const;
+
+export const thumbnailSizeValidator = v.union(
+  v.literal("small"),
+  v.literal("medium")
+);
+
+export type ThumbnailSize = typeof thumbnailSizeValidator.type;
+
+/** Content types thumbnails can be generated for. */
+export const THUMBNAIL_SOURCE_TYPES = ["image/jpeg", "image/png"];
+
+/** The 8 bytes every PNG file starts with. */
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Read a PNG's dimensions from its header (the IHDR chunk, which must come
+ * first) without decoding it. Returns null if the bytes aren't a PNG.
+ */
+export function readPngSize(
+  bytes: Uint8Array
+): { width: number; height: number } | null {
+  if (
+    bytes.length < 24 ||
+    PNG_SIGNATURE.some((byte, i) => bytes[i] !== byte) ||
+    String.fromCharCode(...bytes.subarray(12, 16)) !== "IHDR"
+  ) {
+    return null;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+/**
+ * Scale dimensions down to fit within a square of `max` pixels, keeping
+ * the aspect ratio. Returns null if the image already fits.
+ */
+export function fitWithin(
+  width: number,
+  height: number,
+  max: number
+): { width: number; height: number } | null {
+  if (width <= max && height <= max) return null;
+  const scale = max / Math.max(width, height);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Downscale RGBA pixels by averaging the source pixels each target pixel
+ * covers, which avoids the aliasing of nearest-neighbour sampling.
+ */
+export function resizeRgba(
+  source: Uint8Array,
+  width: number,
+  height: number,
+  targetWidth: number,
+  targetHeight: number
+): Uint8Array {
+  const target = new Uint8Array(targetWidth * targetHeight * 4);
+  const xScale = width / targetWidth;
+  const yScale = height / targetHeight;
+
+  for (let ty = 0; ty < targetHeight; ty++) {
+    const y0 = Math.floor(ty * yScale);
+    const y1 = Math.max(y0 + 1, Math.min(height, Math.floor((ty + 1) * yScale)));
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const x0 = Math.floor(tx * xScale);
+      const x1 = Math.max(x0 + 1, Math.min(width, Math.floor((tx + 1) * xScale)));
+
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * width + x) * 4;
+          r += source[i];
+          g += source[i + 1];
+          b += source[i + 2];
+          a += source[i + 3];
+        }
+      }
+
+      const count = (x1 - x0) * (y1 - y0);
+      const t = (ty * targetWidth + tx) * 4;
+      target[t] = Math.round(r / count);
+      target[t + 1] = Math.round(g / count);
+      target[t + 2] = Math.round(b / count);
+      target[t + 3] = Math.round(a / count);
+    }
+  }
+
+  return target;
+}
+
+/**
+ * Pick the smallest image at least `width` pixels wide, falling back to
+ * the largest one available. Candidates include the original.
+ */
+export function pickBestFit<T extends { width: number }>(
+  candidates: T[],
+  width: number
+): T | null {
+  const sorted = [...candidates].sort((a, b) => a.width - b.width);
+  return (
+    sorted.find((candidate) => candidate.width >= width) ??
+    sorted[sorted.length - 1] ??
+    null
+  );
+}
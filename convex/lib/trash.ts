@@ -0,0 +1,67 @@
+import { MutationCtx } from "../_generated/server";
+import { Doc } from "../_generated/dataModel";
+import { deleteTaskAttachments } from "./attachments";
+import { deleteTaskComments } from "./comments";
+import { detachAllLabels } from "./labels";
+import { deleteSeriesIfUnused } from "./recurrence";
+import { cancelReminder, scheduleReminder } from "./reminders";
+import { getDescendants } from "./subtasks";
+
+/** Days a task stays in the trash when TRASH_RETENTION_DAYS isn't set. */
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * How long trashed tasks are kept before they are purged, in milliseconds.
+ * Configured with the TRASH_RETENTION_DAYS environment variable.
+ */
+export function getTrashRetentionMs(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  const retentionDays =
+    Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+  return retentionDays * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Move a task and its subtasks to the trash.
+ *
+ * They all share the same `deletedAt`, which is how `restoreTask` tells them
+ * apart from subtasks that were trashed on their own earlier.
+ */
+export async function trashTask(ctx: MutationCtx, task: Doc<"tasks">) {
+  const deletedAt = Date.now();
+  for (const subtask of [task, ...(await getDescendants(ctx, task))]) {
+    await cancelReminder(ctx, subtask);
+    await ctx.db.patch(subtask._id, { deletedAt });
+  }
+}
+
+/**
+ * Restore a trashed task along with the subtasks that were trashed with it.
+ */
+export async function restoreTask(ctx: MutationCtx, task: Doc<"tasks">) {
+  const descendants = await getDescendants(ctx, task, { includeTrashed: true });
+  for (const subtask of [task, ...descendants]) {
+    if (subtask.deletedAt === task.deletedAt) {
+      await ctx.db.patch(subtask._id, { deletedAt: undefined });
+      await scheduleReminder(ctx, { ...subtask, deletedAt: undefined });
+    }
+  }
+}
+
+/**
+ * Permanently delete a task, all of its subtasks (trashed or not) and
+ * everything that belongs to them.
+ */
+export async function purgeTask(ctx: MutationCtx, task: Doc<"tasks">) {
+  const descendants = await getDescendants(ctx, task, { includeTrashed: true });
+  for (const subtask of [...descendants, task]) {
+    await cancelReminder(ctx, subtask);
+    await detachAllLabels(ctx, subtask._id);
+    await deleteTaskComments(ctx, subtask._id);
+    await deleteTaskAttachments(ctx, subtask._id);
+    await ctx.db.delete(subtask._id);
+    if (subtask.seriesId) {
+      await deleteSeriesIfUnused(ctx, subtask.seriesId);
+    }
+  }
+}
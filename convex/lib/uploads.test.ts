@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { checkUpload, matchesContentType } from "./uploads";
+
+const MB = 1024 * 1024;
+const roomy = { usedBytes: 0, quotaBytes: 100 * MB };
+
+describe("matchesContentType", () => {
+  it("matches exact types and wildcard subtypes", () => {
+    expect(matchesContentType("application/pdf", "application/pdf")).toBe(true);
+    expect(matchesContentType("image/svg+xml", "image/*")).toBe(true);
+    expect(matchesContentType("video/mp4", "image/*")).toBe(false);
+  });
+
+  it("ignores parameters and case", () => {
+    expect(matchesContentType("Text/Plain; charset=utf-8", "text/*")).toBe(true);
+  });
+});
+
+describe("checkUpload", () => {
+  it("allows files within the rules", () => {
+    expect(
+      checkUpload({ size: MB, contentType: "image/png" }, "image", roomy)
+    ).toBeNull();
+  });
+
+  it("rejects files over the purpose's size limit", () => {
+    expect(
+      checkUpload({ size: 6 * MB, contentType: "image/png" }, "image", roomy)
+        ?.code
+    ).toBe("FILE_TOO_LARGE");
+    expect(
+      checkUpload({ size: 6 * MB, contentType: "image/png" }, "attachment", roomy)
+    ).toBeNull();
+  });
+
+  it("rejects content types the purpose doesn't allow", () => {
+    expect(
+      checkUpload({ size: MB, contentType: "application/pdf" }, "image", roomy)
+        ?.code
+    ).toBe("UNSUPPORTED_TYPE");
+    expect(
+      checkUpload(
+        { size: MB, contentType: "application/x-msdownload" },
+        "attachment",
+        roomy
+      )?.code
+    ).toBe("UNSUPPORTED_TYPE");
+  });
+
+  it("rejects files that would exceed the quota", () => {
+    const usage = { usedBytes: 99 * MB, quotaBytes: 100 * MB };
+    expect(
+      checkUpload({ size: MB, contentType: "text/plain" }, "attachment", usage)
+    ).toBeNull();
+    expect(
+      checkUpload({ size: MB + 1, contentType: "text/plain" }, "attachment", usage)
+        ?.code
+    ).toBe("QUOTA_EXCEEDED");
+  });
+});
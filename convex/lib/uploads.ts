@@ -0,0 +1,120 @@
+import { ConvexError, v } from "convex/values";
+
+const MB = 1024 * 1024;
+
+/** Storage a user may fill when STORAGE_QUOTA_MB isn't set. */
+const DEFAULT_STORAGE_QUOTA_MB = 100;
+
+/**
+ * What an upload is for. Each purpose has its own size limit and set of
+ * allowed content types.
+ */
+export const uploadPurposeValidator = v.union(
+  v.literal("attachment"),
+  v.literal("image")
+);
+
+export type UploadPurpose = typeof uploadPurposeValidator.type;
+
+/**
+ * Limits for each upload purpose. Content types ending in `/*` match any
+ * subtype.
+ */
+export const UPLOAD_RULES: Record<
+  UploadPurpose,
+  { maxSize: number; allowedTypes: string[] }
+> = {
+  attachment: {
+    maxSize: 25 * MB,
+    allowedTypes: [
+      "image/*",
+      "text/*",
+      "application/pdf",
+      "application/json",
+      "application/zip",
+      "application/msword",
+      "application/vnd.openxmlformats-officedocument.*",
+      "application/vnd.oasis.opendocument.*",
+    ],
+  },
+  image: {
+    maxSize: 5 * MB,
+    allowedTypes: ["image/png", "image/jpeg", "image/gif", "image/webp"],
+  },
+};
+
+/**
+ * Get the total storage each user may fill, in bytes.
+ * Configurable with the STORAGE_QUOTA_MB environment variable.
+ */
+export function getStorageQuotaBytes(): number {
+  const mb = Number(process.env.STORAGE_QUOTA_MB);
+  const quotaMb = Number.isFinite(mb) && mb > 0 ? mb : DEFAULT_STORAGE_QUOTA_MB;
+  return quotaMb * MB;
+}
+
+/**
+ * Check whether a content type matches an allowed pattern such as
+ * `image/*`. Parameters like `; charset=utf-8` are ignored.
+ */
+export function matchesContentType(contentType: string, pattern: string) {
+  const type = contentType.split(";")[0].trim().toLowerCase();
+  if (pattern.endsWith("*")) {
+    return type.startsWith(pattern.slice(0, -1));
+  }
+  return type === pattern;
+}
+
+/** Data carried by the ConvexError thrown for a rejected upload. */
+export const uploadErrorValidator = v.object({
+  code: v.union(
+    v.literal("FILE_TOO_LARGE"),
+    v.literal("UNSUPPORTED_TYPE"),
+    v.literal("QUOTA_EXCEEDED")
+  ),
+  message: v.string(),
+});
+
+export type UploadErrorData = typeof uploadErrorValidator.type;
+
+/**
+ * Check an upload against its purpose's rules and the user's quota.
+ * Returns why the upload is rejected, or null if it's allowed.
+ */
+export function checkUpload(
+  file: { size: number; contentType: string },
+  purpose: UploadPurpose,
+  usage: { usedBytes: number; quotaBytes: number }
+): UploadErrorData | null {
+  const rules = UPLOAD_RULES[purpose];
+  if (file.size > rules.maxSize) {
+    return {
+      code: "FILE_TOO_LARGE",
+      message: `Files must be at most ${rules.maxSize / MB} MB`,
+    };
+  }
+  if (
+    !rules.allowedTypes.some((pattern) =>
+      matchesContentType(file.contentType, pattern)
+    )
+  ) {
+    return {
+      code: "UNSUPPORTED_TYPE",
+      message: `Files of type ${file.contentType} aren't allowed here`,
+    };
+  }
+  if (usage.usedBytes + file.size > usage.quotaBytes) {
+    return {
+      code: "QUOTA_EXCEEDED",
+      message: "This file would exceed your storage quota",
+    };
+  }
+  return null;
+}
+
+/**
+ * Build the typed error thrown to the client for a rejected upload.
+ */
+export function uploadError(data: UploadErrorData) {
+  return new ConvexError(data);
+}
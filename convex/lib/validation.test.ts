@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { v } from "convex/values";
+import { toJsonSchema, validateJson } from "./validation";
+
+const task = v.object({
+  title: v.string(),
+  dueAt: v.optional(v.union(v.number(), v.null())),
+  status: v.optional(v.union(v.literal("active"), v.literal("completed"))),
+  tags: v.optional(v.array(v.string())),
+  projectId: v.optional(v.id("projects")),
+});
+
+describe("validateJson", () => {
+  it("accepts values that match", () => {
+    const value = { title: "Write docs", dueAt: null, tags: ["a"] };
+    expect(validateJson(task, value)).toEqual({ value, issues: [] });
+  });
+
+  it("reports missing, unknown and mistyped fields by path", () => {
+    expect(
+      validateJson(task, { dueAt: "tomorrow", tags: ["a", 1], extra: true })
+        .issues
+    ).toEqual([
+      { path: "extra", message: "is not allowed" },
+      { path: "title", message: "is required" },
+      { path: "dueAt", message: "has an unexpected string value" },
+      { path: "tags[1]", message: "must be a string" },
+    ]);
+  });
+
+  it("lists the allowed literals", () => {
+    expect(
+      validateJson(task, { title: "x", status: "done" }).issues
+    ).toEqual([
+      { path: "status", message: 'must be one of "active", "completed"' },
+    ]);
+  });
+
+  it("rejects non-objects and non-finite numbers", () => {
+    expect(validateJson(task, [1]).issues).toEqual([
+      { path: "", message: "must be an object, not array" },
+    ]);
+    expect(validateJson(v.number(), Number.NaN).issues).toHaveLength(1);
+  });
+
+  it("normalizes IDs and rejects ones from other tables", () => {
+    const normalizeId = (tableName: string, id: string) =>
+      tableName === "projects" && id.startsWith("p") ? `${id}!` : null;
+    expect(
+      validateJson(task, { title: "x", projectId: "p1" }, normalizeId).value
+    ).toEqual({ title: "x", projectId: "p1!" });
+    expect(
+      validateJson(task, { title: "x", projectId: "t1" }, normalizeId).issues
+    ).toEqual([
+      { path: "projectId", message: "must be an ID of a projects document" },
+    ]);
+  });
+});
+
+describe("toJsonSchema", () => {
+  it("describes objects, with optional fields left out of required", () => {
+    expect(toJsonSchema(task)).toEqual({
+      type: "object",
+      properties: {
+        title: { type: "string" },
+        dueAt: { anyOf: [{ type: "number" }, { type: "null" }] },
+        status: { enum: ["active", "completed"] },
+        tags: { type: "array", items: { type: "string" } },
+        projectId: {
+          type: "string",
+          description: "ID of a projects document",
+        },
+      },
+      required: ["title"],
+      additionalProperties: false,
+    });
+  });
+
+  it("refuses validators with no JSON form", () => {
+    expect(() => toJsonSchema(v.int64())).toThrow("int64");
+  });
+});
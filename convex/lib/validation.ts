@@ -0,0 +1,180 @@
+import { GenericValidator } from "convex/values";
+
+/**
+ * A problem found in a JSON value, e.g.
+ * `{ path: "title", message: "is required" }`.
+ */
+export type ValidationIssue = { path: string; message: string };
+
+/**
+ * Turns a string into an ID of the given table, or null if it isn't one.
+ * Pass `ctx.db.normalizeId` to check IDs properly.
+ */
+export type IdNormalizer = (tableName: string, id: string) => string | null;
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function check(
+  validator: GenericValidator,
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  normalizeId: IdNormalizer
+): unknown {
+  const fail = (message: string) => {
+    issues.push({ path, message });
+    return value;
+  };
+
+  switch (validator.kind) {
+    case "any":
+      return value;
+    case "string":
+      return typeof value === "string" ? value : fail("must be a string");
+    case "float64":
+      return typeof value === "number" && Number.isFinite(value)
+        ? value
+        : fail("must be a number");
+    case "boolean":
+      return typeof value === "boolean" ? value : fail("must be a boolean");
+    case "null":
+      return value === null ? value : fail("must be null");
+    case "literal":
+      return value === validator.value
+        ? value
+        : fail(`must be ${JSON.stringify(validator.value)}`);
+    case "id": {
+      if (typeof value !== "string") return fail("must be an ID string");
+      return (
+        normalizeId(validator.tableName, value) ??
+        fail(`must be an ID of a ${validator.tableName} document`)
+      );
+    }
+    case "array": {
+      if (!Array.isArray(value)) return fail("must be an array");
+      return value.map((item, index) =>
+        check(validator.element, item, join(path, index), issues, normalizeId)
+      );
+    }
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return fail(`must be an object, not ${describe(value)}`);
+      }
+      const input = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      for (const key of Object.keys(input)) {
+        if (!(key in validator.fields)) {
+          issues.push({ path: join(path, key), message: "is not allowed" });
+        }
+      }
+      for (const [key, field] of Object.entries(validator.fields)) {
+        const fieldPath = join(path, key);
+        if (input[key] === undefined) {
+          if (field.isOptional === "required") {
+            issues.push({ path: fieldPath, message: "is required" });
+          }
+          continue;
+        }
+        result[key] = check(field, input[key], fieldPath, issues, normalizeId);
+      }
+      return result;
+    }
+    case "union": {
+      for (const member of validator.members) {
+        const memberIssues: ValidationIssue[] = [];
+        const result = check(member, value, path, memberIssues, normalizeId);
+        if (memberIssues.length === 0) return result;
+      }
+      const literals = validator.members.filter(
+        (member) => member.kind === "literal"
+      );
+      if (literals.length === validator.members.length) {
+        const allowed = literals.map((member) => JSON.stringify(member.value));
+        return fail(`must be one of ${allowed.join(", ")}`);
+      }
+      return fail(`has an unexpected ${describe(value)} value`);
+    }
+    default:
+      // bytes, int64 and records have no JSON form in the HTTP API
+      return fail(`can't be given as JSON`);
+  }
+}
+
+/**
+ * Check a value parsed from JSON against a Convex validator, the same
+ * validators that check function arguments. Returns the value with IDs
+ * normalized, or the problems found; unknown object fields are problems
+ * too, as they are for function arguments.
+ */
+export function validateJson(
+  validator: GenericValidator,
+  value: unknown,
+  normalizeId: IdNormalizer = (_tableName, id) => id
+): { value: unknown; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
+  const result = check(validator, value, "", issues, normalizeId);
+  return { value: result, issues };
+}
+
+/** A JSON Schema (draft 2020-12, as used by OpenAPI 3.1). */
+export type JsonSchema = { [key: string]: unknown };
+
+/**
+ * Describe a Convex validator as a JSON Schema, for API documentation.
+ * It accepts what `validateJson` accepts: objects don't allow unknown
+ * fields and IDs are strings.
+ */
+export function toJsonSchema(validator: GenericValidator): JsonSchema {
+  switch (validator.kind) {
+    case "any":
+      return {};
+    case "string":
+      return { type: "string" };
+    case "float64":
+      return { type: "number" };
+    case "boolean":
+      return { type: "boolean" };
+    case "null":
+      return { type: "null" };
+    case "literal":
+      return { const: validator.value };
+    case "id":
+      return {
+        type: "string",
+        description: `ID of a ${validator.tableName} document`,
+      };
+    case "array":
+      return { type: "array", items: toJsonSchema(validator.element) };
+    case "object": {
+      const fields = Object.entries(validator.fields);
+      const required = fields
+        .filter(([, field]) => field.isOptional === "required")
+        .map(([key]) => key);
+      return {
+        type: "object",
+        properties: Object.fromEntries(
+          fields.map(([key, field]) => [key, toJsonSchema(field)])
+        ),
+        ...(required.length > 0 && { required }),
+        additionalProperties: false,
+      };
+    }
+    case "union": {
+      const members = validator.members;
+      if (members.every((member) => member.kind === "literal")) {
+        return { enum: members.map((member) => member.value) };
+      }
+      return { anyOf: members.map(toJsonSchema) };
+    }
+    default:
+      throw new Error(`${validator.kind} validators have no JSON form`);
+  }
+}
@@ -0,0 +1,175 @@
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  sendWebhook,
+  signWebhookPayload,
+  validateWebhookUrl,
+  verifyWebhookSignature,
+} from "./webhooks";
+
+const SECRET = "a-long-enough-test-secret";
+
+describe("validateWebhookUrl", () => {
+  it("requires https", () => {
+    expect(validateWebhookUrl(" https://example.com/hook ", false)).toBe(
+      "https://example.com/hook"
+    );
+    expect(() => validateWebhookUrl("http://example.com/hook", false)).toThrow(
+      "https"
+    );
+    expect(() => validateWebhookUrl("ftp://example.com", false)).toThrow(
+      "https"
+    );
+    expect(() => validateWebhookUrl("not a url", false)).toThrow("valid URL");
+    expect(() =>
+      validateWebhookUrl("https://me:pw@example.com", false)
+    ).toThrow("credentials");
+  });
+
+  it("rejects local and private addresses", () => {
+    for (const host of [
+      "localhost",
+      "api.localhost",
+      "127.0.0.1",
+      "2130706433", // 127.0.0.1 as a number
+      "0.0.0.0",
+      "10.1.2.3",
+      "172.16.0.1",
+      "172.31.255.255",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "[::]",
+      "[::1]",
+      "[fc00::1]",
+      "[fd12:3456::1]",
+      "[fe80::1]",
+      "[::ffff:127.0.0.1]",
+      "[::ffff:10.0.0.1]",
+      "[64:ff9b::a9fe:a9fe]",
+    ]) {
+      expect(() => validateWebhookUrl(`https://${host}/hook`, false)).toThrow(
+        "private or local"
+      );
+    }
+  });
+
+  it("accepts public addresses", () => {
+    for (const host of [
+      "93.184.216.34",
+      "172.32.0.1",
+      "[2606:4700::1111]",
+      "[::ffff:808:808]", // 8.8.8.8
+    ]) {
+      expect(validateWebhookUrl(`https://${host}/hook`, false)).toBe(
+        `https://${host}/hook`
+      );
+    }
+  });
+
+  it("allows local receivers over http when enabled", () => {
+    expect(validateWebhookUrl("http://localhost:3000/hook", true)).toBe(
+      "http://localhost:3000/hook"
+    );
+    expect(validateWebhookUrl("https://10.0.0.5/hook", true)).toBe(
+      "https://10.0.0.5/hook"
+    );
+    expect(() => validateWebhookUrl("http://example.com/hook", true)).toThrow(
+      "https"
+    );
+  });
+});
+
+describe("verifyWebhookSignature", () => {
+  const now = Date.UTC(2024, 0, 1);
+  const timestamp = now / 1000;
+
+  it("accepts its own signatures", async () => {
+    const header = await signWebhookPayload(SECRET, timestamp, "{}");
+    expect(await verifyWebhookSignature(SECRET, header, "{}", now)).toBe(true);
+  });
+
+  it("rejects other bodies, secrets and stale timestamps", async () => {
+    const header = await signWebhookPayload(SECRET, timestamp, "{}");
+    expect(await verifyWebhookSignature(SECRET, header, "[]", now)).toBe(false);
+    expect(
+      await verifyWebhookSignature("another-secret-value", header, "{}", now)
+    ).toBe(false);
+    expect(
+      await verifyWebhookSignature(SECRET, header, "{}", now + 10 * 60 * 1000)
+    ).toBe(false);
+    expect(await verifyWebhookSignature(SECRET, null, "{}", now)).toBe(false);
+  });
+});
+
+describe("sendWebhook", () => {
+  // A local receiver that records requests and answers with `status`
+  let server: Server;
+  let baseUrl: string;
+  let status = 200;
+  const received: { headers: IncomingHttpHeaders; body: string }[] = [];
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        received.push({ headers: request.headers, body });
+        response.writeHead(status).end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const delivery = (url: string) => ({
+    url,
+    secret: SECRET,
+    deliveryId: "delivery1",
+    event: "task.created" as const,
+    payload: JSON.stringify({ event: "task.created", data: { id: "t1" } }),
+  });
+
+  it("posts a signed payload the receiver can verify", async () => {
+    status = 204;
+    received.length = 0;
+    expect(await sendWebhook(delivery(`${baseUrl}/hook`))).toEqual({
+      ok: true,
+      status: 204,
+    });
+
+    const [request] = received;
+    expect(request.headers["content-type"]).toBe("application/json");
+    expect(request.headers["webhook-event"]).toBe("task.created");
+    expect(request.headers["webhook-id"]).toBe("delivery1");
+    expect(request.body).toBe(delivery("").payload);
+    expect(
+      await verifyWebhookSignature(
+        SECRET,
+        request.headers["webhook-signature"] as string,
+        request.body
+      )
+    ).toBe(true);
+  });
+
+  it("reports error responses as failed attempts", async () => {
+    status = 503;
+    expect(await sendWebhook(delivery(`${baseUrl}/hook`))).toEqual({
+      ok: false,
+      status: 503,
+      error: "Receiver answered 503",
+    });
+  });
+
+  it("reports unreachable receivers as failed attempts", async () => {
+    const result = await sendWebhook(delivery("http://127.0.0.1:1/hook"));
+    expect(result.ok).toBe(false);
+  });
+});
@@ -0,0 +1,294 @@
+import { v } from "convex/values";
+import { MutationCtx } from "../_generated/server";
+import { enqueueJob } from "./jobs";
+import { hmacSha256, timingSafeEqual } from "./signing";
+
+/** Task events a webhook can subscribe to. */
+export const webhookEventValidator = v.union(
+  v.literal("task.created"),
+  v.literal("task.updated"),
+  v.literal("task.toggled"),
+  v.literal("task.removed")
+);
+
+export type WebhookEvent = typeof webhookEventValidator.type;
+
+/** Most webhooks a user can register. */
+export const MAX_WEBHOOKS_PER_USER = 10;
+
+/** Shortest and longest allowed signing secret, in characters. */
+export const MIN_WEBHOOK_SECRET_LENGTH = 16;
+export const MAX_WEBHOOK_SECRET_LENGTH = 256;
+
+/** Maximum length of a webhook URL, in characters. */
+export const MAX_WEBHOOK_URL_LENGTH = 2048;
+
+/** Attempts made at each delivery before it is marked as failed. */
+export const MAX_WEBHOOK_ATTEMPTS = 6;
+
+/** Longest error message kept for a failed attempt. */
+export const MAX_WEBHOOK_ERROR_LENGTH = 200;
+
+/** How long a receiver has to answer before the attempt fails. */
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/** How far a signature's timestamp may be off before it is rejected. */
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Whether webhooks may point at this machine or the private network,
+ * over plain http too. Only for development: set
+ * ENABLE_LOCAL_WEBHOOKS=true to test against a local receiver.
+ */
+export function isLocalWebhooksEnabled(): boolean {
+  return process.env.ENABLE_LOCAL_WEBHOOKS === "true";
+}
+
+/**
+ * Check a webhook URL and return it normalized. Receivers must use https
+ * and, unless local webhooks are enabled, can't be localhost or a private,
+ * loopback or link-local IP address. Host names aren't resolved, so this
+ * only stops requests to internal services by address.
+ */
+export function validateWebhookUrl(
+  url: string,
+  allowLocal = isLocalWebhooksEnabled()
+): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new Error("Enter a valid URL");
+  }
+  const isLocal = isLocalHost(parsed.hostname);
+  if (isLocal && !allowLocal) {
+    throw new Error("Webhook URLs can't point to a private or local address");
+  }
+  if (
+    parsed.protocol !== "https:" &&
+    !(parsed.protocol === "http:" && isLocal)
+  ) {
+    throw new Error("Webhook URLs must use https");
+  }
+  if (parsed.username || parsed.password) {
+    throw new Error("Webhook URLs can't contain credentials");
+  }
+  const normalized = parsed.toString();
+  if (normalized.length > MAX_WEBHOOK_URL_LENGTH) {
+    throw new Error(
+      `Webhook URLs must be at most ${MAX_WEBHOOK_URL_LENGTH} characters`
+    );
+  }
+  return normalized;
+}
+
+/**
+ * Whether a URL host name is localhost or an IP address that isn't
+ * publicly routable. Expects the normalized form `URL` produces, which
+ * spells every IPv4 address as four decimals and compresses IPv6.
+ */
+function isLocalHost(hostname: string): boolean {
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+    return true;
+  }
+  if (hostname.startsWith("[")) {
+    return isLocalIpv6(hostname.slice(1, -1));
+  }
+  const octets = hostname.split(".").map(Number);
+  if (octets.length === 4 && octets.every(Number.isInteger)) {
+    return isLocalIpv4(octets);
+  }
+  return false;
+}
+
+function isLocalIpv4([a, b]: number[]): boolean {
+  return (
+    a === 0 || // "This" network, including 0.0.0.0
+    a === 10 || // Private
+    a === 127 || // Loopback
+    (a === 100 && b >= 64 && b < 128) || // Carrier-grade NAT
+    (a === 169 && b === 254) || // Link-local
+    (a === 172 && b >= 16 && b < 32) || // Private
+    (a === 192 && b === 168) || // Private
+    a >= 224 // Multicast and reserved, including broadcast
+  );
+}
+
+function isLocalIpv6(address: string): boolean {
+  // Expand "::" into the missing zero groups
+  const [head, tail] = address.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const groups = [
+    ...headGroups,
+    ...Array(8 - headGroups.length - tailGroups.length).fill("0"),
+    ...tailGroups,
+  ].map((group) => parseInt(group, 16));
+
+  const [first] = groups;
+  if (groups.slice(0, 7).every((group) => group === 0)) {
+    return groups[7] <= 1; // Unspecified (::) and loopback (::1)
+  }
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses
+  // reach the embedded IPv4 address
+  const isMapped =
+    groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff;
+  const isNat64 =
+    first === 0x64 &&
+    groups[1] === 0xff9b &&
+    groups.slice(2, 6).every((group) => group === 0);
+  if (isMapped || isNat64) {
+    return isLocalIpv4([groups[6] >> 8, groups[6] & 0xff]);
+  }
+  return (
+    (first & 0xfe00) === 0xfc00 || // Unique local, fc00::/7
+    (first & 0xffc0) === 0xfe80 || // Link-local, fe80::/10
+    (first & 0xff00) === 0xff00 // Multicast
+  );
+}
+
+/**
+ * Sign a payload for the `Webhook-Signature` header:
+ * `t=<unix seconds>,v1=<base64url HMAC-SHA256 of "<t>.<body>">`.
+ * Including the time lets receivers reject replayed deliveries.
+ */
+export async function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): Promise<string> {
+  const signature = await hmacSha256(secret, `${timestamp}.${body}`);
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a `Webhook-Signature` header the way a receiver should: the
+ * signature must match and be at most five minutes old.
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  header: string | null,
+  body: string,
+  now = Date.now()
+): Promise<boolean> {
+  const parts = new Map(
+    (header ?? "").split(",").map((part) => {
+      const index = part.indexOf("=");
+      return [part.slice(0, index).trim(), part.slice(index + 1)];
+    })
+  );
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+  const expected = await signWebhookPayload(secret, timestamp, body);
+  return timingSafeEqual(expected, `t=${timestamp},v1=${signature}`);
+}
+
+export type WebhookAttempt =
+  | { ok: true; status: number }
+  | { ok: false; status?: number; error: string };
+
+/**
+ * POST a signed payload to a webhook. Any 2xx response counts as
+ * delivered; anything else, including a timeout, is a failed attempt.
+ */
+export async function sendWebhook(delivery: {
+  url: string;
+  secret: string;
+  deliveryId: string;
+  event: WebhookEvent;
+  payload: string;
+}): Promise<WebhookAttempt> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+  try {
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "tasks-webhooks/1",
+        "Webhook-Id": delivery.deliveryId,
+        "Webhook-Event": delivery.event,
+        "Webhook-Signature": await signWebhookPayload(
+          delivery.secret,
+          Math.floor(Date.now() / 1000),
+          delivery.payload
+        ),
+      },
+      body: delivery.payload,
+      redirect: "manual",
+      signal: controller.signal,
+    });
+    // Only the status matters; drain the body so the connection is freed
+    await response.body?.cancel();
+    return response.ok
+      ? { ok: true, status: response.status }
+      : {
+          ok: false,
+          status: response.status,
+          error: `Receiver answered ${response.status}`,
+        };
+  } catch (error) {
+    return {
+      ok: false,
+      error: controller.signal.aborted
+        ? "Receiver didn't answer in time"
+        : error instanceof Error
+          ? error.message
+          : "Request failed",
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Queue a task event for each of the user's webhooks subscribed to it.
+ * `getData` builds the event's `data` and is only called if some
+ * webhook wants the event. Deliveries are sent, and retried, as
+ * "deliverWebhook" jobs (see convex/jobs.ts).
+ */
+export async function queueWebhookEvent(
+  ctx: MutationCtx,
+  userId: string,
+  event: WebhookEvent,
+  getData: () => Promise<unknown>
+): Promise<void> {
+  const webhooks = (
+    await ctx.db
+      .query("webhooks")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect()
+  ).filter((webhook) => webhook.events.includes(event));
+  if (webhooks.length === 0) {
+    return;
+  }
+
+  const createdAt = Date.now();
+  const payload = JSON.stringify({
+    event,
+    createdAt,
+    data: await getData(),
+  });
+  for (const webhook of webhooks) {
+    const deliveryId = await ctx.db.insert("webhookDeliveries", {
+      webhookId: webhook._id,
+      event,
+      payload,
+      status: "pending",
+      attempts: 0,
+      createdAt,
+    });
+    await enqueueJob(
+      ctx,
+      "deliverWebhook",
+      { deliveryId },
+      { maxAttempts: MAX_WEBHOOK_ATTEMPTS }
+    );
+  }
+}
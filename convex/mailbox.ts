@@ -0,0 +1,92 @@
+import { v } from "convex/values";
+import { query, internalMutation } from "./_generated/server";
+import { getEmailTransportName } from "./lib/email";
+import { timingSafeEqual } from "./lib/signing";
+
+/** Messages `list` returns, newest first. */
+const MAX_MESSAGES = 50;
+
+/** Messages deleted per call of `clear`. */
+const CLEAR_BATCH_SIZE = 500;
+
+/**
+ * The mailbox can be read without signing in, so it only opens when email
+ * is going to it and the caller knows MAILBOX_SECRET: never set
+ * EMAIL_TRANSPORT=mailbox in production.
+ */
+function isMailboxEnabled() {
+  return getEmailTransportName() === "mailbox";
+}
+
+function isMailboxSecret(secret: string) {
+  const expected = process.env.MAILBOX_SECRET;
+  return !!expected && timingSafeEqual(secret, expected);
+}
+
+/**
+ * Store a message sent with the "mailbox" transport.
+ */
+export const deliver = internalMutation({
+  args: {
+    to: v.string(),
+    subject: v.string(),
+    text: v.string(),
+    html: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await ctx.db.insert("mailbox", {
+      ...args,
+      to: args.to.trim().toLowerCase(),
+      createdAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+/**
+ * List the newest messages in the development mailbox, optionally only
+ * those sent to `to`. Used by the `/dev/mailbox` page and end-to-end
+ * tests to read sign-in codes. Returns null unless EMAIL_TRANSPORT is
+ * "mailbox" and `secret` matches MAILBOX_SECRET.
+ */
+export const list = query({
+  args: {
+    secret: v.string(),
+    to: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    if (!isMailboxEnabled() || !isMailboxSecret(args.secret)) {
+      return null;
+    }
+
+    const to = args.to?.trim().toLowerCase();
+    const messages = to
+      ? ctx.db.query("mailbox").withIndex("by_to", (q) => q.eq("to", to))
+      : ctx.db.query("mailbox");
+    return await messages.order("desc").take(MAX_MESSAGES);
+  },
+});
+
+/**
+ * Empty the development mailbox. Returns the number of messages deleted;
+ * call again while it is non-zero:
+ * `npx convex run mailbox:clear`
+ */
+export const clear = internalMutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    if (!isMailboxEnabled()) {
+      throw new Error(
+        "The mailbox is only available with EMAIL_TRANSPORT=mailbox"
+      );
+    }
+
+    const messages = await ctx.db.query("mailbox").take(CLEAR_BATCH_SIZE);
+    for (const message of messages) {
+      await ctx.db.delete(message._id);
+    }
+    return messages.length;
+  },
+});
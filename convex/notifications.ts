@@ -0,0 +1,86 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import { getAuthUserId } from "./lib/auth";
+
+/** Number of notifications returned by `list` */
+const RECENT_NOTIFICATIONS_LIMIT = 20;
+
+/**
+ * List the current user's most recent notifications, newest first.
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+
+    return await ctx.db
+      .query("notifications")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .order("desc")
+      .take(RECENT_NOTIFICATIONS_LIMIT);
+  },
+});
+
+/**
+ * Count the current user's unread notifications.
+ */
+export const unreadCount = query({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_and_read", (q) =>
+        q.eq("userId", userId).eq("read", false)
+      )
+      .collect();
+    return unread.length;
+  },
+});
+
+/**
+ * Mark a notification as read.
+ */
+export const markRead = mutation({
+  args: {
+    id: v.id("notifications"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    const notification = await ctx.db.get(args.id);
+    if (!notification) {
+      throw new Error("Notification not found");
+    }
+
+    // Verify ownership
+    if (notification.userId !== userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await ctx.db.patch(args.id, { read: true });
+  },
+});
+
+/**
+ * Mark all of the current user's notifications as read.
+ */
+export const markAllRead = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_and_read", (q) =>
+        q.eq("userId", userId).eq("read", false)
+      )
+      .collect();
+
+    for (const notification of unread) {
+      await ctx.db.patch(notification._id, { read: true });
+    }
+  },
+});
@@ -0,0 +1,143 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import { getAuthUserId } from "./lib/auth";
+import { validateColor } from "./lib/colors";
+import { getOwnedProject } from "./lib/projects";
+
+/** Maximum length of a project name, in characters. */
+export const MAX_PROJECT_NAME_LENGTH = 80;
+
+/** Colour given to projects created without one. */
+const DEFAULT_PROJECT_COLOR = "#3b82f6";
+
+/**
+ * Trim and validate a project name.
+ */
+function validateName(name: string): string {
+  const trimmed = name.trim();
+  if (trimmed.length === 0) {
+    throw new Error("Project name cannot be empty");
+  }
+  if (trimmed.length > MAX_PROJECT_NAME_LENGTH) {
+    throw new Error(
+      `Project name must be at most ${MAX_PROJECT_NAME_LENGTH} characters`
+    );
+  }
+  return trimmed;
+}
+
+/**
+ * List the current user's projects, oldest first.
+ * Archived projects are only included when `includeArchived` is set.
+ */
+export const list = query({
+  args: {
+    includeArchived: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    const active = await ctx.db
+      .query("projects")
+      .withIndex("by_user_and_archived", (q) =>
+        q.eq("userId", userId).eq("archived", false)
+      )
+      .collect();
+
+    if (!args.includeArchived) {
+      return active;
+    }
+
+    const archived = await ctx.db
+      .query("projects")
+      .withIndex("by_user_and_archived", (q) =>
+        q.eq("userId", userId).eq("archived", true)
+      )
+      .collect();
+
+    return [...active, ...archived];
+  },
+});
+
+/**
+ * Get a single project.
+ */
+export const get = query({
+  args: {
+    id: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    return await getOwnedProject(ctx, args.id, userId);
+  },
+});
+
+/**
+ * Create a new project.
+ */
+export const create = mutation({
+  args: {
+    name: v.string(),
+    color: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    return await ctx.db.insert("projects", {
+      userId,
+      name: validateName(args.name),
+      color: validateColor(args.color ?? DEFAULT_PROJECT_COLOR),
+      archived: false,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Rename, recolour, archive or unarchive a project.
+ * Omitted fields are left unchanged.
+ */
+export const update = mutation({
+  args: {
+    id: v.id("projects"),
+    name: v.optional(v.string()),
+    color: v.optional(v.string()),
+    archived: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    await getOwnedProject(ctx, args.id, userId);
+
+    await ctx.db.patch(args.id, {
+      ...(args.name !== undefined && { name: validateName(args.name) }),
+      ...(args.color !== undefined && { color: validateColor(args.color) }),
+      ...(args.archived !== undefined && { archived: args.archived }),
+    });
+  },
+});
+
+/**
+ * Delete a project.
+ * Its tasks are kept and moved back to the main list.
+ */
+export const remove = mutation({
+  args: {
+    id: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    await getOwnedProject(ctx, args.id, userId);
+
+    const tasks = await ctx.db
+      .query("tasks")
+      .withIndex("by_project_and_parent_and_deletedAt_and_order", (q) =>
+        q.eq("projectId", args.id)
+      )
+      .collect();
+    for (const task of tasks) {
+      await ctx.db.patch(task._id, { projectId: undefined });
+    }
+
+    await ctx.db.delete(args.id);
+  },
+});
@@ -0,0 +1,63 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import { enqueueJob } from "./lib/jobs";
+import { getRecurrence } from "./lib/recurrence";
+import { formatDueDate } from "./lib/reminders";
+
+/**
+ * Fire a task reminder.
+ * Scheduled by `scheduleReminder` in `lib/reminders.ts` at the task's `remindAt`.
+ * Reminder emails go through the job queue, so they are retried if
+ * sending fails. Due dates are shown in the timezone of the task's series,
+ * else the one the due date was set in, else UTC.
+ */
+export const fire = internalMutation({
+  args: { taskId: v.id("tasks") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const task = await ctx.db.get(args.taskId);
+    if (!task || task.completed || task.deletedAt !== undefined) {
+      return null;
+    }
+
+    await ctx.db.patch(task._id, { reminderJobId: undefined });
+
+    const recurrence = await getRecurrence(ctx, task);
+    const body =
+      task.dueAt !== undefined
+        ? `Due ${formatDueDate(
+            task.dueAt,
+            recurrence?.timezone ?? task.dueTimezone
+          )}`
+        : undefined;
+
+    await ctx.db.insert("notifications", {
+      userId: task.userId,
+      taskId: task._id,
+      title: `Reminder: ${task.title}`,
+      body,
+      read: false,
+      createdAt: Date.now(),
+    });
+
+    if (task.remindByEmail) {
+      const userId = ctx.db.normalizeId("users", task.userId);
+      const user = userId ? await ctx.db.get(userId) : null;
+      if (user?.email) {
+        const details = body ? `\n\n${body}` : "";
+        await enqueueJob(
+          ctx,
+          "sendEmail",
+          {
+            to: user.email,
+            subject: `Reminder: ${task.title}`,
+            text: `This is your reminder for "${task.title}".${details}`,
+          },
+          { idempotencyKey: `reminder:${task._id}:${task.remindAt}` }
+        );
+      }
+    }
+
+    return null;
+  },
+});
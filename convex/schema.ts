@@ -1,6 +1,8 @@
 import { defineSchema, defineTable } from "convex/server";
 import { authTables } from "@convex-dev/auth/server";
 import { v } from "convex/values";
+import { jobKindValidator } from "./lib/jobs";
+import { uploadPurposeValidator } from "./lib/uploads";
 
 /**
  * Database schema for the application.
@@ -8,6 +10,19 @@ import { v } from "convex/values";
  * This schema includes:
  * - Convex Auth tables (users, accounts, sessions, verification tokens)
  * - Example tasks table to demonstrate basic CRUD operations
+ * - Notifications table for in-app reminders
+ * - Projects table for grouping tasks into lists
+ * - Labels and the taskLabels join table for tagging tasks
+ * - Task series holding the recurrence rules of repeating tasks
+ * - Task comments for discussion threads on a task
+ * - Task attachments linking uploaded files to a task
+ * - Files recording who uploaded each stored blob, and share grants on them
+ * - Share links serving a file to anyone holding a signed token
+ * - Thumbnails generated for uploaded images
+ * - Personal API tokens for scripted access over HTTP
+ * - Webhooks receiving task events, and the log of their deliveries
+ * - Background jobs queued for retrying side effects such as email
+ * - A development mailbox holding email sent with EMAIL_TRANSPORT=mailbox
  */
 export default defineSchema({
   // Convex Auth tables provide authentication functionality
@@ -21,7 +36,292 @@ export default defineSchema({
     description: v.optional(v.string()),
     completed: v.boolean(),
     createdAt: v.number(),
+    // Parent task for subtasks; top-level tasks have no parent
+    parentId: v.optional(v.id("tasks")),
+    projectId: v.optional(v.id("projects")),
+    // Fractional index key for manual ordering (see lib/fractionalIndex.ts)
+    order: v.optional(v.string()),
+    dueAt: v.optional(v.number()),
+    // IANA timezone the due date was set in; reminders show it there
+    dueTimezone: v.optional(v.string()),
+    remindAt: v.optional(v.number()),
+    remindByEmail: v.optional(v.boolean()),
+    // Pending reminder job, cancelled when the reminder is rescheduled
+    reminderJobId: v.optional(v.id("_scheduled_functions")),
+    // Set when the task is moved to the trash (see lib/trash.ts)
+    deletedAt: v.optional(v.number()),
+    // Repeating tasks: the series this task is an occurrence of, and the
+    // occurrence's scheduled time (dueAt may be moved away from it)
+    seriesId: v.optional(v.id("taskSeries")),
+    occurrenceAt: v.optional(v.number()),
+    // Rule used instead of the series' rule for this occurrence's successor
+    ruleOverride: v.optional(v.string()),
+    // Occurrence generated when this one was completed
+    nextOccurrenceId: v.optional(v.id("tasks")),
   })
     .index("by_user", ["userId"])
-    .index("by_user_and_completed", ["userId", "completed"]),
+    .index("by_user_and_completed", ["userId", "completed"])
+    .index("by_user_and_dueAt", ["userId", "dueAt"])
+    .index("by_user_and_order", ["userId", "order"])
+    .index("by_user_and_parent_and_order", ["userId", "parentId", "order"])
+    .index("by_user_and_deletedAt", ["userId", "deletedAt"])
+    // Task lists and counts: only the tasks they show, in manual order
+    .index("by_user_and_parent_and_deletedAt_and_order", [
+      "userId",
+      "parentId",
+      "deletedAt",
+      "order",
+    ])
+    .index("by_user_and_parent_and_deletedAt_and_completed_and_order", [
+      "userId",
+      "parentId",
+      "deletedAt",
+      "completed",
+      "order",
+    ])
+    .index("by_project_and_parent_and_deletedAt_and_order", [
+      "projectId",
+      "parentId",
+      "deletedAt",
+      "order",
+    ])
+    .index("by_project_and_parent_and_deletedAt_and_completed_and_order", [
+      "projectId",
+      "parentId",
+      "deletedAt",
+      "completed",
+      "order",
+    ])
+    .index("by_deletedAt", ["deletedAt"])
+    // Tasks `backfillOrder` hasn't reached yet
+    .index("by_order", ["order"])
+    .index("by_series", ["seriesId"])
+    .searchIndex("search_title", {
+      searchField: "title",
+      filterFields: ["userId", "deletedAt"],
+    })
+    .searchIndex("search_description", {
+      searchField: "description",
+      filterFields: ["userId", "deletedAt"],
+    }),
+
+  // Recurrence of a repeating task; each occurrence is its own task
+  taskSeries: defineTable({
+    userId: v.string(),
+    rule: v.string(), // RFC 5545 RRULE, e.g. "FREQ=WEEKLY;BYDAY=MO"
+    timezone: v.string(), // IANA timezone the rule repeats in
+    start: v.number(), // First occurrence (DTSTART)
+  }),
+
+  // Comment threads on tasks
+  taskComments: defineTable({
+    taskId: v.id("tasks"),
+    authorId: v.string(), // Links to the auth user
+    body: v.string(),
+    createdAt: v.number(),
+    editedAt: v.optional(v.number()),
+  }).index("by_task", ["taskId"]),
+
+  // Files attached to a task; the blob lives in _storage
+  taskAttachments: defineTable({
+    userId: v.string(),
+    taskId: v.id("tasks"),
+    storageId: v.id("_storage"),
+    filename: v.string(),
+    contentType: v.string(),
+    size: v.number(), // Bytes
+    createdAt: v.number(),
+  })
+    .index("by_task", ["taskId"])
+    .index("by_storage", ["storageId"]),
+
+  // Upload URLs handed out and not yet used; an upload is finalized with
+  // the ID of the URL it went through, by the user who asked for it
+  // (see storage.ts)
+  uploadUrls: defineTable({
+    userId: v.string(),
+    createdAt: v.number(),
+  }).index("by_createdAt", ["createdAt"]),
+
+  // Uploaded blobs and their owner, written when an upload is finalized
+  // (see lib/files.ts)
+  files: defineTable({
+    userId: v.string(), // Uploader
+    storageId: v.id("_storage"),
+    contentType: v.string(),
+    size: v.number(), // Bytes
+    purpose: v.optional(uploadPurposeValidator), // Unset for older files
+    createdAt: v.number(),
+    // Pixel dimensions of images, set when their thumbnails are generated
+    width: v.optional(v.number()),
+    height: v.optional(v.number()),
+  })
+    .index("by_storage", ["storageId"])
+    .index("by_user", ["userId"]),
+
+  // Read access to a file granted by its owner to another user
+  fileShares: defineTable({
+    storageId: v.id("_storage"),
+    ownerId: v.string(),
+    userId: v.string(), // User the file is shared with
+    createdAt: v.number(),
+  }).index("by_storage_and_user", ["storageId", "userId"]),
+
+  // Public download links for a file (see lib/shareLinks.ts)
+  shareLinks: defineTable({
+    userId: v.string(), // Owner of the file
+    storageId: v.id("_storage"),
+    expiresAt: v.number(),
+    maxDownloads: v.optional(v.number()), // Unlimited when unset
+    downloadCount: v.number(),
+    createdAt: v.number(),
+  })
+    .index("by_storage", ["storageId"])
+    .index("by_expiresAt", ["expiresAt"]),
+
+  // How far the orphaned-upload collector has got; a single row
+  // (see storage.collectOrphans)
+  orphanScans: defineTable({
+    scannedUntil: v.number(), // _creationTime of the last blob checked
+  }),
+
+  // Scaled-down copies of an uploaded image (see lib/thumbnails.ts)
+  thumbnails: defineTable({
+    sourceId: v.id("_storage"), // The original image
+    storageId: v.id("_storage"),
+    size: v.union(v.literal("small"), v.literal("medium")),
+    width: v.number(),
+    height: v.number(),
+  })
+    .index("by_source", ["sourceId"])
+    .index("by_storage", ["storageId"]),
+
+  // Personal API tokens; only a hash of each token is stored
+  // (see lib/apiTokens.ts)
+  apiTokens: defineTable({
+    userId: v.string(),
+    name: v.string(),
+    tokenHash: v.string(), // SHA-256 of the token, hex
+    displayPrefix: v.string(), // First characters of the token, e.g. "tk_a1b2c3"
+    scopes: v.array(v.union(v.literal("tasks:read"), v.literal("tasks:write"))),
+    createdAt: v.number(),
+    lastUsedAt: v.optional(v.number()),
+    expiresAt: v.optional(v.number()), // Never expires when unset
+  })
+    .index("by_user", ["userId"])
+    .index("by_tokenHash", ["tokenHash"]),
+
+  // Endpoints a user's task events are sent to (see lib/webhooks.ts)
+  webhooks: defineTable({
+    userId: v.string(),
+    url: v.string(),
+    secret: v.string(), // Shared secret the payloads are signed with
+    events: v.array(
+      v.union(
+        v.literal("task.created"),
+        v.literal("task.updated"),
+        v.literal("task.toggled"),
+        v.literal("task.removed")
+      )
+    ),
+    createdAt: v.number(),
+  }).index("by_user", ["userId"]),
+
+  // Each event sent to a webhook, with the outcome of its latest attempt
+  webhookDeliveries: defineTable({
+    webhookId: v.id("webhooks"),
+    event: v.union(
+      v.literal("task.created"),
+      v.literal("task.updated"),
+      v.literal("task.toggled"),
+      v.literal("task.removed")
+    ),
+    payload: v.string(), // JSON body, kept so retries send the same bytes
+    status: v.union(
+      v.literal("pending"),
+      v.literal("succeeded"),
+      v.literal("failed")
+    ),
+    attempts: v.number(),
+    responseStatus: v.optional(v.number()), // HTTP status of the last attempt
+    error: v.optional(v.string()),
+    createdAt: v.number(),
+    lastAttemptAt: v.optional(v.number()),
+    // Only on deliveries retried before they moved onto the job queue
+    nextAttemptAt: v.optional(v.number()),
+  }).index("by_webhook", ["webhookId"]),
+
+  // Durable queue of background jobs, retried until they succeed or run out
+  // of attempts (see lib/jobs.ts and jobs.ts)
+  jobs: defineTable({
+    kind: jobKindValidator,
+    args: v.any(), // Checked against `jobKinds`; cleared once the job succeeds
+    status: v.union(
+      v.literal("pending"),
+      v.literal("running"),
+      v.literal("succeeded"),
+      v.literal("failed") // Out of attempts: dead-lettered until requeued
+    ),
+    attempts: v.number(),
+    maxAttempts: v.number(),
+    idempotencyKey: v.optional(v.string()),
+    // Args hold secrets, so they're dropped when the job fails too
+    sensitive: v.optional(v.boolean()),
+    runAt: v.number(), // When the next attempt is due
+    lastError: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(), // Last status change
+  })
+    .index("by_idempotencyKey", ["idempotencyKey"])
+    .index("by_status_and_updatedAt", ["status", "updatedAt"]),
+
+  // Email caught by the "mailbox" transport instead of being sent, for
+  // local development and end-to-end tests (see lib/email.ts)
+  mailbox: defineTable({
+    to: v.string(), // Lowercased
+    subject: v.string(),
+    text: v.string(),
+    html: v.optional(v.string()),
+    createdAt: v.number(),
+  }).index("by_to", ["to"]),
+
+  // Projects (lists) that group a user's tasks
+  projects: defineTable({
+    userId: v.string(),
+    name: v.string(),
+    color: v.string(), // Hex colour, e.g. "#3b82f6"
+    archived: v.boolean(),
+    createdAt: v.number(),
+  }).index("by_user_and_archived", ["userId", "archived"]),
+
+  // Labels a user can attach to any number of their tasks
+  labels: defineTable({
+    userId: v.string(),
+    name: v.string(),
+    color: v.string(), // Hex colour, e.g. "#3b82f6"
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_and_name", ["userId", "name"]),
+
+  // Join table between tasks and labels
+  taskLabels: defineTable({
+    userId: v.string(),
+    taskId: v.id("tasks"),
+    labelId: v.id("labels"),
+  })
+    .index("by_task_and_label", ["taskId", "labelId"])
+    .index("by_label", ["labelId"]),
+
+  // In-app notifications (e.g. task reminders)
+  notifications: defineTable({
+    userId: v.string(),
+    taskId: v.optional(v.id("tasks")),
+    title: v.string(),
+    body: v.optional(v.string()),
+    read: v.boolean(),
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_and_read", ["userId", "read"]),
 });
@@ -0,0 +1,199 @@
+import { v } from "convex/values";
+import { query, mutation, internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc } from "./_generated/dataModel";
+import { getAuthUserId } from "./lib/auth";
+import { deleteFileIfOrphaned, getOwnedFile } from "./lib/files";
+import {
+  createShareToken,
+  getShareLinkSecret,
+  getShareLinkUrl,
+  MAX_SHARE_LINK_DAYS,
+} from "./lib/shareLinks";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Add a link's public URL. Tokens are deterministic, so they're rebuilt
+ * rather than stored.
+ */
+async function withUrl(link: Doc<"shareLinks">) {
+  const token = await createShareToken(
+    link._id,
+    link.expiresAt,
+    getShareLinkSecret()
+  );
+  return { ...link, url: getShareLinkUrl(token) };
+}
+
+/**
+ * List the share links of a file, newest first. Only its owner may see them.
+ */
+export const list = query({
+  args: {
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    await getOwnedFile(ctx, args.storageId, userId);
+
+    const links = await ctx.db
+      .query("shareLinks")
+      .withIndex("by_storage", (q) => q.eq("storageId", args.storageId))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(links.map(withUrl));
+  },
+});
+
+/**
+ * Create a link that lets anyone download a file until it expires or, if
+ * `maxDownloads` is set, until it has been downloaded that many times.
+ */
+export const create = mutation({
+  args: {
+    storageId: v.id("_storage"),
+    expiresInDays: v.number(),
+    maxDownloads: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    await getOwnedFile(ctx, args.storageId, userId);
+
+    if (
+      !(args.expiresInDays > 0) ||
+      args.expiresInDays > MAX_SHARE_LINK_DAYS
+    ) {
+      throw new Error(
+        `Links must expire within ${MAX_SHARE_LINK_DAYS} days`
+      );
+    }
+    if (
+      args.maxDownloads !== undefined &&
+      !(Number.isInteger(args.maxDownloads) && args.maxDownloads > 0)
+    ) {
+      throw new Error("Download limit must be a positive whole number");
+    }
+
+    const now = Date.now();
+    const id = await ctx.db.insert("shareLinks", {
+      userId,
+      storageId: args.storageId,
+      expiresAt: now + Math.round(args.expiresInDays * DAY_MS),
+      maxDownloads: args.maxDownloads,
+      downloadCount: 0,
+      createdAt: now,
+    });
+
+    const link = await ctx.db.get(id);
+    return await withUrl(link!);
+  },
+});
+
+/**
+ * Revoke a share link. Its URL stops working immediately.
+ */
+export const revoke = mutation({
+  args: {
+    id: v.id("shareLinks"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    const link = await ctx.db.get(args.id);
+    if (!link) {
+      throw new Error("Share link not found");
+    }
+
+    // Verify ownership
+    if (link.userId !== userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await ctx.db.delete(args.id);
+    await deleteFileIfOrphaned(ctx, link.storageId);
+  },
+});
+
+/** Expired links deleted per run of `pruneExpired`. */
+const PRUNE_BATCH_SIZE = 100;
+
+/**
+ * Delete expired share links, and the files only they kept around.
+ * Reschedules itself until every expired link is gone.
+ */
+export const pruneExpired = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("shareLinks")
+      .withIndex("by_expiresAt", (q) => q.lte("expiresAt", Date.now()))
+      .take(PRUNE_BATCH_SIZE);
+    for (const link of expired) {
+      await ctx.db.delete(link._id);
+      await deleteFileIfOrphaned(ctx, link.storageId);
+    }
+
+    if (expired.length === PRUNE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.shareLinks.pruneExpired, {});
+    }
+    return null;
+  },
+});
+
+/**
+ * Count a download through a share link whose token has been verified.
+ * Returns the file to serve, or why the link can't be used.
+ */
+export const redeem = internalMutation({
+  args: {
+    linkId: v.string(),
+    expiresAt: v.number(),
+  },
+  returns: v.union(
+    v.object({
+      ok: v.literal(true),
+      storageId: v.id("_storage"),
+      filename: v.optional(v.string()),
+    }),
+    v.object({
+      ok: v.literal(false),
+      reason: v.union(v.literal("not_found"), v.literal("gone")),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const linkId = ctx.db.normalizeId("shareLinks", args.linkId);
+    const link = linkId ? await ctx.db.get(linkId) : null;
+    // Revoked links are deleted; a mismatched expiry means a stale token
+    if (!link || link.expiresAt !== args.expiresAt) {
+      return { ok: false as const, reason: "not_found" as const };
+    }
+
+    if (
+      link.expiresAt <= Date.now() ||
+      (link.maxDownloads !== undefined &&
+        link.downloadCount >= link.maxDownloads)
+    ) {
+      return { ok: false as const, reason: "gone" as const };
+    }
+
+    // Only count downloads that can be served
+    if (!(await ctx.db.system.get(link.storageId))) {
+      return { ok: false as const, reason: "not_found" as const };
+    }
+
+    await ctx.db.patch(link._id, { downloadCount: link.downloadCount + 1 });
+
+    const attachment = await ctx.db
+      .query("taskAttachments")
+      .withIndex("by_storage", (q) => q.eq("storageId", link.storageId))
+      .first();
+    return {
+      ok: true as const,
+      storageId: link.storageId,
+      filename: attachment?.filename,
+    };
+  },
+});
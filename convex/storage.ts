@@ -1,26 +1,206 @@
-import { query, mutation } from "./_generated/server";
+import {
+  query,
+  mutation,
+  action,
+  internalMutation,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
 import { v } from "convex/values";
 import { getAuthUserId } from "./lib/auth";
+import {
+  deleteFile as deleteStoredFile,
+  deleteFileIfOrphaned,
+  getFile,
+  getOwnedFile,
+  getReadableFile,
+  getStorageUsage,
+  isStorageReferenced,
+  ORPHAN_GRACE_PERIOD_MS,
+} from "./lib/files";
+import {
+  checkUpload,
+  getStorageQuotaBytes,
+  uploadError,
+  uploadErrorValidator,
+  uploadPurposeValidator,
+} from "./lib/uploads";
+import { THUMBNAIL_SOURCE_TYPES } from "./lib/thumbnails";
+
+/** How long an upload URL stays valid (Convex expires them after 1 hour). */
+const UPLOAD_URL_TTL_MS = 60 * 60 * 1000;
+
+/** Expired upload URLs forgotten per run of `pruneUploadUrls`. */
+const PRUNE_BATCH_SIZE = 100;
 
 /**
  * Generate a signed upload URL for file storage.
+ * Call `finalizeUpload` with the returned `uploadId` once the upload
+ * succeeds to take ownership of it.
  */
 export const generateUploadUrl = mutation({
   args: {},
-  returns: v.string(),
+  returns: v.object({
+    uploadUrl: v.string(),
+    uploadId: v.id("uploadUrls"),
+  }),
   handler: async (ctx) => {
-    await getAuthUserId(ctx); // Ensure authenticated
-    return await ctx.storage.generateUploadUrl();
+    const userId = await getAuthUserId(ctx);
+    const uploadId = await ctx.db.insert("uploadUrls", {
+      userId,
+      createdAt: Date.now(),
+    });
+    const uploadUrl = await ctx.storage.generateUploadUrl();
+    return { uploadUrl, uploadId };
   },
 });
 
 /**
- * Get the URL for a stored file.
+ * Register an uploaded file as belonging to the current user, checking it
+ * against the rules for its purpose and the user's storage quota.
+ * Rejected uploads are deleted and a ConvexError with `UploadErrorData`
+ * is thrown. Finalizing the same upload twice is a no-op.
+ */
+export const finalizeUpload = action({
+  args: {
+    uploadId: v.id("uploadUrls"),
+    storageId: v.id("_storage"),
+    purpose: uploadPurposeValidator,
+  },
+  returns: v.id("files"),
+  handler: async (ctx, args): Promise<Id<"files">> => {
+    const userId = await getAuthUserId(ctx);
+    const result = await ctx.runMutation(internal.storage.registerUpload, {
+      userId,
+      uploadId: args.uploadId,
+      storageId: args.storageId,
+      purpose: args.purpose,
+    });
+
+    if (!result.ok) {
+      // Deleted here rather than in the mutation, where throwing would
+      // roll the deletion back
+      await ctx.storage.delete(args.storageId);
+      throw uploadError(result.error);
+    }
+    return result.fileId;
+  },
+});
+
+/**
+ * Record the uploader of a file once it passes the upload checks.
+ * Returns why the upload was rejected instead of throwing, so the caller
+ * can delete it. Blobs that aren't the user's to claim throw instead and
+ * are left alone.
+ */
+export const registerUpload = internalMutation({
+  args: {
+    userId: v.string(),
+    uploadId: v.id("uploadUrls"),
+    storageId: v.id("_storage"),
+    purpose: uploadPurposeValidator,
+  },
+  returns: v.union(
+    v.object({ ok: v.literal(true), fileId: v.id("files") }),
+    v.object({ ok: v.literal(false), error: uploadErrorValidator })
+  ),
+  handler: async (ctx, args) => {
+    const existing = await getFile(ctx, args.storageId);
+    if (existing) {
+      // Verify ownership
+      if (existing.userId !== args.userId) {
+        throw new Error("Unauthorized");
+      }
+      return { ok: true as const, fileId: existing._id };
+    }
+
+    const metadata = await ctx.db.system.get(args.storageId);
+    if (!metadata) {
+      throw new Error("File not found");
+    }
+
+    // Only a blob uploaded through the URL this user asked for can be
+    // claimed, once, and never a thumbnail
+    const uploadUrl = await ctx.db.get(args.uploadId);
+    if (!uploadUrl || uploadUrl.userId !== args.userId) {
+      throw new Error("Unauthorized");
+    }
+    if (
+      metadata._creationTime < uploadUrl.createdAt ||
+      metadata._creationTime > uploadUrl.createdAt + UPLOAD_URL_TTL_MS
+    ) {
+      throw new Error("Unauthorized");
+    }
+    const thumbnail = await ctx.db
+      .query("thumbnails")
+      .withIndex("by_storage", (q) => q.eq("storageId", args.storageId))
+      .first();
+    if (thumbnail) {
+      throw new Error("Unauthorized");
+    }
+    await ctx.db.delete(uploadUrl._id);
+
+    const file = {
+      size: metadata.size,
+      contentType: metadata.contentType ?? "application/octet-stream",
+    };
+    const { usedBytes } = await getStorageUsage(ctx, args.userId);
+    const error = checkUpload(file, args.purpose, {
+      usedBytes,
+      quotaBytes: getStorageQuotaBytes(),
+    });
+    if (error) {
+      return { ok: false as const, error };
+    }
+
+    const fileId = await ctx.db.insert("files", {
+      userId: args.userId,
+      storageId: args.storageId,
+      ...file,
+      purpose: args.purpose,
+      createdAt: Date.now(),
+    });
+
+    if (THUMBNAIL_SOURCE_TYPES.includes(file.contentType)) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.imageProcessing.generateThumbnails,
+        { storageId: args.storageId }
+      );
+    }
+    return { ok: true as const, fileId };
+  },
+});
+
+/**
+ * Get the current user's storage usage and quota, in bytes.
+ */
+export const usage = query({
+  args: {},
+  returns: v.object({
+    usedBytes: v.number(),
+    quotaBytes: v.number(),
+    fileCount: v.number(),
+  }),
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    const { usedBytes, fileCount } = await getStorageUsage(ctx, userId);
+    return { usedBytes, quotaBytes: getStorageQuotaBytes(), fileCount };
+  },
+});
+
+/**
+ * Get the URL for a stored file the current user owns or has been shared.
  */
 export const getUrl = query({
   args: { storageId: v.id("_storage") },
   returns: v.union(v.string(), v.null()),
   handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const file = await getReadableFile(ctx, args.storageId, userId);
+    if (!file) {
+      return null;
+    }
     return await ctx.storage.getUrl(args.storageId);
   },
 });
@@ -41,20 +221,254 @@ export const getMetadata = query({
     v.null()
   ),
   handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const file = await getReadableFile(ctx, args.storageId, userId);
+    if (!file) {
+      return null;
+    }
     const metadata = await ctx.db.system.get(args.storageId);
     return metadata;
   },
 });
 
 /**
- * Delete a file from storage.
+ * Delete a file from storage. Only its owner may delete it.
  */
 export const deleteFile = mutation({
   args: { storageId: v.id("_storage") },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await getAuthUserId(ctx); // Ensure authenticated
-    await ctx.storage.delete(args.storageId);
+    const userId = await getAuthUserId(ctx);
+    await getOwnedFile(ctx, args.storageId, userId);
+
+    const attachment = await ctx.db
+      .query("taskAttachments")
+      .withIndex("by_storage", (q) => q.eq("storageId", args.storageId))
+      .first();
+    if (attachment) {
+      throw new Error("File is attached to a task; remove the attachment instead");
+    }
+
+    await deleteStoredFile(ctx, args.storageId);
+    return null;
+  },
+});
+
+/**
+ * List the users a file is shared with. Only its owner may see them.
+ */
+export const listShares = query({
+  args: { storageId: v.id("_storage") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    await getOwnedFile(ctx, args.storageId, userId);
+
+    const shares = await ctx.db
+      .query("fileShares")
+      .withIndex("by_storage_and_user", (q) =>
+        q.eq("storageId", args.storageId)
+      )
+      .collect();
+
+    return await Promise.all(
+      shares.map(async (share) => {
+        const sharedWithId = ctx.db.normalizeId("users", share.userId);
+        const user = sharedWithId ? await ctx.db.get(sharedWithId) : null;
+        return {
+          ...share,
+          userName: user?.name ?? user?.email ?? "Unknown user",
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Let another user, found by email, read a file. Only its owner may share it.
+ */
+export const share = mutation({
+  args: {
+    storageId: v.id("_storage"),
+    email: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    await getOwnedFile(ctx, args.storageId, userId);
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", args.email.trim()))
+      .first();
+    if (!user) {
+      throw new Error("User not found");
+    }
+    if (user._id === userId) {
+      throw new Error("You already own this file");
+    }
+
+    const existing = await ctx.db
+      .query("fileShares")
+      .withIndex("by_storage_and_user", (q) =>
+        q.eq("storageId", args.storageId).eq("userId", user._id)
+      )
+      .unique();
+    if (existing) {
+      return existing._id;
+    }
+
+    return await ctx.db.insert("fileShares", {
+      storageId: args.storageId,
+      ownerId: userId,
+      userId: user._id,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Revoke a share grant. Only the file's owner may revoke it.
+ */
+export const unshare = mutation({
+  args: { id: v.id("fileShares") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    const share = await ctx.db.get(args.id);
+    if (!share) {
+      throw new Error("Share not found");
+    }
+    await getOwnedFile(ctx, share.storageId, userId);
+
+    await ctx.db.delete(args.id);
+    await deleteFileIfOrphaned(ctx, share.storageId);
+  },
+});
+
+/**
+ * Forget upload URLs that expired unused. Runs from `crons.ts`; works in
+ * batches and schedules itself again until none are left.
+ */
+export const pruneUploadUrls = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const cutoff = Date.now() - UPLOAD_URL_TTL_MS;
+
+    const expired = await ctx.db
+      .query("uploadUrls")
+      .withIndex("by_createdAt", (q) => q.lt("createdAt", cutoff))
+      .take(PRUNE_BATCH_SIZE);
+
+    for (const uploadUrl of expired) {
+      await ctx.db.delete(uploadUrl._id);
+    }
+
+    if (expired.length === PRUNE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.storage.pruneUploadUrls, {});
+    }
+    return null;
+  },
+});
+
+/** Blobs checked per run of the orphan collector. */
+const ORPHAN_BATCH_SIZE = 100;
+
+
+/**
+ * Delete uploads older than the grace period that nothing links to, e.g.
+ * files uploaded for an attachment that was never added. Each blob is
+ * checked once: the collector remembers how far through storage it has
+ * got and picks up from there, working in batches and rescheduling itself
+ * until it reaches the cutoff, then logs what it reclaimed. Blobs that
+ * stop being linked later are deleted when their last link is removed
+ * (see `deleteFileIfOrphaned`).
+ */
+export const collectOrphans = internalMutation({
+  args: {
+    cutoff: v.optional(v.number()),
+    scanned: v.optional(v.number()),
+    deleted: v.optional(v.number()),
+    deletedBytes: v.optional(v.number()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const cutoff = args.cutoff ?? Date.now() - ORPHAN_GRACE_PERIOD_MS;
+    let scanned = args.scanned ?? 0;
+    let deleted = args.deleted ?? 0;
+    let deletedBytes = args.deletedBytes ?? 0;
+
+    // Overlapping runs read and advance the same mark, so they never
+    // check a blob twice
+    const progress = await ctx.db.query("orphanScans").first();
+    const scannedUntil = progress?.scannedUntil ?? 0;
+
+    const blobs = await ctx.db.system
+      .query("_storage")
+      .withIndex("by_creation_time", (q) =>
+        q.gt("_creationTime", scannedUntil).lt("_creationTime", cutoff)
+      )
+      .take(ORPHAN_BATCH_SIZE);
+
+    for (const blob of blobs) {
+      scanned++;
+      if (await isStorageReferenced(ctx, blob._id)) continue;
+      await deleteStoredFile(ctx, blob._id);
+      deleted++;
+      deletedBytes += blob.size;
+    }
+
+    const last = blobs[blobs.length - 1];
+    if (last) {
+      if (progress) {
+        await ctx.db.patch(progress._id, { scannedUntil: last._creationTime });
+      } else {
+        await ctx.db.insert("orphanScans", {
+          scannedUntil: last._creationTime,
+        });
+      }
+    }
+
+    if (blobs.length === ORPHAN_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.storage.collectOrphans, {
+        cutoff,
+        scanned,
+        deleted,
+        deletedBytes,
+      });
+      return null;
+    }
+
+    console.log(
+      `Collected ${deleted} orphaned upload(s), ${deletedBytes} bytes, ` +
+        `after checking ${scanned} upload(s)`
+    );
     return null;
   },
 });
+
+/**
+ * Create file records for attachments uploaded before uploads were
+ * registered. Run once per deployment with
+ * `npx convex run storage:backfillFiles`.
+ */
+export const backfillFiles = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const attachments = await ctx.db.query("taskAttachments").collect();
+
+    let created = 0;
+    for (const attachment of attachments) {
+      if (await getFile(ctx, attachment.storageId)) continue;
+      await ctx.db.insert("files", {
+        userId: attachment.userId,
+        storageId: attachment.storageId,
+        contentType: attachment.contentType,
+        size: attachment.size,
+        createdAt: attachment.createdAt,
+      });
+      created++;
+    }
+
+    return created;
+  },
+});
@@ -1,57 +1,765 @@
-import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
+import { v, ObjectType } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import {
+  query,
+  mutation,
+  internalMutation,
+  internalQuery,
+  MutationCtx,
+  QueryCtx,
+} from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
 import { getAuthUserId } from "./lib/auth";
+import {
+  apiError,
+  apiTaskPageValidator,
+  apiTaskValidator,
+  parseArgs,
+  toApiTask,
+  withApiErrors,
+} from "./lib/httpApi";
+import type { ValidationIssue } from "./lib/validation";
+import { generateKeyBetween } from "./lib/fractionalIndex";
+import { getOwnedLabel, getTaskLabels } from "./lib/labels";
+import { getOwnedProject } from "./lib/projects";
+import {
+  createNextOccurrence,
+  createSeries,
+  deleteSeriesIfUnused,
+  getRecurrence,
+  validateRecurrence,
+} from "./lib/recurrence";
+import { cancelReminder, scheduleReminder } from "./lib/reminders";
+import { validateTimezone } from "./lib/rrule";
+import {
+  getTrashRetentionMs,
+  purgeTask,
+  restoreTask,
+  trashTask,
+} from "./lib/trash";
+import { queueWebhookEvent, WebhookEvent } from "./lib/webhooks";
+import {
+  MAX_SUBTASK_DEPTH,
+  getDepth,
+  getDescendants,
+  getTree,
+} from "./lib/subtasks";
+
+/** Maximum length of a task title, in characters. */
+export const MAX_TITLE_LENGTH = 200;
+
+/** Maximum length of a task description, in characters. */
+export const MAX_DESCRIPTION_LENGTH = 2000;
+
+/**
+ * Highest count `counts` and a row's `subtaskCount` report; there may be
+ * more tasks than that.
+ */
+export const MAX_TASK_COUNT = 100;
+
+/**
+ * Trim and validate a task title.
+ * Throws if the title is empty or too long.
+ */
+function validateTitle(title: string): string {
+  const trimmed = title.trim();
+  if (trimmed.length === 0) {
+    throw new Error("Title cannot be empty");
+  }
+  if (trimmed.length > MAX_TITLE_LENGTH) {
+    throw new Error(`Title must be at most ${MAX_TITLE_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+/**
+ * Trim and validate a task description.
+ * An empty description is stored as `undefined`.
+ */
+function validateDescription(description: string | undefined): string | undefined {
+  const trimmed = description?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  if (trimmed.length > MAX_DESCRIPTION_LENGTH) {
+    throw new Error(
+      `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`
+    );
+  }
+  return trimmed;
+}
+
+/** Number of expired trashed tasks purged per `purgeExpiredTrash` run. */
+const PURGE_BATCH_SIZE = 100;
+
+/** Tasks given an order key per run of `backfillOrder`. */
+const BACKFILL_BATCH_SIZE = 100;
+
+/** Maximum number of results returned by `search`. */
+const MAX_SEARCH_RESULTS = 20;
+
+/** Maximum number of labels `listByLabels` accepts at once. */
+const MAX_LABEL_FILTER = 20;
 
 /**
- * List all tasks for the current user.
+ * Add what a task row shows beyond the task itself: the number of its
+ * direct subtasks (up to `MAX_TASK_COUNT`), its labels and how it repeats.
+ * Use `subtaskCount` for the whole subtree.
+ */
+async function withRowDetails(ctx: QueryCtx, task: Doc<"tasks">) {
+  const children = await ctx.db
+    .query("tasks")
+    .withIndex("by_user_and_parent_and_deletedAt_and_order", (q) =>
+      q
+        .eq("userId", task.userId)
+        .eq("parentId", task._id)
+        .eq("deletedAt", undefined)
+    )
+    .take(MAX_TASK_COUNT);
+  return {
+    ...task,
+    subtaskCount: children.length,
+    labels: await getTaskLabels(ctx, task._id),
+    recurrence: await getRecurrence(ctx, task),
+  };
+}
+
+/**
+ * Queue a webhook event for a task, carrying its API form as `data`.
+ */
+async function queueTaskEvent(
+  ctx: MutationCtx,
+  event: WebhookEvent,
+  task: Doc<"tasks">
+) {
+  await queueWebhookEvent(ctx, task.userId, event, async () =>
+    toApiTask(await withRowDetails(ctx, task))
+  );
+}
+
+/**
+ * A recurrence rule (RFC 5545 RRULE) and the IANA timezone it repeats in.
+ */
+const recurrenceValidator = v.object({
+  rule: v.string(),
+  timezone: v.string(),
+});
+
+/**
+ * Status filter accepted by `list`.
+ */
+export const taskStatusValidator = v.union(
+  v.literal("all"),
+  v.literal("active"),
+  v.literal("completed")
+);
+
+const listArgs = {
+  paginationOpts: paginationOptsValidator,
+  status: v.optional(taskStatusValidator),
+  projectId: v.optional(v.id("projects")),
+};
+
+async function listTasks(
+  ctx: QueryCtx,
+  userId: string,
+  args: ObjectType<typeof listArgs>
+) {
+  const status = args.status ?? "all";
+
+  let tasks;
+  if (args.projectId) {
+    const project = await getOwnedProject(ctx, args.projectId, userId);
+    tasks =
+      status === "all"
+        ? ctx.db
+            .query("tasks")
+            .withIndex("by_project_and_parent_and_deletedAt_and_order", (q) =>
+              q
+                .eq("projectId", project._id)
+                .eq("parentId", undefined)
+                .eq("deletedAt", undefined)
+            )
+        : ctx.db
+            .query("tasks")
+            .withIndex(
+              "by_project_and_parent_and_deletedAt_and_completed_and_order",
+              (q) =>
+                q
+                  .eq("projectId", project._id)
+                  .eq("parentId", undefined)
+                  .eq("deletedAt", undefined)
+                  .eq("completed", status === "completed")
+            );
+  } else {
+    tasks =
+      status === "all"
+        ? ctx.db
+            .query("tasks")
+            .withIndex("by_user_and_parent_and_deletedAt_and_order", (q) =>
+              q
+                .eq("userId", userId)
+                .eq("parentId", undefined)
+                .eq("deletedAt", undefined)
+            )
+        : ctx.db
+            .query("tasks")
+            .withIndex(
+              "by_user_and_parent_and_deletedAt_and_completed_and_order",
+              (q) =>
+                q
+                  .eq("userId", userId)
+                  .eq("parentId", undefined)
+                  .eq("deletedAt", undefined)
+                  .eq("completed", status === "completed")
+            );
+  }
+
+  const result = await tasks.paginate(args.paginationOpts);
+
+  return {
+    ...result,
+    page: await Promise.all(
+      result.page.map((task) => withRowDetails(ctx, task))
+    ),
+  };
+}
+
+/**
+ * List the current user's top-level tasks, one page at a time.
+ *
+ * Tasks are returned in their manual order (see `move`). New tasks are
+ * placed at the top, so an unsorted list reads newest first. Ties between
+ * equal order keys fall back to `_creationTime`, which keeps the sort order
+ * stable for pagination. Each task carries its labels and the number of
+ * subtasks below it; use `tree` to load them. Pass `projectId` to only
+ * list that project's tasks.
  */
 export const list = query({
-  args: {},
-  handler: async (ctx) => {
+  args: listArgs,
+  handler: async (ctx, args) =>
+    await listTasks(ctx, await getAuthUserId(ctx), args),
+});
+
+/**
+ * List the current user's tasks, at any depth, that carry any (the default)
+ * or all of the given labels, in their manual order.
+ * Pass `projectId` to only include that project's tasks.
+ */
+export const listByLabels = query({
+  args: {
+    labelIds: v.array(v.id("labels")),
+    match: v.optional(v.union(v.literal("any"), v.literal("all"))),
+    projectId: v.optional(v.id("projects")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const labelIds = [...new Set(args.labelIds)];
+    if (labelIds.length === 0) {
+      return [];
+    }
+    if (labelIds.length > MAX_LABEL_FILTER) {
+      throw new Error(`Filter by at most ${MAX_LABEL_FILTER} labels at once`);
+    }
+
+    // Count how many of the requested labels each task carries
+    const matches = new Map<Doc<"tasks">["_id"], number>();
+    for (const labelId of labelIds) {
+      await getOwnedLabel(ctx, labelId, userId);
+      const links = await ctx.db
+        .query("taskLabels")
+        .withIndex("by_label", (q) => q.eq("labelId", labelId))
+        .collect();
+      for (const link of links) {
+        matches.set(link.taskId, (matches.get(link.taskId) ?? 0) + 1);
+      }
+    }
+
+    const required = args.match === "all" ? labelIds.length : 1;
+    const taskIds = [...matches]
+      .filter(([, count]) => count >= required)
+      .map(([taskId]) => taskId);
+
+    const tasks = (await Promise.all(taskIds.map((id) => ctx.db.get(id))))
+      .filter(
+        (task): task is Doc<"tasks"> =>
+          task !== null && task.deletedAt === undefined
+      )
+      .filter((task) => !args.projectId || task.projectId === args.projectId)
+      // Order keys must be compared by code unit, like the index does
+      .sort((a, b) => {
+        const orderA = a.order ?? "";
+        const orderB = b.order ?? "";
+        if (orderA !== orderB) {
+          return orderA < orderB ? -1 : 1;
+        }
+        return a._creationTime - b._creationTime;
+      });
+
+    return await Promise.all(tasks.map((task) => withRowDetails(ctx, task)));
+  },
+});
+
+/**
+ * Get a task with all of its subtasks, nested.
+ */
+export const tree = query({
+  args: {
+    id: v.id("tasks"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    const task = await ctx.db.get(args.id);
+    if (!task || task.deletedAt !== undefined) {
+      throw new Error("Task not found");
+    }
+
+    // Verify ownership
+    if (task.userId !== userId) {
+      throw new Error("Unauthorized");
+    }
+
+    return await getTree(ctx, task);
+  },
+});
+
+const getArgs = {
+  id: v.id("tasks"),
+};
+
+async function getTask(
+  ctx: QueryCtx,
+  userId: string,
+  args: ObjectType<typeof getArgs>
+) {
+  const task = await ctx.db.get(args.id);
+  if (!task || task.deletedAt !== undefined) {
+    return null;
+  }
+
+  // Verify ownership
+  if (task.userId !== userId) {
+    throw new Error("Unauthorized");
+  }
+
+  return await withRowDetails(ctx, task);
+}
+
+/**
+ * Get a single task as it appears in a task row.
+ * Returns null if the task doesn't exist or is in the trash.
+ */
+export const get = query({
+  args: getArgs,
+  handler: async (ctx, args) =>
+    await getTask(ctx, await getAuthUserId(ctx), args),
+});
+
+/**
+ * Search the current user's tasks, at any depth, by title and description.
+ * Results are ranked by relevance, with title matches before description
+ * matches.
+ */
+export const search = query({
+  args: {
+    query: v.string(),
+  },
+  handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
+    const text = args.query.trim();
+    if (text.length === 0) {
+      return [];
+    }
 
-    return await ctx.db
+    const titleMatches = await ctx.db
       .query("tasks")
-      .withIndex("by_user", (q) => q.eq("userId", userId))
-      .collect();
+      .withSearchIndex("search_title", (q) =>
+        q.search("title", text).eq("userId", userId).eq("deletedAt", undefined)
+      )
+      .take(MAX_SEARCH_RESULTS);
+    const descriptionMatches = await ctx.db
+      .query("tasks")
+      .withSearchIndex("search_description", (q) =>
+        q
+          .search("description", text)
+          .eq("userId", userId)
+          .eq("deletedAt", undefined)
+      )
+      .take(MAX_SEARCH_RESULTS);
+
+    const seen = new Set<Doc<"tasks">["_id"]>();
+    return [...titleMatches, ...descriptionMatches]
+      .filter((task) => {
+        if (seen.has(task._id)) {
+          return false;
+        }
+        seen.add(task._id);
+        return true;
+      })
+      .slice(0, MAX_SEARCH_RESULTS);
   },
 });
 
 /**
- * Create a new task.
+ * Count the current user's top-level tasks by status, matching what `list`
+ * shows. Pass `projectId` to only count that project's tasks.
+ *
+ * Counts stop at `MAX_TASK_COUNT`, so this reactive query reads a bounded
+ * number of tasks however many there are; show that count as e.g. "99+".
  */
-export const create = mutation({
+export const counts = query({
   args: {
-    title: v.string(),
-    description: v.optional(v.string()),
+    projectId: v.optional(v.id("projects")),
   },
+  returns: v.object({
+    all: v.number(),
+    active: v.number(),
+    completed: v.number(),
+  }),
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
+    const project = args.projectId
+      ? await getOwnedProject(ctx, args.projectId, userId)
+      : null;
 
-    const taskId = await ctx.db.insert("tasks", {
-      userId,
-      title: args.title,
-      description: args.description,
-      completed: false,
-      createdAt: Date.now(),
-    });
+    // Each count reads only the tasks it counts, up to the limit
+    const countByCompleted = async (completed: boolean) => {
+      const tasks = project
+        ? ctx.db
+            .query("tasks")
+            .withIndex(
+              "by_project_and_parent_and_deletedAt_and_completed_and_order",
+              (q) =>
+                q
+                  .eq("projectId", project._id)
+                  .eq("parentId", undefined)
+                  .eq("deletedAt", undefined)
+                  .eq("completed", completed)
+            )
+        : ctx.db
+            .query("tasks")
+            .withIndex(
+              "by_user_and_parent_and_deletedAt_and_completed_and_order",
+              (q) =>
+                q
+                  .eq("userId", userId)
+                  .eq("parentId", undefined)
+                  .eq("deletedAt", undefined)
+                  .eq("completed", completed)
+            );
+      return (await tasks.take(MAX_TASK_COUNT)).length;
+    };
+
+    const active = await countByCompleted(false);
+    const completed = await countByCompleted(true);
 
-    return taskId;
+    return {
+      all: Math.min(active + completed, MAX_TASK_COUNT),
+      active,
+      completed,
+    };
   },
 });
 
+const createArgs = {
+  title: v.string(),
+  description: v.optional(v.string()),
+  parentId: v.optional(v.id("tasks")),
+  projectId: v.optional(v.id("projects")),
+  dueAt: v.optional(v.number()),
+  dueTimezone: v.optional(v.string()),
+  remindAt: v.optional(v.number()),
+  remindByEmail: v.optional(v.boolean()),
+  recurrence: v.optional(recurrenceValidator),
+};
+
+async function createTask(
+  ctx: MutationCtx,
+  userId: string,
+  args: ObjectType<typeof createArgs>
+) {
+  if (args.recurrence && args.dueAt === undefined) {
+    throw new Error("A repeating task needs a due date");
+  }
+
+  let order: string;
+  let projectId = args.projectId;
+  if (args.parentId) {
+    const parent = await ctx.db.get(args.parentId);
+    if (!parent || parent.deletedAt !== undefined) {
+      throw new Error("Parent task not found");
+    }
+
+    // Verify ownership
+    if (parent.userId !== userId) {
+      throw new Error("Unauthorized");
+    }
+
+    if ((await getDepth(ctx, parent)) >= MAX_SUBTASK_DEPTH) {
+      throw new Error(
+        `Subtasks can be nested at most ${MAX_SUBTASK_DEPTH} levels deep`
+      );
+    }
+
+    const last = await ctx.db
+      .query("tasks")
+      .withIndex("by_user_and_parent_and_order", (q) =>
+        q.eq("userId", userId).eq("parentId", parent._id)
+      )
+      .order("desc")
+      .first();
+    order = generateKeyBetween(last?.order ?? null, null);
+    projectId = parent.projectId;
+  } else {
+    if (projectId) {
+      await getOwnedProject(ctx, projectId, userId);
+    }
+
+    const first = await ctx.db
+      .query("tasks")
+      .withIndex("by_user_and_parent_and_order", (q) =>
+        q.eq("userId", userId).eq("parentId", undefined).gt("order", "")
+      )
+      .first();
+    order = generateKeyBetween(null, first?.order ?? null);
+  }
+
+  const taskId = await ctx.db.insert("tasks", {
+    userId,
+    title: validateTitle(args.title),
+    description: validateDescription(args.description),
+    completed: false,
+    createdAt: Date.now(),
+    parentId: args.parentId,
+    projectId,
+    order,
+    dueAt: args.dueAt,
+    dueTimezone:
+      args.dueTimezone !== undefined
+        ? validateTimezone(args.dueTimezone)
+        : undefined,
+    remindAt: args.remindAt,
+    remindByEmail: args.remindByEmail,
+  });
+
+  if (args.recurrence && args.dueAt !== undefined) {
+    const seriesId = await createSeries(
+      ctx,
+      userId,
+      args.recurrence.rule,
+      args.recurrence.timezone,
+      args.dueAt
+    );
+    await ctx.db.patch(taskId, { seriesId, occurrenceAt: args.dueAt });
+  }
+
+  const task = (await ctx.db.get(taskId))!;
+  if (args.remindAt !== undefined) {
+    await scheduleReminder(ctx, task);
+  }
+  await queueTaskEvent(ctx, "task.created", task);
+
+  return taskId;
+}
+
+/**
+ * Create a new task.
+ *
+ * Top-level tasks are added at the top of the list. Pass `parentId` to
+ * create a subtask instead; subtasks are added below their siblings and
+ * always belong to their parent's project, so `projectId` is ignored for them.
+ * Pass `recurrence` to make the task repeat, starting from its due date.
+ */
+export const create = mutation({
+  args: createArgs,
+  handler: async (ctx, args) =>
+    await createTask(ctx, await getAuthUserId(ctx), args),
+});
+
+const toggleFields = {
+  includeSubtasks: v.optional(v.boolean()),
+};
+
+const toggleArgs = {
+  id: v.id("tasks"),
+  ...toggleFields,
+};
+
+async function toggleTask(
+  ctx: MutationCtx,
+  userId: string,
+  args: ObjectType<typeof toggleArgs>
+) {
+  const task = await ctx.db.get(args.id);
+  if (!task || task.deletedAt !== undefined) {
+    throw new Error("Task not found");
+  }
+
+  // Verify ownership
+  if (task.userId !== userId) {
+    throw new Error("Unauthorized");
+  }
+
+  await ctx.db.patch(args.id, {
+    completed: !task.completed,
+  });
+
+  // Completing a task silences its reminder; reopening it re-arms it
+  await scheduleReminder(ctx, { ...task, completed: !task.completed });
+
+  if (!task.completed) {
+    await createNextOccurrence(ctx, task);
+  }
+
+  if (!task.completed && args.includeSubtasks) {
+    for (const subtask of await getDescendants(ctx, task)) {
+      if (!subtask.completed) {
+        await ctx.db.patch(subtask._id, { completed: true });
+        await cancelReminder(ctx, subtask);
+        await createNextOccurrence(ctx, subtask);
+      }
+    }
+  }
+
+  await queueTaskEvent(ctx, "task.toggled", (await ctx.db.get(args.id))!);
+}
+
 /**
  * Toggle a task's completed status.
+ * When completing a task, pass `includeSubtasks` to complete all of its
+ * subtasks as well. Completing an occurrence of a repeating task creates
+ * the next occurrence.
  */
 export const toggle = mutation({
+  args: toggleArgs,
+  handler: async (ctx, args) =>
+    await toggleTask(ctx, await getAuthUserId(ctx), args),
+});
+
+const updateFields = {
+  title: v.optional(v.string()),
+  description: v.optional(v.string()),
+  dueAt: v.optional(v.union(v.number(), v.null())),
+  dueTimezone: v.optional(v.string()),
+  remindAt: v.optional(v.union(v.number(), v.null())),
+  remindByEmail: v.optional(v.boolean()),
+  projectId: v.optional(v.union(v.id("projects"), v.null())),
+};
+
+const updateArgs = {
+  id: v.id("tasks"),
+  ...updateFields,
+};
+
+async function updateTask(
+  ctx: MutationCtx,
+  userId: string,
+  args: ObjectType<typeof updateArgs>
+) {
+  const task = await ctx.db.get(args.id);
+  if (!task || task.deletedAt !== undefined) {
+    throw new Error("Task not found");
+  }
+
+  // Verify ownership
+  if (task.userId !== userId) {
+    throw new Error("Unauthorized");
+  }
+
+  const updates: Partial<
+    Pick<
+      Doc<"tasks">,
+      | "title"
+      | "description"
+      | "dueAt"
+      | "dueTimezone"
+      | "remindAt"
+      | "remindByEmail"
+      | "projectId"
+    >
+  > = {};
+  if (args.title !== undefined) {
+    updates.title = validateTitle(args.title);
+  }
+  if (args.description !== undefined) {
+    updates.description = validateDescription(args.description);
+  }
+  if (args.dueAt !== undefined) {
+    updates.dueAt = args.dueAt ?? undefined;
+  }
+  if (args.dueTimezone !== undefined) {
+    updates.dueTimezone = validateTimezone(args.dueTimezone);
+  }
+  if (args.remindAt !== undefined) {
+    updates.remindAt = args.remindAt ?? undefined;
+  }
+  if (args.remindByEmail !== undefined) {
+    updates.remindByEmail = args.remindByEmail;
+  }
+  if (args.projectId !== undefined) {
+    if (task.parentId) {
+      throw new Error("Subtasks always belong to their parent's project");
+    }
+    if (args.projectId) {
+      await getOwnedProject(ctx, args.projectId, userId);
+    }
+    updates.projectId = args.projectId ?? undefined;
+    const descendants = await getDescendants(ctx, task, {
+      includeTrashed: true,
+    });
+    for (const subtask of descendants) {
+      await ctx.db.patch(subtask._id, { projectId: updates.projectId });
+    }
+  }
+
+  await ctx.db.patch(args.id, updates);
+
+  if (args.remindAt !== undefined && args.remindAt !== task.remindAt) {
+    await scheduleReminder(ctx, { ...task, ...updates });
+  }
+
+  await queueTaskEvent(ctx, "task.updated", (await ctx.db.get(args.id))!);
+}
+
+/**
+ * Update a task's title, description, due date, reminder or project.
+ * Omitted fields are left unchanged; an empty description or a `null`
+ * date or project clears it. Pass `dueTimezone` with the due date so
+ * reminders show it in the user's timezone. Changing the reminder
+ * reschedules its pending job. Moving a task to another project moves its
+ * subtasks along with it.
+ * For a repeating task, changing the due date only moves this occurrence;
+ * use `setRecurrence` to change the schedule.
+ */
+export const update = mutation({
+  args: updateArgs,
+  handler: async (ctx, args) =>
+    await updateTask(ctx, await getAuthUserId(ctx), args),
+});
+
+/**
+ * Change how a task repeats.
+ *
+ * With scope "future" the rule applies to this occurrence and all later
+ * ones: the task starts a new series from its due date (a `null` rule stops
+ * it repeating). With scope "occurrence" the rule only decides when the
+ * next occurrence is due, after which the series' own rule takes over again
+ * (a `null` rule drops such an override).
+ */
+export const setRecurrence = mutation({
   args: {
     id: v.id("tasks"),
+    rule: v.union(v.string(), v.null()),
+    timezone: v.optional(v.string()),
+    scope: v.union(v.literal("occurrence"), v.literal("future")),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
 
     const task = await ctx.db.get(args.id);
-    if (!task) {
+    if (!task || task.deletedAt !== undefined) {
       throw new Error("Task not found");
     }
 
@@ -60,24 +768,79 @@ export const toggle = mutation({
       throw new Error("Unauthorized");
     }
 
-    await ctx.db.patch(args.id, {
-      completed: !task.completed,
-    });
+    if (args.scope === "occurrence") {
+      if (!task.seriesId) {
+        throw new Error("Only repeating tasks have occurrences");
+      }
+      const series = await ctx.db.get(task.seriesId);
+      await ctx.db.patch(args.id, {
+        ruleOverride:
+          args.rule === null
+            ? undefined
+            : validateRecurrence(args.rule, series!.timezone),
+      });
+      return;
+    }
+
+    const previousSeriesId = task.seriesId;
+    if (args.rule === null) {
+      await ctx.db.patch(args.id, {
+        seriesId: undefined,
+        occurrenceAt: undefined,
+        ruleOverride: undefined,
+      });
+    } else {
+      if (task.dueAt === undefined) {
+        throw new Error("A repeating task needs a due date");
+      }
+      const previous = previousSeriesId
+        ? await ctx.db.get(previousSeriesId)
+        : null;
+      const timezone = args.timezone ?? previous?.timezone;
+      if (!timezone) {
+        throw new Error("A timezone is required");
+      }
+      const seriesId = await createSeries(
+        ctx,
+        userId,
+        args.rule,
+        timezone,
+        task.dueAt
+      );
+      await ctx.db.patch(args.id, {
+        seriesId,
+        occurrenceAt: task.dueAt,
+        ruleOverride: undefined,
+      });
+    }
+
+    if (previousSeriesId) {
+      await deleteSeriesIfUnused(ctx, previousSeriesId);
+    }
   },
 });
 
 /**
- * Delete a task.
+ * Move a task to a new position in the user's list.
+ *
+ * Pass `afterId` to place the task directly below another task, or `beforeId`
+ * to place it directly above one (used when moving to the top). Both must be
+ * siblings of the task, i.e. share its parent. Only the moved
+ * task gets a new order key. The key is computed from the neighbours as they
+ * are in the database when the mutation runs, not as the client last saw them,
+ * so concurrent moves from several tabs converge on the same order.
  */
-export const remove = mutation({
+export const move = mutation({
   args: {
     id: v.id("tasks"),
+    afterId: v.optional(v.id("tasks")),
+    beforeId: v.optional(v.id("tasks")),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
 
     const task = await ctx.db.get(args.id);
-    if (!task) {
+    if (!task || task.deletedAt !== undefined) {
       throw new Error("Task not found");
     }
 
@@ -86,6 +849,468 @@ export const remove = mutation({
       throw new Error("Unauthorized");
     }
 
-    await ctx.db.delete(args.id);
+    const anchorId = args.afterId ?? args.beforeId;
+    if (!anchorId) {
+      throw new Error("Either afterId or beforeId is required");
+    }
+    if (anchorId === args.id) {
+      return;
+    }
+
+    const anchor = await ctx.db.get(anchorId);
+    if (!anchor || anchor.userId !== userId || anchor.deletedAt !== undefined) {
+      throw new Error("Task not found");
+    }
+    if (anchor.parentId !== task.parentId) {
+      throw new Error("Tasks can only be moved among their siblings");
+    }
+    if (anchor.order === undefined) {
+      throw new Error("Task has no order key; run tasks:backfillOrder first");
+    }
+    const anchorOrder = anchor.order;
+
+    let order: string;
+    if (args.afterId) {
+      // Find the first task that sorts after the anchor, skipping the moved
+      // task itself and any tasks that share the anchor's key
+      const next = await ctx.db
+        .query("tasks")
+        .withIndex("by_user_and_parent_and_order", (q) =>
+          q
+            .eq("userId", userId)
+            .eq("parentId", task.parentId)
+            .gt("order", anchorOrder)
+        )
+        .filter((q) => q.neq(q.field("_id"), args.id))
+        .first();
+      order = generateKeyBetween(anchorOrder, next?.order ?? null);
+    } else {
+      const previous = await ctx.db
+        .query("tasks")
+        .withIndex("by_user_and_parent_and_order", (q) =>
+          q
+            .eq("userId", userId)
+            .eq("parentId", task.parentId)
+            .gt("order", "")
+            .lt("order", anchorOrder)
+        )
+        .order("desc")
+        .filter((q) => q.neq(q.field("_id"), args.id))
+        .first();
+      order = generateKeyBetween(previous?.order ?? null, anchorOrder);
+    }
+
+    await ctx.db.patch(args.id, { order });
   },
 });
+
+/**
+ * Assign order keys to tasks created before manual ordering existed.
+ * Run once per deployment with `npx convex run tasks:backfillOrder`; works
+ * in batches and schedules itself again until none are left. Tasks keep
+ * their previous newest-first order, below any ordered tasks.
+ */
+export const backfillOrder = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const unordered = await ctx.db
+      .query("tasks")
+      .withIndex("by_order", (q) => q.eq("order", undefined))
+      .order("desc")
+      .take(BACKFILL_BATCH_SIZE);
+
+    // Track the last key handed out per user
+    const lastKeys = new Map<string, string | null>();
+    for (const task of unordered) {
+      if (!lastKeys.has(task.userId)) {
+        const last = await ctx.db
+          .query("tasks")
+          .withIndex("by_user_and_order", (q) => q.eq("userId", task.userId))
+          .order("desc")
+          .first();
+        lastKeys.set(task.userId, last?.order ?? null);
+      }
+      const order = generateKeyBetween(lastKeys.get(task.userId)!, null);
+      lastKeys.set(task.userId, order);
+      await ctx.db.patch(task._id, { order });
+    }
+
+    if (unordered.length === BACKFILL_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.tasks.backfillOrder, {});
+    }
+    return null;
+  },
+});
+
+/**
+ * Count all subtasks below a task, at any depth.
+ * Used to warn before a delete cascades to them.
+ */
+export const subtaskCount = query({
+  args: {
+    id: v.id("tasks"),
+  },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    const task = await ctx.db.get(args.id);
+    if (!task || task.deletedAt !== undefined) {
+      throw new Error("Task not found");
+    }
+
+    // Verify ownership
+    if (task.userId !== userId) {
+      throw new Error("Unauthorized");
+    }
+
+    return (await getDescendants(ctx, task)).length;
+  },
+});
+
+const removeArgs = {
+  id: v.id("tasks"),
+};
+
+async function removeTask(
+  ctx: MutationCtx,
+  userId: string,
+  args: ObjectType<typeof removeArgs>
+) {
+  const task = await ctx.db.get(args.id);
+  if (!task || task.deletedAt !== undefined) {
+    throw new Error("Task not found");
+  }
+
+  // Verify ownership
+  if (task.userId !== userId) {
+    throw new Error("Unauthorized");
+  }
+
+  // Queued first, while the task still has its subtasks and labels
+  await queueTaskEvent(ctx, "task.removed", task);
+  await trashTask(ctx, task);
+}
+
+/**
+ * Move a task along with all of its subtasks to the trash.
+ * Trashed tasks can be restored with `restore` until they are purged.
+ */
+export const remove = mutation({
+  args: removeArgs,
+  handler: async (ctx, args) =>
+    await removeTask(ctx, await getAuthUserId(ctx), args),
+});
+
+/**
+ * List the current user's trashed tasks, most recently trashed first.
+ *
+ * Subtasks that were trashed along with their parent are not listed on
+ * their own; they are restored or purged with it. `subtaskCount` counts
+ * every subtask purging the task deletes, including ones trashed earlier.
+ * Each task carries the time it will be purged.
+ */
+export const trash = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    const retentionMs = getTrashRetentionMs();
+
+    const trashed = await ctx.db
+      .query("tasks")
+      .withIndex("by_user_and_deletedAt", (q) =>
+        q.eq("userId", userId).gt("deletedAt", 0)
+      )
+      .order("desc")
+      .collect();
+
+    const trashedAt = new Map(trashed.map((task) => [task._id, task.deletedAt]));
+    const roots = trashed.filter(
+      (task) =>
+        !task.parentId || trashedAt.get(task.parentId) !== task.deletedAt
+    );
+
+    return await Promise.all(
+      roots.map(async (task) => {
+        const descendants = await getDescendants(ctx, task, {
+          includeTrashed: true,
+        });
+        return {
+          ...task,
+          subtaskCount: descendants.length,
+          purgeAt: task.deletedAt! + retentionMs,
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Restore a task from the trash, along with the subtasks trashed with it.
+ */
+export const restore = mutation({
+  args: {
+    id: v.id("tasks"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    const task = await ctx.db.get(args.id);
+    if (!task || task.deletedAt === undefined) {
+      throw new Error("Task not found in the trash");
+    }
+
+    // Verify ownership
+    if (task.userId !== userId) {
+      throw new Error("Unauthorized");
+    }
+
+    if (task.parentId) {
+      const parent = await ctx.db.get(task.parentId);
+      if (parent?.deletedAt !== undefined) {
+        throw new Error("Restore the parent task first");
+      }
+    }
+
+    await restoreTask(ctx, task);
+  },
+});
+
+/**
+ * Permanently delete a trashed task and all of its subtasks.
+ */
+export const purge = mutation({
+  args: {
+    id: v.id("tasks"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    const task = await ctx.db.get(args.id);
+    if (!task || task.deletedAt === undefined) {
+      throw new Error("Task not found in the trash");
+    }
+
+    // Verify ownership
+    if (task.userId !== userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await purgeTask(ctx, task);
+  },
+});
+
+/**
+ * Purge tasks that have been in the trash for longer than the retention
+ * period (TRASH_RETENTION_DAYS). Runs from `crons.ts`; works in batches and
+ * schedules itself again until nothing expired is left.
+ */
+export const purgeExpiredTrash = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const cutoff = Date.now() - getTrashRetentionMs();
+
+    const expired = await ctx.db
+      .query("tasks")
+      .withIndex("by_deletedAt", (q) =>
+        q.gt("deletedAt", 0).lt("deletedAt", cutoff)
+      )
+      .take(PURGE_BATCH_SIZE);
+
+    for (const task of expired) {
+      // Subtasks may already be gone with a parent purged earlier in the batch
+      const current = await ctx.db.get(task._id);
+      if (current) {
+        await purgeTask(ctx, current);
+      }
+    }
+
+    if (expired.length === PURGE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.tasks.purgeExpiredTrash, {});
+    }
+    return null;
+  },
+});
+
+/** Page size of `GET /api/v1/tasks` when the request doesn't pick one. */
+const DEFAULT_API_PAGE_SIZE = 50;
+
+/** Largest page `GET /api/v1/tasks` returns. */
+const MAX_API_PAGE_SIZE = 100;
+
+/**
+ * Query parameters of `GET /api/v1/tasks`.
+ */
+export const listApiArgs = {
+  limit: v.optional(v.number()),
+  cursor: v.optional(v.string()),
+  status: v.optional(taskStatusValidator),
+  projectId: v.optional(v.id("projects")),
+};
+
+/** Request body of `POST /api/v1/tasks`. */
+export const createApiArgs = createArgs;
+
+/** Request body of `PATCH /api/v1/tasks/:id`. */
+export const updateApiArgs = updateFields;
+
+/** Request body of `POST /api/v1/tasks/:id/toggle`; it may be empty. */
+export const toggleApiArgs = toggleFields;
+
+const apiInput = {
+  userId: v.string(),
+  input: v.any(),
+};
+
+/**
+ * The functions behind the HTTP API (see `lib/restApi.ts`). They take a
+ * user resolved from an API token and the request's unchecked JSON, and
+ * throw API errors (see `lib/httpApi.ts`) instead of plain ones.
+ */
+export const listForApi = internalQuery({
+  args: apiInput,
+  returns: apiTaskPageValidator,
+  handler: (ctx, { userId, input }) =>
+    withApiErrors(async () => {
+      const { limit, cursor, ...filters } = parseArgs(
+        ctx.db,
+        listApiArgs,
+        input
+      );
+      const numItems = limit ?? DEFAULT_API_PAGE_SIZE;
+      if (
+        !Number.isInteger(numItems) ||
+        numItems < 1 ||
+        numItems > MAX_API_PAGE_SIZE
+      ) {
+        throw apiError(400, "The request is invalid", [
+          {
+            path: "limit",
+            message: `must be a whole number from 1 to ${MAX_API_PAGE_SIZE}`,
+          },
+        ]);
+      }
+
+      const result = await listTasks(ctx, userId, {
+        ...filters,
+        paginationOpts: { numItems, cursor: cursor ?? null },
+      });
+      return {
+        data: result.page.map(toApiTask),
+        nextCursor: result.isDone ? null : result.continueCursor,
+      };
+    }),
+});
+
+export const getForApi = internalQuery({
+  args: apiInput,
+  returns: apiTaskValidator,
+  handler: (ctx, { userId, input }) =>
+    withApiErrors(async () => {
+      const task = await getTask(
+        ctx,
+        userId,
+        parseArgs(ctx.db, getArgs, input)
+      );
+      if (!task) {
+        throw apiError(404, "Task not found");
+      }
+      return toApiTask(task);
+    }),
+});
+
+/**
+ * Check that the parent task and project a request refers to are the
+ * user's, reporting them as invalid fields rather than missing resources.
+ */
+async function checkApiReferences(
+  ctx: QueryCtx,
+  userId: string,
+  refs: { parentId?: Id<"tasks">; projectId?: Id<"projects"> | null }
+) {
+  const issues: ValidationIssue[] = [];
+  if (refs.parentId) {
+    const parent = await ctx.db.get(refs.parentId);
+    if (
+      !parent ||
+      parent.deletedAt !== undefined ||
+      parent.userId !== userId
+    ) {
+      issues.push({ path: "parentId", message: "must be one of your tasks" });
+    }
+  }
+  if (refs.projectId) {
+    const project = await ctx.db.get(refs.projectId);
+    if (project?.userId !== userId) {
+      issues.push({
+        path: "projectId",
+        message: "must be one of your projects",
+      });
+    }
+  }
+  if (issues.length > 0) {
+    throw apiError(400, "The request is invalid", issues);
+  }
+}
+
+/**
+ * Load a task the API just changed, in its API form.
+ */
+async function getApiTask(ctx: QueryCtx, userId: string, id: Id<"tasks">) {
+  const task = await getTask(ctx, userId, { id });
+  if (!task) {
+    throw apiError(404, "Task not found");
+  }
+  return toApiTask(task);
+}
+
+export const createForApi = internalMutation({
+  args: apiInput,
+  returns: apiTaskValidator,
+  handler: (ctx, { userId, input }) =>
+    withApiErrors(async () => {
+      const args = parseArgs(ctx.db, createApiArgs, input);
+      await checkApiReferences(ctx, userId, args);
+      const taskId = await createTask(ctx, userId, args);
+      return await getApiTask(ctx, userId, taskId);
+    }),
+});
+
+export const updateForApi = internalMutation({
+  args: apiInput,
+  returns: apiTaskValidator,
+  handler: (ctx, { userId, input }) =>
+    withApiErrors(async () => {
+      const args = parseArgs(ctx.db, updateArgs, input);
+      await checkApiReferences(ctx, userId, args);
+      await updateTask(ctx, userId, args);
+      return await getApiTask(ctx, userId, args.id);
+    }),
+});
+
+export const toggleForApi = internalMutation({
+  args: apiInput,
+  returns: apiTaskValidator,
+  handler: (ctx, { userId, input }) =>
+    withApiErrors(async () => {
+      const args = parseArgs(ctx.db, toggleArgs, input);
+      await toggleTask(ctx, userId, args);
+      return await getApiTask(ctx, userId, args.id);
+    }),
+});
+
+export const removeForApi = internalMutation({
+  args: apiInput,
+  returns: v.null(),
+  handler: (ctx, { userId, input }) =>
+    withApiErrors(async () => {
+      await removeTask(
+        ctx,
+        userId,
+        parseArgs(ctx.db, removeArgs, input)
+      );
+      return null;
+    }),
+});
@@ -0,0 +1,80 @@
+import { v } from "convex/values";
+import { query, internalMutation } from "./_generated/server";
+import { getAuthUserId } from "./lib/auth";
+import { getFile, getReadableFile } from "./lib/files";
+import { pickBestFit, thumbnailSizeValidator } from "./lib/thumbnails";
+
+/**
+ * Get the URL of the smallest version of an image that is at least
+ * `width` pixels wide: a thumbnail if one fits, otherwise the original.
+ * Returns null if the file doesn't exist.
+ */
+export const getImageUrl = query({
+  args: {
+    storageId: v.id("_storage"),
+    width: v.number(),
+  },
+  returns: v.union(v.string(), v.null()),
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const file = await getReadableFile(ctx, args.storageId, userId);
+    if (!file) {
+      return null;
+    }
+
+    const thumbnails = await ctx.db
+      .query("thumbnails")
+      .withIndex("by_source", (q) => q.eq("sourceId", args.storageId))
+      .collect();
+
+    const best = pickBestFit(
+      [
+        ...thumbnails,
+        // Treat originals of unknown size as larger than any thumbnail
+        { storageId: args.storageId, width: file.width ?? Infinity },
+      ],
+      args.width
+    );
+    return await ctx.storage.getUrl(best?.storageId ?? args.storageId);
+  },
+});
+
+/**
+ * Record the thumbnails generated for an image, along with its dimensions.
+ * If the image was deleted while they were being generated, the
+ * thumbnails are deleted instead.
+ */
+export const save = internalMutation({
+  args: {
+    sourceId: v.id("_storage"),
+    width: v.number(),
+    height: v.number(),
+    thumbnails: v.array(
+      v.object({
+        size: thumbnailSizeValidator,
+        storageId: v.id("_storage"),
+        width: v.number(),
+        height: v.number(),
+      })
+    ),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const file = await getFile(ctx, args.sourceId);
+    if (!file) {
+      for (const thumbnail of args.thumbnails) {
+        await ctx.storage.delete(thumbnail.storageId);
+      }
+      return null;
+    }
+
+    await ctx.db.patch(file._id, { width: args.width, height: args.height });
+    for (const thumbnail of args.thumbnails) {
+      await ctx.db.insert("thumbnails", {
+        sourceId: args.sourceId,
+        ...thumbnail,
+      });
+    }
+    return null;
+  },
+});
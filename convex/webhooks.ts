@@ -0,0 +1,247 @@
+import { v } from "convex/values";
+import {
+  query,
+  mutation,
+  internalMutation,
+  internalQuery,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { getAuthUserId } from "./lib/auth";
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  MAX_WEBHOOK_SECRET_LENGTH,
+  MAX_WEBHOOKS_PER_USER,
+  MIN_WEBHOOK_SECRET_LENGTH,
+  validateWebhookUrl,
+  webhookEventValidator,
+} from "./lib/webhooks";
+
+/** Deliveries shown per webhook in the log. */
+const DELIVERY_LOG_SIZE = 20;
+
+/** How long deliveries are kept in the log. */
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Deliveries deleted per run of `pruneDeliveries`. */
+const PRUNE_BATCH_SIZE = 100;
+
+/**
+ * List the current user's webhooks, oldest first. Secrets are never
+ * returned.
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+
+    const webhooks = await ctx.db
+      .query("webhooks")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    return webhooks.map(({ secret: _secret, ...webhook }) => webhook);
+  },
+});
+
+/**
+ * Register a webhook. Events it subscribes to are POSTed to `url` as JSON,
+ * signed with `secret` (see `signWebhookPayload` in lib/webhooks.ts).
+ */
+export const create = mutation({
+  args: {
+    url: v.string(),
+    secret: v.string(),
+    events: v.array(webhookEventValidator),
+  },
+  returns: v.id("webhooks"),
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    const url = validateWebhookUrl(args.url);
+    if (
+      args.secret.length < MIN_WEBHOOK_SECRET_LENGTH ||
+      args.secret.length > MAX_WEBHOOK_SECRET_LENGTH
+    ) {
+      throw new Error(
+        `Secrets must be ${MIN_WEBHOOK_SECRET_LENGTH} to ` +
+          `${MAX_WEBHOOK_SECRET_LENGTH} characters long`
+      );
+    }
+    if (args.events.length === 0) {
+      throw new Error("Choose at least one event");
+    }
+
+    const existing = await ctx.db
+      .query("webhooks")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .take(MAX_WEBHOOKS_PER_USER);
+    if (existing.length >= MAX_WEBHOOKS_PER_USER) {
+      throw new Error(`You can have at most ${MAX_WEBHOOKS_PER_USER} webhooks`);
+    }
+
+    return await ctx.db.insert("webhooks", {
+      userId,
+      url,
+      secret: args.secret,
+      events: [...new Set(args.events)],
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Delete a webhook along with its delivery log. Pending retries are
+ * dropped.
+ */
+export const remove = mutation({
+  args: {
+    id: v.id("webhooks"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    const webhook = await ctx.db.get(args.id);
+    if (!webhook) {
+      throw new Error("Webhook not found");
+    }
+
+    // Verify ownership
+    if (webhook.userId !== userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const deliveries = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_webhook", (q) => q.eq("webhookId", args.id))
+      .collect();
+    for (const delivery of deliveries) {
+      await ctx.db.delete(delivery._id);
+    }
+    await ctx.db.delete(args.id);
+  },
+});
+
+/**
+ * List a webhook's most recent deliveries, newest first.
+ */
+export const deliveries = query({
+  args: {
+    webhookId: v.id("webhooks"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+
+    const webhook = await ctx.db.get(args.webhookId);
+    if (!webhook) {
+      throw new Error("Webhook not found");
+    }
+
+    // Verify ownership
+    if (webhook.userId !== userId) {
+      throw new Error("Unauthorized");
+    }
+
+    return await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_webhook", (q) => q.eq("webhookId", args.webhookId))
+      .order("desc")
+      .take(DELIVERY_LOG_SIZE);
+  },
+});
+
+/**
+ * Load what a "deliverWebhook" job needs to send a delivery. Returns null
+ * if the delivery or its webhook was deleted, or it has already succeeded.
+ * Failed deliveries are returned so a requeued job sends them again.
+ */
+export const getDelivery = internalQuery({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+  },
+  returns: v.union(
+    v.object({
+      url: v.string(),
+      secret: v.string(),
+      event: webhookEventValidator,
+      payload: v.string(),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.deliveryId);
+    if (!delivery || delivery.status === "succeeded") {
+      return null;
+    }
+    const webhook = await ctx.db.get(delivery.webhookId);
+    if (!webhook) {
+      return null;
+    }
+    return {
+      url: webhook.url,
+      secret: webhook.secret,
+      event: delivery.event,
+      payload: delivery.payload,
+    };
+  },
+});
+
+/**
+ * Record the outcome of an attempt for the delivery log. Failed attempts
+ * are retried by the job queue; the delivery shows as failed once
+ * MAX_WEBHOOK_ATTEMPTS have been made.
+ */
+export const recordAttempt = internalMutation({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+    ok: v.boolean(),
+    responseStatus: v.optional(v.number()),
+    error: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.deliveryId);
+    if (!delivery) {
+      return null;
+    }
+
+    const now = Date.now();
+    const attempts = delivery.attempts + 1;
+    const retry = !args.ok && attempts < MAX_WEBHOOK_ATTEMPTS;
+
+    await ctx.db.patch(args.deliveryId, {
+      status: args.ok ? "succeeded" : retry ? "pending" : "failed",
+      attempts,
+      responseStatus: args.responseStatus,
+      error: args.error,
+      lastAttemptAt: now,
+      nextAttemptAt: undefined,
+    });
+    return null;
+  },
+});
+
+/**
+ * Delete deliveries older than 30 days. Runs from `crons.ts`; works in
+ * batches and schedules itself again until none are left.
+ */
+export const pruneDeliveries = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const cutoff = Date.now() - DELIVERY_RETENTION_MS;
+
+    const expired = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_creation_time", (q) => q.lt("_creationTime", cutoff))
+      .take(PRUNE_BATCH_SIZE);
+
+    for (const delivery of expired) {
+      await ctx.db.delete(delivery._id);
+    }
+
+    if (expired.length === PRUNE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.webhooks.pruneDeliveries, {});
+    }
+    return null;
+  },
+});